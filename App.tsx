@@ -1,55 +1,145 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { TabView, StockAnalysis } from './types';
+import { TabView, StockAnalysis, StockAnalysisError, SymbolStatus, Transaction, CostBasisMethod, FeeSettings, DividendEvent, Account, AlertRule, AlertEvent, ValuationSnapshot, Currency, FxRate } from './types';
 import StockTable from './components/StockTable';
 import RetirementCalc from './components/RetirementCalc';
-import { analyzePortfolio, analyzeMarketTrends } from './services/geminiService';
-import { LineChart, Briefcase, Plus, X, Search, Zap, KeyRound, AlertTriangle, PieChart as PieIcon, TrendingUp, RefreshCw, Save, CheckCircle } from 'lucide-react';
+import MarketDataSettings from './components/MarketDataSettings';
+import SymbolInput from './components/SymbolInput';
+import { resolveSecurity } from './services/securityMaster';
+import { nextMarketEvent } from './services/tradingCalendar';
+import TradingCalendarStatus from './components/TradingCalendarStatus';
+import SettingsModal from './components/SettingsModal';
+import TransactionLedger from './components/TransactionLedger';
+import TradingCostSettings from './components/TradingCostSettings';
+import DividendTracker from './components/DividendTracker';
+import AccountSwitcher from './components/AccountSwitcher';
+import BrokerImportWizard from './components/BrokerImportWizard';
+import DataBackupModal from './components/DataBackupModal';
+import AlertsPanel from './components/AlertsPanel';
+import AlertInbox from './components/AlertInbox';
+import PerformancePanel from './components/PerformancePanel';
+import AllocationDashboard from './components/AllocationDashboard';
+import RebalancePlanner from './components/RebalancePlanner';
+import CurrencySettings from './components/CurrencySettings';
+import { getAlertRules, getAlertInbox, checkAlerts } from './services/alerts';
+import { recordAnalysisRun } from './services/analysisHistory';
+import { getValuations, recordValuation, quoteDate } from './services/performance';
+import {
+  getSymbolCurrencies,
+  setSymbolCurrency,
+  getBaseCurrency,
+  getFxRates,
+  currentRates,
+  toBaseTransactions,
+  isValidForeignTicker,
+  CURRENCIES,
+  CURRENCY_LABELS,
+} from './services/currency';
+import { ImportResult } from './services/brokerImport';
+import { getDividendEvents } from './services/dividends';
+import { getFeeSettings } from './services/tradingCosts';
+import { getTransactions, getCostBasisMethod, setCostBasisMethod, computeAccountPositions, aggregatePositions, quantitiesFromPositions } from './services/ledger';
+import {
+  getAccounts,
+  saveAccounts,
+  getAccountSymbols,
+  saveAccountSymbols,
+  getActiveAccountId,
+  setActiveAccountId,
+  symbolsForScope,
+  transactionsForScope,
+  accountOf,
+  ALL_ACCOUNTS,
+  DEFAULT_ACCOUNT_ID,
+} from './services/accounts';
+import { isLlmConfigured } from './services/llmProvider';
+import { clearAnalysisCache } from './services/analysisCache';
+import { describeLlmError, MissingApiKeyError, InvalidApiKeyError } from './services/llmErrors';
+import { analyzeMarketTrends } from './services/geminiService';
+import { analyzePortfolioInBatches } from './services/portfolioAnalysis';
+import { LineChart, Briefcase, Plus, X, Search, Zap, Settings, AlertTriangle, PieChart as PieIcon, TrendingUp, RefreshCw, Save, CheckCircle, Archive } from 'lucide-react';
+
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabView>(TabView.MARKET_ANALYSIS);
   
-  // API Key Management
-  const [showApiKeyModal, setShowApiKeyModal] = useState(false);
-  const [apiKeyInput, setApiKeyInput] = useState('');
+  // AI provider / API Key Management
+  const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
+  const [showBackupModal, setShowBackupModal] = useState(false);
   
   // --- STATE INITIALIZATION WITH ROBUST RECOVERY ---
 
-  // 1. Stock Quantities (庫存股數)
-  const [stockQuantities, setStockQuantities] = useState<Record<string, number>>(() => {
-    try {
-      const saved = localStorage.getItem('finance_stock_quantities');
-      return saved ? JSON.parse(saved) : {};
-    } catch {
-      return {};
-    }
-  });
+  // 1. Transaction Ledger (交易紀錄) - share counts are derived from it
+  const [transactions, setTransactions] = useState<Transaction[]>(getTransactions);
+  const [costMethod, setCostMethod] = useState<CostBasisMethod>(getCostBasisMethod);
+  const [dividends, setDividends] = useState<DividendEvent[]>(getDividendEvents);
+  const [feeSettings, setFeeSettings] = useState<FeeSettings>(getFeeSettings);
 
-  // 2. My Symbols (股票代碼清單)
-  const [mySymbols, setMySymbols] = useState<string[]>(() => {
-    try {
-      const saved = localStorage.getItem('finance_portfolio_symbols');
-      let symbols: string[] = saved ? JSON.parse(saved) : [];
-      
-      // Recovery Mechanism: If symbols list is empty but we have quantities, restore symbols from quantities
-      if (symbols.length === 0) {
-        const savedQty = localStorage.getItem('finance_stock_quantities');
-        if (savedQty) {
-          const qtyMap = JSON.parse(savedQty);
-          const recoveredSymbols = Object.keys(qtyMap);
-          if (recoveredSymbols.length > 0) {
-            symbols = recoveredSymbols;
-            // Sync back to storage immediately
-            localStorage.setItem('finance_portfolio_symbols', JSON.stringify(symbols));
-          }
-        }
-      }
-      return symbols;
-    } catch (e) {
-      return [];
-    }
-  });
+  // 2. Accounts (帳戶) - each keeps its own watchlist and trades; ALL_ACCOUNTS is the consolidated view
+  const [accounts, setAccounts] = useState<Account[]>(getAccounts);
+  const [activeAccountId, setActiveAccount] = useState<string>(getActiveAccountId);
+  const isConsolidated = activeAccountId === ALL_ACCOUNTS;
+
+  const accountPositions = useMemo(
+    () => computeAccountPositions(transactions, costMethod, dividends),
+    [transactions, costMethod, dividends]
+  );
+  const positions = useMemo(
+    () => isConsolidated ? aggregatePositions(Object.values(accountPositions)) : accountPositions[activeAccountId] || {},
+    [accountPositions, activeAccountId, isConsolidated]
+  );
 
-  // 3. Analysis Data (分析結果)
+  // Foreign holdings: their currency, the base currency totals are shown in, and the dated FX rates
+  const [symbolCurrencies, setSymbolCurrencies] = useState<Record<string, Currency>>(getSymbolCurrencies);
+  const [baseCurrency, setBaseCurrency] = useState<Currency>(getBaseCurrency);
+  const [fxRates, setFxRates] = useState<FxRate[]>(getFxRates);
+  const todayRates = useMemo(() => currentRates(baseCurrency, fxRates), [baseCurrency, fxRates]);
+  // The ledger replayed with every trade converted at its own day's rate
+  const basePositions = useMemo(() => {
+    const converted = computeAccountPositions(toBaseTransactions(transactions, baseCurrency, symbolCurrencies, fxRates), costMethod, dividends);
+    return isConsolidated ? aggregatePositions(Object.values(converted)) : converted[activeAccountId] || {};
+  }, [transactions, baseCurrency, symbolCurrencies, fxRates, costMethod, dividends, activeAccountId, isConsolidated]);
+  const scopedTransactions = useMemo(
+    () => transactionsForScope(transactions, activeAccountId),
+    [transactions, activeAccountId]
+  );
+  const transactionCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    transactions.forEach(t => { counts[accountOf(t)] = (counts[accountOf(t)] || 0) + 1; });
+    return counts;
+  }, [transactions]);
+  // Share counts over every account (kept in the legacy storage key)
+  const stockQuantities = useMemo(
+    () => quantitiesFromPositions(aggregatePositions(Object.values(accountPositions))),
+    [accountPositions]
+  );
+  // Retirement planning only counts the accounts marked for it
+  const retirementQuantities = useMemo(
+    () => quantitiesFromPositions(aggregatePositions(
+      accounts.filter(a => a.includeInRetirement).map(a => accountPositions[a.id] || {})
+    )),
+    [accounts, accountPositions]
+  );
+
+  // Price alerts, checked whenever analyses bring in new quotes
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(getAlertRules);
+  const [alertInbox, setAlertInbox] = useState<AlertEvent[]>(getAlertInbox);
+
+  // 3. My Symbols (股票代碼清單) - one list per account
+  const [accountSymbols, setAccountSymbols] = useState<Record<string, string[]>>(getAccountSymbols);
+  const mySymbols = useMemo(
+    () => symbolsForScope(accountSymbols, accounts, activeAccountId),
+    [accountSymbols, accounts, activeAccountId]
+  );
+
+  const updateAccountSymbols = (updated: Record<string, string[]>) => {
+    setAccountSymbols(updated);
+    // Immediate Save
+    saveAccountSymbols(updated);
+  };
+
+  // 4. Analysis Data (分析結果)
   const [portfolioStocks, setPortfolioStocks] = useState<StockAnalysis[]>(() => {
     try {
       const saved = localStorage.getItem('finance_portfolio_data');
@@ -60,22 +150,25 @@ const App: React.FC = () => {
   });
 
   const [portfolioLoading, setPortfolioLoading] = useState(false);
+  // Per-symbol progress of the latest batched analysis run
+  const [symbolStatus, setSymbolStatus] = useState<Record<string, SymbolStatus>>({});
   const [inputSymbol, setInputSymbol] = useState('');
+  const [inputCurrency, setInputCurrency] = useState<Currency>('TWD');
+  const [symbolInputError, setSymbolInputError] = useState<string | null>(null);
   const [showSaveToast, setShowSaveToast] = useState(false);
+  // Re-query symbols whose analysis fails the sanity checks (defaults to on)
+  const [autoRequery, setAutoRequery] = useState(() => localStorage.getItem('finance_auto_requery') !== 'false');
   
   // State for Market Trends
   const [trendStocks, setTrendStocks] = useState<StockAnalysis[]>([]);
   const [trendLoading, setTrendLoading] = useState(false);
+  const [trendErrors, setTrendErrors] = useState<StockAnalysisError[]>([]);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
-  // Check for API Key on mount
+  // Check for a usable AI provider (Gemini needs an API Key) on mount
   useEffect(() => {
-    const storedKey = localStorage.getItem('gemini_api_key');
-    // @ts-ignore
-    const hasEnvKey = (typeof process !== 'undefined' && process.env.API_KEY) || (typeof import.meta !== 'undefined' && import.meta.env && import.meta.env.VITE_API_KEY);
-    
-    if (!storedKey && !hasEnvKey) {
-      setShowApiKeyModal(true);
+    if (!isLlmConfigured()) {
+      setShowSettingsModal(true);
     } else {
       // Only fetch trends if we have a key
       handleFetchTrends();
@@ -83,11 +176,24 @@ const App: React.FC = () => {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Scheduled refresh: re-fetch market trends shortly after each open / close on trading days
+  const [marketEventTick, setMarketEventTick] = useState(0);
+  useEffect(() => {
+    const delay = nextMarketEvent().at.getTime() - Date.now() + 60 * 1000;
+    // setTimeout overflows past ~24.8 days; long closures just re-arm
+    const timer = setTimeout(() => {
+      setMarketEventTick(t => t + 1);
+      if (delay <= MAX_TIMEOUT_MS && isLlmConfigured()) handleFetchTrends();
+    }, Math.min(Math.max(delay, 0), MAX_TIMEOUT_MS));
+    return () => clearTimeout(timer);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [marketEventTick]);
+
   // --- PERSISTENCE EFFECT HANDLERS (Backup) ---
   // Although we save immediately in handlers, these ensure sync on any other state changes
   useEffect(() => {
-    localStorage.setItem('finance_portfolio_symbols', JSON.stringify(mySymbols));
-  }, [mySymbols]);
+    saveAccountSymbols(accountSymbols);
+  }, [accountSymbols]);
 
   useEffect(() => {
     localStorage.setItem('finance_stock_quantities', JSON.stringify(stockQuantities));
@@ -101,7 +207,7 @@ const App: React.FC = () => {
 
   const handleManualSave = () => {
     try {
-      localStorage.setItem('finance_portfolio_symbols', JSON.stringify(mySymbols));
+      saveAccountSymbols(accountSymbols);
       localStorage.setItem('finance_stock_quantities', JSON.stringify(stockQuantities));
       localStorage.setItem('finance_portfolio_data', JSON.stringify(portfolioStocks));
       setShowSaveToast(true);
@@ -112,55 +218,107 @@ const App: React.FC = () => {
     }
   };
 
-  const handleSaveApiKey = () => {
-    if (apiKeyInput.trim()) {
-      localStorage.setItem('gemini_api_key', apiKeyInput.trim());
-      setShowApiKeyModal(false);
-      handleFetchTrends();
+  // A restore rewrites storage directly, so every piece of state is read back from it
+  const handleDataRestored = () => {
+    setShowBackupModal(false);
+    setTransactions(getTransactions());
+    setCostMethod(getCostBasisMethod());
+    setDividends(getDividendEvents());
+    setFeeSettings(getFeeSettings());
+    setAccounts(getAccounts());
+    setAccountSymbols(getAccountSymbols());
+    setActiveAccount(getActiveAccountId());
+    setSymbolCurrencies(getSymbolCurrencies());
+    setBaseCurrency(getBaseCurrency());
+    setFxRates(getFxRates());
+    setAlertRules(getAlertRules());
+    setAlertInbox(getAlertInbox());
+    setValuations(getValuations());
+    try {
+      setPortfolioStocks(JSON.parse(localStorage.getItem('finance_portfolio_data') || '[]'));
+    } catch {
+      setPortfolioStocks([]);
+    }
+    setSymbolStatus({});
+    setShowSaveToast(true);
+    setTimeout(() => setShowSaveToast(false), 2000);
+  };
+
+  const handleSettingsSaved = () => {
+    setShowSettingsModal(false);
+    // Analyses from another model should not be served from cache
+    clearAnalysisCache();
+    handleFetchTrends();
+  };
+
+  // Shows the classified error; key problems also reopen the settings modal
+  const handleLlmError = (err: unknown, fallback: string) => {
+    setErrorMsg(describeLlmError(err, fallback));
+    if (err instanceof MissingApiKeyError || err instanceof InvalidApiKeyError) {
+      setShowSettingsModal(true);
     }
   };
 
-  const handleFetchTrends = async () => {
+  const handleFetchTrends = async (forceRefresh = false) => {
     setErrorMsg(null);
     setTrendLoading(true);
     try {
-      const data = await analyzeMarketTrends();
-      setTrendStocks(data);
+      const { stocks, errors } = await analyzeMarketTrends({ forceRefresh });
+      setTrendStocks(stocks);
+      setTrendErrors(errors);
     } catch (err) {
       console.error(err);
-      setErrorMsg("無法取得市場資訊。請確認您的 API 金鑰是否正確，或稍後再試。");
+      handleLlmError(err, "無法取得市場資訊，請稍後再試。");
     } finally {
       setTrendLoading(false);
     }
   };
 
   const handleAddSymbol = () => {
+    if (isConsolidated) {
+      setSymbolInputError('請先選擇要加入的帳戶');
+      return;
+    }
     if (inputSymbol) {
-      const newSymbols = inputSymbol.split(/[, ]+/).map(s => {
-        const cleanS = s.trim().toUpperCase();
-        // Client-side quick fix for "304" input
-        if (cleanS === '304') return '3042'; 
-        return cleanS;
-      }).filter(s => s.length > 0);
+      const tokens = inputSymbol.split(/[, ]+/).map(s => s.trim()).filter(s => s.length > 0);
+      const isForeign = inputCurrency !== 'TWD';
+      // Taiwan listings must be in the security master (codes or exact names); foreign tickers only need to look like one
+      const unknown = tokens.filter(t => isForeign ? !isValidForeignTicker(t) : !resolveSecurity(t));
+      const newSymbols = tokens
+        .map(t => isForeign ? (isValidForeignTicker(t) ? t.toUpperCase() : undefined) : resolveSecurity(t)?.code)
+        .filter((code): code is string => !!code);
+      if (isForeign) {
+        newSymbols.forEach(s => setSymbolCurrency(s, inputCurrency));
+        setSymbolCurrencies(getSymbolCurrencies());
+      }
       
-      const uniqueNewSymbols = newSymbols.filter(s => !mySymbols.includes(s));
+      const uniqueNewSymbols = newSymbols.filter((s, i) => !mySymbols.includes(s) && newSymbols.indexOf(s) === i);
       
       if (uniqueNewSymbols.length > 0) {
-        const updatedList = [...mySymbols, ...uniqueNewSymbols];
-        setMySymbols(updatedList);
-        // Immediate Save
-        localStorage.setItem('finance_portfolio_symbols', JSON.stringify(updatedList));
+        updateAccountSymbols({ ...accountSymbols, [activeAccountId]: [...mySymbols, ...uniqueNewSymbols] });
+      }
+      if (unknown.length > 0) {
+        setSymbolInputError(isForeign ? `代號格式不正確：${unknown.join('、')}` : `證券清單中查無：${unknown.join('、')}，請確認代碼或先更新證券清單`);
+        setInputSymbol(unknown.join(', '));
+      } else {
+        setSymbolInputError(null);
         setInputSymbol('');
       }
     }
   };
 
   const handleRemoveSymbol = (symbolToRemove: string) => {
-    const updatedList = mySymbols.filter(s => s !== symbolToRemove);
-    setMySymbols(updatedList);
-    // Immediate Save
-    localStorage.setItem('finance_portfolio_symbols', JSON.stringify(updatedList));
-    
+    updateAccountSymbols({ ...accountSymbols, [activeAccountId]: mySymbols.filter(s => s !== symbolToRemove) });
+    setSymbolStatus(prev => {
+      const { [symbolToRemove]: _removed, ...rest } = prev;
+      return rest;
+    });
+
+    // Keep the analysis while another account still watches the symbol
+    const watchedElsewhere = Object.entries(accountSymbols)
+      .some(([id, list]) => id !== activeAccountId && list.includes(symbolToRemove));
+    if (watchedElsewhere) return;
+
     // Also remove from current display data so it disappears immediately
     setPortfolioStocks(prev => {
       const updated = prev.filter(s => s.symbol !== symbolToRemove);
@@ -169,48 +327,132 @@ const App: React.FC = () => {
     });
   };
 
-  const handleQuantityChange = (symbol: string, qty: number) => {
-    setStockQuantities(prev => {
-      const updated = { ...prev, [symbol]: qty };
-      // Immediate Save
-      localStorage.setItem('finance_stock_quantities', JSON.stringify(updated));
-      return updated;
-    });
+  const handleSelectAccount = (id: string) => {
+    setActiveAccount(id);
+    setActiveAccountId(id);
+    setSymbolInputError(null);
   };
 
-  const handleAnalyzePortfolio = async () => {
+  const handleAccountsChange = (updated: Account[]) => {
+    setAccounts(updated);
+    saveAccounts(updated);
+    // Drop the watchlists of deleted accounts
+    const ids = new Set(updated.map(a => a.id));
+    if (Object.keys(accountSymbols).some(id => !ids.has(id))) {
+      updateAccountSymbols(Object.fromEntries(Object.entries(accountSymbols).filter(([id]) => ids.has(id))));
+    }
+    if (!isConsolidated && !ids.has(activeAccountId)) handleSelectAccount(DEFAULT_ACCOUNT_ID);
+  };
+
+  // Imported trades go to the ledger and their symbols onto that account's watchlist
+  const handleImported = (result: ImportResult, accountId: string) => {
+    setTransactions(result.transactions);
+    const current = accountSymbols[accountId] || [];
+    const added = [...new Set(result.imported.map(t => t.symbol))].filter(s => !current.includes(s));
+    if (added.length > 0) {
+      updateAccountSymbols({ ...accountSymbols, [accountId]: [...current, ...added] });
+    }
+  };
+
+  const handleCostMethodChange = (method: CostBasisMethod) => {
+    setCostMethod(method);
+    setCostBasisMethod(method);
+  };
+
+  // Analyses for the symbols of the selected account (all of them in the consolidated view)
+  const visibleStocks = useMemo(
+    () => portfolioStocks.filter(s => mySymbols.includes(s.symbol)),
+    [portfolioStocks, mySymbols]
+  );
+
+  const latestPrices = useMemo(
+    () => Object.fromEntries(portfolioStocks.map(s => [s.symbol, s.currentPrice])),
+    [portfolioStocks]
+  );
+  // Prices in the base currency for views that weigh holdings against each other; no rate, no price
+  const basePrices = useMemo(
+    () => Object.fromEntries(portfolioStocks.flatMap(s => {
+      const rate = todayRates[symbolCurrencies[s.symbol] || 'TWD'];
+      return rate === undefined ? [] : [[s.symbol, s.currentPrice * rate]];
+    })),
+    [portfolioStocks, todayRates, symbolCurrencies]
+  );
+  const foreignCurrencies = useMemo(
+    () => [...new Set(Object.values(symbolCurrencies))].filter(c => c !== 'TWD'),
+    [symbolCurrencies]
+  );
+
+  const priceDates = useMemo(
+    () => Object.fromEntries(portfolioStocks.flatMap(s => {
+      const date = quoteDate(s);
+      return date ? [[s.symbol, date]] : [];
+    })),
+    [portfolioStocks]
+  );
+
+  // Daily market value per account, recorded whenever holdings or prices change. Nothing is
+  // recorded until this session has fetched quotes, so stored prices never make a new snapshot.
+  const [valuations, setValuations] = useState<ValuationSnapshot[]>(getValuations);
+  const [quotesFetched, setQuotesFetched] = useState(false);
+  useEffect(() => {
+    if (!quotesFetched) return;
+    const updated = recordValuation(accountPositions, basePrices, priceDates, baseCurrency);
+    if (updated) setValuations(updated);
+  }, [quotesFetched, accountPositions, basePrices, priceDates, baseCurrency]);
+
+  const handleAnalyzePortfolio = async (forceRefresh = false) => {
     if (mySymbols.length === 0) return;
     setErrorMsg(null);
     setPortfolioLoading(true);
+    setSymbolStatus({});
     try {
-      const data = await analyzePortfolio(mySymbols);
-      setPortfolioStocks(data);
-      // Immediate Save
-      localStorage.setItem('finance_portfolio_data', JSON.stringify(data));
+      const finalStatus = await analyzePortfolioInBatches(mySymbols, {
+        forceRefresh,
+        requeryOnWarnings: autoRequery,
+        // Merge each finished batch right away; symbols that fail keep their previous analysis
+        onStocks: (stocks) => {
+          setPortfolioStocks(prev => {
+            const fresh = new Map(stocks.map(s => [s.symbol, s]));
+            const merged = [...prev.filter(s => !fresh.has(s.symbol)), ...stocks];
+            return merged.sort((a, b) => mySymbols.indexOf(a.symbol) - mySymbols.indexOf(b.symbol));
+          });
+          recordAnalysisRun(stocks);
+          setQuotesFetched(true);
+          const alerts = checkAlerts(stocks);
+          setAlertRules(alerts.rules);
+          setAlertInbox(alerts.inbox);
+        },
+        onStatus: (update) => setSymbolStatus(prev => ({ ...prev, ...update })),
+      });
+      const failures = Object.values(finalStatus);
+      if (failures.every(s => s.state === 'FAILED')) {
+        // One shared cause (e.g. a timeout) is worth a banner; mixed causes are listed per symbol below
+        const reasons = [...new Set(failures.map(s => s.message).filter(Boolean))];
+        setErrorMsg(reasons.length === 1 ? `分析失敗：${reasons[0]}` : "分析失敗，各代碼的原因請見下方列表。");
+      }
     } catch (err) {
       console.error(err);
-      setErrorMsg("分析失敗。請確認您的 API 金鑰是否正確。");
+      handleLlmError(err, "分析失敗，請稍後再試。");
     } finally {
       setPortfolioLoading(false);
     }
   };
 
-  const clearApiKey = () => {
-    if(confirm("確定要清除儲存的 API Key 嗎？下次使用需重新輸入。")) {
-      localStorage.removeItem('gemini_api_key');
-      window.location.reload();
-    }
-  };
+  // Symbols whose latest run failed, with the reason
+  const failedSymbols = useMemo(
+    () => mySymbols.filter(s => symbolStatus[s]?.state === 'FAILED'),
+    [mySymbols, symbolStatus]
+  );
 
   // Helper to check if we have symbols but missing analysis data
   const hasPendingSymbols = useMemo(() => {
     if (mySymbols.length === 0) return false;
-    // If portfolioStocks is empty, obviously pending
-    if (portfolioStocks.length === 0) return true;
-    // Or if symbols count mismatch significantly (user added new ones)
-    const analyzedSymbols = portfolioStocks.map(s => s.symbol);
-    return mySymbols.some(s => !analyzedSymbols.includes(s));
-  }, [mySymbols, portfolioStocks]);
+    // If visibleStocks is empty, obviously pending
+    if (visibleStocks.length === 0) return true;
+    // Or if symbols count mismatch significantly (user added new ones), or the last run failed for some
+    const analyzedSymbols = visibleStocks.map(s => s.symbol);
+    return mySymbols.some(s => !analyzedSymbols.includes(s)) || failedSymbols.length > 0;
+  }, [mySymbols, visibleStocks, failedSymbols]);
 
   return (
     <div className="min-h-screen bg-slate-50 font-sans text-slate-900 pb-20">
@@ -222,44 +464,32 @@ const App: React.FC = () => {
         </div>
       )}
 
-      {/* API Key Modal */}
-      {showApiKeyModal && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fadeIn">
-          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4">
-            <div className="flex items-center space-x-3 text-indigo-600">
-              <KeyRound className="w-8 h-8" />
-              <h2 className="text-xl font-bold">設定 API 金鑰</h2>
-            </div>
-            <p className="text-slate-600 text-sm">
-              為了使用此應用程式的 AI 分析功能，請輸入您的 Google Gemini API Key。
-              <br/>您的金鑰僅會儲存在您的瀏覽器中，不會傳送至其他伺服器。
-            </p>
-            <input
-              type="password"
-              value={apiKeyInput}
-              onChange={(e) => setApiKeyInput(e.target.value)}
-              placeholder="貼上您的 API Key (AIzaSy...)"
-              className="w-full p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
-            />
-            <div className="flex justify-end space-x-3 pt-2">
-              <a 
-                href="https://aistudio.google.com/app/apikey" 
-                target="_blank" 
-                rel="noreferrer"
-                className="px-4 py-2 text-sm text-indigo-600 hover:bg-indigo-50 rounded-lg flex items-center"
-              >
-                取得 Key
-              </a>
-              <button
-                onClick={handleSaveApiKey}
-                disabled={!apiKeyInput.trim()}
-                className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 font-medium shadow-sm transition-colors"
-              >
-                開始使用
-              </button>
-            </div>
-          </div>
-        </div>
+      {/* AI Settings Modal */}
+      {showSettingsModal && (
+        <SettingsModal
+          dismissible={isLlmConfigured()}
+          onClose={() => setShowSettingsModal(false)}
+          onSaved={handleSettingsSaved}
+        />
+      )}
+
+      {showImportWizard && (
+        <BrokerImportWizard
+          transactions={transactions}
+          dividends={dividends}
+          accounts={accounts}
+          activeAccountId={activeAccountId}
+          prices={latestPrices}
+          onImported={handleImported}
+          onClose={() => setShowImportWizard(false)}
+        />
+      )}
+
+      {showBackupModal && (
+        <DataBackupModal
+          onClose={() => setShowBackupModal(false)}
+          onRestored={handleDataRestored}
+        />
       )}
 
       {/* Header */}
@@ -299,12 +529,13 @@ const App: React.FC = () => {
               </div>
             </div>
             <div className="flex items-center space-x-2">
+              <AlertInbox inbox={alertInbox} onInboxChange={setAlertInbox} />
               <button 
-                onClick={clearApiKey}
+                onClick={() => setShowSettingsModal(true)}
                 className="p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100"
-                title="重設 API Key"
+                title="AI 模型與 API Key 設定"
               >
-                <KeyRound className="w-4 h-4" />
+                <Settings className="w-4 h-4" />
               </button>
               <span className="hidden md:inline text-xs text-slate-500 bg-slate-100 border border-slate-200 rounded-full px-3 py-1 font-medium">
                 Professional Edition
@@ -357,18 +588,37 @@ const App: React.FC = () => {
                   <Zap className="w-6 h-6 mr-2 text-yellow-500" /> 
                   本日市場熱點
                 </h2>
-                <button 
-                  onClick={handleFetchTrends}
-                  disabled={trendLoading}
-                  className="text-sm text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50"
-                >
-                  {trendLoading ? '更新中...' : '刷新資訊'}
-                </button>
+                <div className="flex items-center space-x-3">
+                  <button 
+                    onClick={() => handleFetchTrends()}
+                    disabled={trendLoading}
+                    className="text-sm text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50"
+                  >
+                    {trendLoading ? '更新中...' : '刷新資訊'}
+                  </button>
+                  <button 
+                    onClick={() => handleFetchTrends(true)}
+                    disabled={trendLoading}
+                    className="p-1 text-slate-400 hover:text-indigo-600 rounded disabled:opacity-50"
+                    title="忽略快取，強制重新查詢"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                  </button>
+                </div>
               </div>
+              <TradingCalendarStatus />
               <StockTable 
                 stocks={trendStocks} 
                 loading={trendLoading} 
               />
+              {!trendLoading && trendErrors.length > 0 && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 space-y-1">
+                  <div className="font-medium">以下資料未通過格式檢查，已略過：</div>
+                  {trendErrors.map(e => (
+                    <div key={e.symbol}><span className="font-mono font-bold">{e.symbol}</span>：{e.message}</div>
+                  ))}
+                </div>
+              )}
             </section>
 
             {/* 2. My Portfolio Section */}
@@ -386,19 +636,32 @@ const App: React.FC = () => {
               </div>
               
               <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+                <AccountSwitcher
+                  accounts={accounts}
+                  activeAccountId={activeAccountId}
+                  onSelect={handleSelectAccount}
+                  onAccountsChange={handleAccountsChange}
+                  transactionCounts={transactionCounts}
+                />
+
                 <div className="flex flex-col md:flex-row gap-4 mb-6">
                   <div className="flex-grow">
                     <label className="block text-sm font-medium text-slate-700 mb-1">
-                      輸入股票代號 (逗號分隔)
+                      輸入股票代號或名稱 (逗號分隔)
                     </label>
-                    <div className="flex gap-2">
-                       <input
-                        type="text"
+                    <div className="flex gap-2 items-start">
+                      <select
+                        value={inputCurrency}
+                        onChange={(e) => setInputCurrency(e.target.value as Currency)}
+                        className="p-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                        title="台股以證券清單驗證；海外股票請選擇計價幣別後輸入代號 (例: AAPL, VOO)"
+                      >
+                        {CURRENCIES.map(c => <option key={c} value={c}>{c === 'TWD' ? '台股' : `${c} ${CURRENCY_LABELS[c]}`}</option>)}
+                      </select>
+                      <SymbolInput
                         value={inputSymbol}
-                        onChange={(e) => setInputSymbol(e.target.value)}
-                        onKeyDown={(e) => e.key === 'Enter' && handleAddSymbol()}
-                        placeholder="例如: 2330, 0050, 2834, 3042"
-                        className="flex-grow p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none uppercase"
+                        onChange={setInputSymbol}
+                        onSubmit={handleAddSymbol}
                       />
                       <button 
                         onClick={handleAddSymbol}
@@ -408,6 +671,9 @@ const App: React.FC = () => {
                         <Plus className="w-4 h-4 mr-1" /> 加入
                       </button>
                     </div>
+                    {symbolInputError && (
+                      <p className="mt-1 text-xs text-rose-600">{symbolInputError}</p>
+                    )}
                   </div>
                   <div className="flex items-end gap-2">
                     <button 
@@ -418,9 +684,27 @@ const App: React.FC = () => {
                       <Save className="w-4 h-4 mr-2" />
                       儲存設定
                     </button>
+
+                    <button 
+                      onClick={() => setShowBackupModal(true)}
+                      className="w-full md:w-auto px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 font-medium shadow-sm transition-colors flex items-center justify-center h-[42px]"
+                      title="匯出持股、分析與退休規劃，或從備份還原"
+                    >
+                      <Archive className="w-4 h-4 mr-2" />
+                      匯出/還原
+                    </button>
                     
                     <button 
-                      onClick={handleAnalyzePortfolio}
+                      onClick={() => handleAnalyzePortfolio(true)}
+                      disabled={portfolioLoading || mySymbols.length === 0}
+                      className="px-3 py-2 bg-white border border-slate-300 text-slate-500 rounded-lg hover:bg-slate-50 hover:text-indigo-600 shadow-sm transition-colors flex items-center justify-center h-[42px] disabled:opacity-50"
+                      title="忽略快取，強制重新分析全部代碼"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </button>
+
+                    <button 
+                      onClick={() => handleAnalyzePortfolio()}
                       disabled={portfolioLoading || mySymbols.length === 0}
                       className={`w-full md:w-auto px-6 py-2 text-white rounded-lg font-medium shadow-sm transition-all flex items-center justify-center h-[42px] ${
                         hasPendingSymbols 
@@ -443,28 +727,74 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
+                <label className="mb-2 flex items-center gap-2 text-xs text-slate-600 w-fit cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={autoRequery}
+                    onChange={(e) => {
+                      setAutoRequery(e.target.checked);
+                      localStorage.setItem('finance_auto_requery', String(e.target.checked));
+                    }}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  AI 數據異常 (名稱不符、價格超出區間等) 時自動重新查詢
+                </label>
+
+                <MarketDataSettings />
+
+                <TradingCostSettings settings={feeSettings} onChange={setFeeSettings} />
+
+                <CurrencySettings
+                  baseCurrency={baseCurrency}
+                  onBaseCurrencyChange={setBaseCurrency}
+                  rates={fxRates}
+                  onRatesChange={setFxRates}
+                  currencies={foreignCurrencies}
+                />
+
                 {mySymbols.length > 0 && (
                   <div className="mb-6 flex flex-wrap gap-2 p-4 bg-slate-50 rounded-lg border border-slate-100">
                     <div className="w-full text-xs text-slate-400 mb-2">已儲存的觀察名單 (點擊右上角「開始分析」取得報價)：</div>
                     {mySymbols.map(symbol => {
-                       const isAnalyzed = portfolioStocks.some(s => s.symbol === symbol);
+                       const isAnalyzed = visibleStocks.some(s => s.symbol === symbol);
+                       const status = symbolStatus[symbol];
+                       let chipClass = isAnalyzed ? 'bg-white text-slate-800 border-slate-200' : 'bg-amber-50 text-amber-800 border-amber-200';
+                       if (status?.state === 'FAILED') chipClass = 'bg-rose-50 text-rose-800 border-rose-200';
+                       if (status?.state === 'PENDING' || status?.state === 'RETRYING') chipClass = 'bg-amber-50 text-amber-800 border-amber-200 animate-pulse';
                        return (
-                        <span key={symbol} className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border ${isAnalyzed ? 'bg-white text-slate-800 border-slate-200' : 'bg-amber-50 text-amber-800 border-amber-200'}`}>
+                        <span key={symbol} title={status?.message} className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border ${chipClass}`}>
+                          {(status?.state === 'PENDING' || status?.state === 'RETRYING') && (
+                            <RefreshCw className="w-3 h-3 mr-1 animate-spin" />
+                          )}
                           {symbol}
-                          <button 
-                            onClick={() => handleRemoveSymbol(symbol)}
-                            className="ml-2 text-slate-400 hover:text-rose-500 focus:outline-none"
-                            title="移除"
-                          >
-                            <X className="w-3 h-3" />
-                          </button>
+                          {status?.state === 'RETRYING' && <span className="ml-1 text-[10px]">重試中</span>}
+                          {status?.state === 'FAILED' && <span className="ml-1 text-[10px]">失敗</span>}
+                          {!status && !isAnalyzed && <span className="ml-1 text-[10px]">未更新</span>}
+                          {!isConsolidated && (
+                            <button 
+                              onClick={() => handleRemoveSymbol(symbol)}
+                              className="ml-2 text-slate-400 hover:text-rose-500 focus:outline-none"
+                              title="移除"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          )}
                         </span>
                       );
                     })}
                   </div>
                 )}
+
+                {failedSymbols.length > 0 && !portfolioLoading && (
+                  <div className="mb-6 p-3 bg-rose-50 border border-rose-200 rounded-lg text-xs text-rose-700 space-y-1">
+                    <div className="font-medium">以下代碼分析失敗 (保留上次的分析結果)：</div>
+                    {failedSymbols.map(symbol => (
+                      <div key={symbol}><span className="font-mono font-bold">{symbol}</span>：{symbolStatus[symbol]?.message || '未知錯誤'}</div>
+                    ))}
+                  </div>
+                )}
                 
-                {portfolioStocks.length === 0 && mySymbols.length > 0 && !portfolioLoading && (
+                {visibleStocks.length === 0 && mySymbols.length > 0 && !portfolioLoading && (
                   <div className="text-center py-10 bg-slate-50 rounded-lg border border-dashed border-slate-300">
                      <div className="mx-auto w-12 h-12 bg-white rounded-full flex items-center justify-center shadow-sm mb-3">
                         <TrendingUp className="w-6 h-6 text-indigo-500" />
@@ -472,7 +802,7 @@ const App: React.FC = () => {
                      <h3 className="text-slate-900 font-medium">已讀取到您的觀察名單</h3>
                      <p className="text-slate-500 text-sm mt-1 mb-4">點擊上方的「開始分析」或「更新所有報價」來獲取最新股價與 AI 建議。</p>
                      <button 
-                       onClick={handleAnalyzePortfolio}
+                       onClick={() => handleAnalyzePortfolio()}
                        className="text-sm text-indigo-600 font-medium hover:text-indigo-800 underline"
                      >
                        立即更新
@@ -480,17 +810,88 @@ const App: React.FC = () => {
                   </div>
                 )}
 
-                {(portfolioStocks.length > 0 || portfolioLoading) && (
+                {(visibleStocks.length > 0 || portfolioLoading) && (
                   <StockTable 
-                    stocks={portfolioStocks} 
-                    loading={portfolioLoading}
+                    stocks={visibleStocks} 
+                    loading={portfolioLoading && visibleStocks.length === 0}
                     showSummary={false}
-                    quantities={stockQuantities}
-                    onQuantityChange={handleQuantityChange}
+                    positions={positions}
+                    feeSettings={feeSettings}
+                    baseCurrency={baseCurrency}
+                    basePositions={basePositions}
+                    fxRates={todayRates}
+                    symbolCurrencies={symbolCurrencies}
                   />
                 )}
               </div>
             </section>
+
+            <section>
+              <PerformancePanel
+                valuations={valuations}
+                onValuationsChange={setValuations}
+                transactions={scopedTransactions}
+                dividends={dividends}
+                scope={activeAccountId}
+                baseCurrency={baseCurrency}
+                symbolCurrencies={symbolCurrencies}
+                fxRates={fxRates}
+              />
+            </section>
+
+            <section>
+              <AllocationDashboard positions={positions} prices={basePrices} />
+            </section>
+
+            <section>
+              <RebalancePlanner
+                // The savings default is converted once, so a new base currency starts the planner over
+                key={baseCurrency}
+                positions={positions}
+                prices={basePrices}
+                feeSettings={feeSettings}
+                baseCurrency={baseCurrency}
+                symbolCurrencies={symbolCurrencies}
+                fxRates={todayRates}
+              />
+            </section>
+
+            <section>
+              <TransactionLedger
+                transactions={transactions}
+                onTransactionsChange={setTransactions}
+                accounts={accounts}
+                activeAccountId={activeAccountId}
+                dividends={dividends}
+                symbols={mySymbols}
+                positions={basePositions}
+                prices={basePrices}
+                baseCurrency={baseCurrency}
+                symbolCurrencies={symbolCurrencies}
+                costMethod={costMethod}
+                onCostMethodChange={handleCostMethodChange}
+                onImportClick={() => setShowImportWizard(true)}
+              />
+            </section>
+
+            <section>
+              <DividendTracker
+                events={dividends}
+                onEventsChange={setDividends}
+                transactions={scopedTransactions}
+                positions={positions}
+                symbols={mySymbols}
+              />
+            </section>
+
+            <section>
+              <AlertsPanel
+                rules={alertRules}
+                onRulesChange={setAlertRules}
+                stocks={portfolioStocks}
+                symbols={mySymbols}
+              />
+            </section>
           </div>
         )}
 
@@ -498,8 +899,13 @@ const App: React.FC = () => {
           <div className="animate-fadeIn">
             <RetirementCalc 
               portfolioStocks={portfolioStocks}
-              stockQuantities={stockQuantities}
-              onQuantityChange={handleQuantityChange}
+              stockQuantities={retirementQuantities}
+              feeSettings={feeSettings}
+              accounts={accounts}
+              onAccountsChange={handleAccountsChange}
+              baseCurrency={baseCurrency}
+              fxRates={todayRates}
+              symbolCurrencies={symbolCurrencies}
             />
           </div>
         )}
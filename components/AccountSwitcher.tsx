@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Account } from '../types';
+import { Users, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+import { ALL_ACCOUNTS, DEFAULT_ACCOUNT_ID, newAccountId, describeAccount } from '../services/accounts';
+
+interface AccountSwitcherProps {
+  accounts: Account[];
+  activeAccountId: string;
+  onSelect: (id: string) => void;
+  onAccountsChange: (accounts: Account[]) => void;
+  // Accounts that still have transactions cannot be deleted
+  transactionCounts: Record<string, number>;
+}
+
+const emptyForm = { name: '', owner: '', broker: '' };
+
+const AccountSwitcher: React.FC<AccountSwitcherProps> = ({
+  accounts,
+  activeAccountId,
+  onSelect,
+  onAccountsChange,
+  transactionCounts,
+}) => {
+  // null = closed, '' = adding a new account, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const activeAccount = accounts.find(a => a.id === activeAccountId);
+
+  const openEditor = (account?: Account) => {
+    setEditingId(account ? account.id : '');
+    setForm(account ? { name: account.name, owner: account.owner || '', broker: account.broker || '' } : emptyForm);
+  };
+
+  const handleSave = () => {
+    const name = form.name.trim();
+    if (!name) return;
+    const fields = {
+      name,
+      ...(form.owner.trim() ? { owner: form.owner.trim() } : {}),
+      ...(form.broker.trim() ? { broker: form.broker.trim() } : {}),
+    };
+    if (editingId) {
+      onAccountsChange(accounts.map(a => (a.id === editingId ? { id: a.id, includeInRetirement: a.includeInRetirement, ...fields } : a)));
+    } else {
+      const account: Account = { id: newAccountId(), includeInRetirement: true, ...fields };
+      onAccountsChange([...accounts, account]);
+      onSelect(account.id);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (account: Account) => {
+    if (transactionCounts[account.id]) {
+      alert(`「${account.name}」仍有 ${transactionCounts[account.id]} 筆交易紀錄，請先刪除或移轉後再刪除帳戶。`);
+      return;
+    }
+    if (confirm(`確定要刪除帳戶「${account.name}」嗎？`)) {
+      onAccountsChange(accounts.filter(a => a.id !== account.id));
+      onSelect(DEFAULT_ACCOUNT_ID);
+    }
+  };
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+      active ? 'bg-indigo-600 text-white shadow-sm' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+    }`;
+  const inputClass = "p-1.5 border border-slate-300 rounded-md text-sm focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="mb-6 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Users className="w-4 h-4 text-slate-400" />
+        {accounts.map(account => (
+          <button
+            key={account.id}
+            onClick={() => onSelect(account.id)}
+            className={tabClass(account.id === activeAccountId)}
+            title={describeAccount(account)}
+          >
+            {account.name}
+          </button>
+        ))}
+        {accounts.length > 1 && (
+          <button onClick={() => onSelect(ALL_ACCOUNTS)} className={tabClass(activeAccountId === ALL_ACCOUNTS)}>
+            全部帳戶 (合併)
+          </button>
+        )}
+        <button
+          onClick={() => openEditor()}
+          className="p-1.5 text-slate-400 hover:text-indigo-600 rounded-full hover:bg-slate-100"
+          title="新增帳戶"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+        {activeAccount && (
+          <>
+            <button
+              onClick={() => openEditor(activeAccount)}
+              className="p-1.5 text-slate-400 hover:text-indigo-600 rounded-full hover:bg-slate-100"
+              title="編輯目前帳戶"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            {activeAccount.id !== DEFAULT_ACCOUNT_ID && (
+              <button
+                onClick={() => handleDelete(activeAccount)}
+                className="p-1.5 text-slate-400 hover:text-rose-600 rounded-full hover:bg-slate-100"
+                title="刪除目前帳戶"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {editingId !== null && (
+        <div className="flex flex-wrap items-center gap-2 p-3 bg-slate-50 rounded-lg border border-slate-200">
+          <input
+            type="text"
+            placeholder="帳戶名稱 (必填)"
+            value={form.name}
+            onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            placeholder="持有人 (例: 配偶)"
+            value={form.owner}
+            onChange={(e) => setForm(prev => ({ ...prev, owner: e.target.value }))}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            placeholder="券商 (例: 元大)"
+            value={form.broker}
+            onChange={(e) => setForm(prev => ({ ...prev, broker: e.target.value }))}
+            className={inputClass}
+          />
+          <button
+            onClick={handleSave}
+            disabled={!form.name.trim()}
+            className="p-1.5 text-emerald-600 hover:bg-emerald-50 rounded disabled:opacity-50"
+            title="儲存"
+          >
+            <Check className="w-4 h-4" />
+          </button>
+          <button onClick={() => setEditingId(null)} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded" title="取消">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountSwitcher;
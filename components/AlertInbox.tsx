@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { AlertEvent } from '../types';
+import { Bell } from 'lucide-react';
+import { saveAlertInbox } from '../services/alerts';
+
+interface AlertInboxProps {
+  inbox: AlertEvent[];
+  onInboxChange: (inbox: AlertEvent[]) => void;
+}
+
+const AlertInbox: React.FC<AlertInboxProps> = ({ inbox, onInboxChange }) => {
+  const [open, setOpen] = useState(false);
+  const unread = inbox.filter(e => !e.read).length;
+
+  const update = (updated: AlertEvent[]) => {
+    saveAlertInbox(updated);
+    onInboxChange(updated);
+  };
+
+  const handleToggle = () => {
+    // Opening the inbox counts as reading it
+    if (!open && unread > 0) update(inbox.map(e => (e.read ? e : { ...e, read: true })));
+    setOpen(!open);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleToggle}
+        className="relative p-2 text-slate-400 hover:text-slate-600 rounded-full hover:bg-slate-100"
+        title="價格提醒收件匣"
+      >
+        <Bell className="w-4 h-4" />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-rose-500 text-white text-[10px] leading-4 text-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-xl border border-slate-200 z-20 animate-fadeIn">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-slate-100">
+            <span className="text-sm font-bold text-slate-700">價格提醒</span>
+            {inbox.length > 0 && (
+              <button onClick={() => update([])} className="text-xs text-slate-400 hover:text-rose-600">
+                全部清除
+              </button>
+            )}
+          </div>
+          {inbox.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-slate-400 text-center">目前沒有提醒</p>
+          ) : (
+            <div className="max-h-80 overflow-y-auto divide-y divide-slate-100">
+              {inbox.map(event => (
+                <div key={event.id} className="px-4 py-2">
+                  <div className="text-sm text-slate-700">{event.message}</div>
+                  <div className="text-[10px] text-slate-400 mt-0.5">{new Date(event.triggeredAt).toLocaleString()}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertInbox;
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { AlertCondition, AlertLevelSource, AlertRule, StockAnalysis } from '../types';
+import { BellRing, Plus, Trash2, Send } from 'lucide-react';
+import {
+  addAlertRule,
+  updateAlertRule,
+  removeAlertRule,
+  newAlertRule,
+  describeAlertRule,
+  isPriceCondition,
+  getWebhookUrl,
+  setWebhookUrl,
+  testWebhook,
+  notificationsSupported,
+  requestNotificationPermission,
+  ALERT_CONDITION_LABELS,
+  ALERT_LEVEL_SOURCE_LABELS,
+} from '../services/alerts';
+
+interface AlertsPanelProps {
+  rules: AlertRule[];
+  onRulesChange: (rules: AlertRule[]) => void;
+  // Latest analyses, for showing the AI-suggested levels
+  stocks: StockAnalysis[];
+  symbols: string[];
+}
+
+const emptyForm = {
+  symbol: '',
+  condition: 'PRICE_BELOW' as AlertCondition,
+  levelSource: 'SUGGEST_BUY' as AlertLevelSource,
+  level: '',
+};
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ rules, onRulesChange, stocks, symbols }) => {
+  const [form, setForm] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [webhookUrl, setWebhookUrlInput] = useState(getWebhookUrl);
+  const [webhookStatus, setWebhookStatus] = useState<string | null>(null);
+  const [permission, setPermission] = useState(() => (notificationsSupported() ? Notification.permission : null));
+
+  const stockOf = (symbol: string) => stocks.find(s => s.symbol === symbol);
+  const priceRule = isPriceCondition(form.condition);
+  const needsLevel = form.condition === 'PERCENT_MOVE' || (priceRule && form.levelSource === 'FIXED');
+
+  const handleConditionChange = (condition: AlertCondition) => {
+    // Buy targets are alerts on the way down, sell targets on the way up
+    const levelSource: AlertLevelSource = condition === 'PRICE_ABOVE' ? 'SUGGEST_SELL' : condition === 'PRICE_BELOW' ? 'SUGGEST_BUY' : 'FIXED';
+    setForm(prev => ({ ...prev, condition, levelSource }));
+  };
+
+  const handleAdd = () => {
+    setFormError(null);
+    const rule = newAlertRule({
+      symbol: form.symbol,
+      condition: form.condition,
+      levelSource: priceRule ? form.levelSource : 'FIXED',
+      ...(needsLevel ? { level: Number(form.level) } : {}),
+    });
+    try {
+      onRulesChange(addAlertRule(rules, rule));
+      setForm(prev => ({ ...emptyForm, symbol: prev.symbol }));
+    } catch (e) {
+      setFormError(e instanceof Error ? e.message : '無法新增提醒');
+    }
+  };
+
+  const handleTestWebhook = async () => {
+    setWebhookUrl(webhookUrl);
+    setWebhookStatus('傳送中...');
+    try {
+      await testWebhook(webhookUrl.trim());
+      setWebhookStatus('測試成功');
+    } catch (e) {
+      setWebhookStatus(e instanceof Error ? `測試失敗：${e.message}` : '測試失敗');
+    }
+  };
+
+  const handleEnableNotifications = async () => {
+    setPermission(await requestNotificationPermission());
+  };
+
+  const inputClass = "p-2 border border-slate-300 rounded-md text-sm focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-5">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center">
+          <BellRing className="w-5 h-5 mr-2 text-indigo-600" /> 價格提醒
+        </h3>
+        {permission !== null && permission !== 'granted' && (
+          <button
+            onClick={handleEnableNotifications}
+            disabled={permission === 'denied'}
+            className="px-2 py-1.5 bg-slate-100 rounded-md hover:bg-slate-200 text-xs text-slate-600 disabled:opacity-50"
+            title={permission === 'denied' ? '瀏覽器已封鎖通知，請在網站設定中開啟' : undefined}
+          >
+            {permission === 'denied' ? '瀏覽器通知已封鎖' : '啟用瀏覽器通知'}
+          </button>
+        )}
+      </div>
+
+      {/* New rule */}
+      <div className="flex flex-wrap items-end gap-2">
+        <select
+          value={form.symbol}
+          onChange={(e) => setForm(prev => ({ ...prev, symbol: e.target.value }))}
+          className={inputClass}
+        >
+          <option value="">選擇代碼</option>
+          {symbols.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select
+          value={form.condition}
+          onChange={(e) => handleConditionChange(e.target.value as AlertCondition)}
+          className={inputClass}
+        >
+          {(Object.keys(ALERT_CONDITION_LABELS) as AlertCondition[]).map(c => (
+            <option key={c} value={c}>{ALERT_CONDITION_LABELS[c]}</option>
+          ))}
+        </select>
+        {priceRule && (
+          <select
+            value={form.levelSource}
+            onChange={(e) => setForm(prev => ({ ...prev, levelSource: e.target.value as AlertLevelSource }))}
+            className={inputClass}
+            title="AI 建議價會隨每次分析更新"
+          >
+            {(Object.keys(ALERT_LEVEL_SOURCE_LABELS) as AlertLevelSource[]).map(s => (
+              <option key={s} value={s}>{ALERT_LEVEL_SOURCE_LABELS[s]}</option>
+            ))}
+          </select>
+        )}
+        {needsLevel && (
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder={form.condition === 'PERCENT_MOVE' ? '漲跌幅 (%)' : '價格'}
+            value={form.level}
+            onChange={(e) => setForm(prev => ({ ...prev, level: e.target.value }))}
+            className={`${inputClass} w-28 font-mono`}
+          />
+        )}
+        <button
+          onClick={handleAdd}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-medium text-sm flex items-center"
+        >
+          <Plus className="w-4 h-4 mr-1" /> 新增提醒
+        </button>
+      </div>
+      {formError && <p className="text-xs text-rose-600">{formError}</p>}
+
+      {/* Rules */}
+      {rules.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">尚未設定提醒。每次更新報價時會自動檢查提醒條件。</p>
+      ) : (
+        <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+          {rules.map(rule => (
+            <div key={rule.id} className="flex items-center justify-between px-4 py-2 text-sm">
+              <label className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => onRulesChange(updateAlertRule(rules, rule.id, { enabled: e.target.checked, armed: true }))}
+                  className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className={`font-bold ${rule.enabled ? 'text-slate-800' : 'text-slate-400'}`}>{rule.symbol}</span>
+                <span className={rule.enabled ? 'text-slate-600' : 'text-slate-400'}>{describeAlertRule(rule, stockOf(rule.symbol))}</span>
+                {rule.enabled && !rule.armed && (
+                  <span className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 text-[10px]" title="條件解除後會再次啟動">已觸發</span>
+                )}
+              </label>
+              <button
+                onClick={() => onRulesChange(removeAlertRule(rules, rule.id))}
+                className="text-slate-400 hover:text-rose-600"
+                title="刪除提醒"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Webhook */}
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+        <span className="font-medium">Webhook</span>
+        <input
+          type="text"
+          placeholder="http://localhost:8787/webhook (選填)"
+          value={webhookUrl}
+          onChange={(e) => setWebhookUrlInput(e.target.value)}
+          onBlur={() => setWebhookUrl(webhookUrl)}
+          className="p-1.5 border border-slate-300 rounded-md text-xs font-mono w-72 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+        <button
+          onClick={handleTestWebhook}
+          disabled={!webhookUrl.trim()}
+          className="px-2 py-1.5 bg-slate-100 rounded-md hover:bg-slate-200 flex items-center disabled:opacity-50"
+        >
+          <Send className="w-3 h-3 mr-1" /> 測試
+        </button>
+        {webhookStatus && <span className="text-slate-500">{webhookStatus}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default AlertsPanel;
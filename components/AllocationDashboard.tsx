@@ -0,0 +1,189 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { AllocationSlice, EtfHoldings, Position } from '../types';
+import { PieChart as PieIcon, AlertTriangle, Upload } from 'lucide-react';
+import {
+  computeAllocation,
+  describeWarning,
+  getEtfConstituents,
+  parseConstituentsCsv,
+  saveImportedConstituents,
+  POSITION_LIMIT,
+} from '../services/allocation';
+
+interface AllocationDashboardProps {
+  positions: Record<string, Position>;
+  prices: Record<string, number>;
+}
+
+const COLORS = ['#4f46e5', '#0ea5e9', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#84cc16', '#64748b'];
+// Slices beyond this are folded into 其他 so the pies stay readable
+const MAX_SLICES = 8;
+
+const formatPercent = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+const foldSlices = (slices: AllocationSlice[]): AllocationSlice[] => {
+  if (slices.length <= MAX_SLICES) return slices;
+  const rest = slices.slice(MAX_SLICES - 1);
+  return [
+    ...slices.slice(0, MAX_SLICES - 1),
+    {
+      key: 'OTHER',
+      label: '其他',
+      value: rest.reduce((sum, s) => sum + s.value, 0),
+      weight: rest.reduce((sum, s) => sum + s.weight, 0),
+    },
+  ];
+};
+
+const AllocationPie: React.FC<{ title: string; slices: AllocationSlice[] }> = ({ title, slices }) => {
+  const data = foldSlices(slices);
+  return (
+    <div className="bg-slate-50 rounded-lg border border-slate-100 p-3">
+      <h4 className="text-sm font-semibold text-slate-600 mb-1">{title}</h4>
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <PieChart>
+            <Pie data={data} dataKey="value" nameKey="label" innerRadius={35} outerRadius={60} isAnimationActive={false}>
+              {data.map((s, i) => <Cell key={s.key} fill={COLORS[i % COLORS.length]} />)}
+            </Pie>
+            <Tooltip formatter={(value: number, name: string) => [`$${Math.round(value).toLocaleString()}`, name]} />
+          </PieChart>
+        </ResponsiveContainer>
+      </div>
+      <ul className="space-y-0.5 text-xs">
+        {data.map((s, i) => (
+          <li key={s.key} className="flex justify-between gap-2">
+            <span className="flex items-center text-slate-600 truncate">
+              <span className="inline-block w-2 h-2 rounded-full mr-1.5 shrink-0" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+              {s.label}
+            </span>
+            <span className="font-mono text-slate-700">{formatPercent(s.weight)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const AllocationDashboard: React.FC<AllocationDashboardProps> = ({ positions, prices }) => {
+  const [lookThrough, setLookThrough] = useState(true);
+  const [constituents, setConstituents] = useState<Record<string, EtfHoldings>>(getEtfConstituents);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const allocation = useMemo(
+    () => computeAllocation(positions, prices, lookThrough, constituents),
+    [positions, prices, lookThrough, constituents]
+  );
+  const heldEtfs = Object.values(positions).filter(p => p.quantity > 0 && constituents[p.symbol]).map(p => constituents[p.symbol]);
+
+  const handleImport = async (file: File) => {
+    setImportMessage(null);
+    try {
+      const imported = parseConstituentsCsv(await file.text());
+      saveImportedConstituents(imported);
+      setConstituents(getEtfConstituents());
+      setImportMessage(`已匯入 ${imported.map(h => h.etf).join('、')} 的成分股`);
+    } catch (e) {
+      setImportMessage(e instanceof Error ? e.message : '成分股匯入失敗');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const topPositions = allocation.byPosition.slice(0, 10);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-5">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center">
+          <PieIcon className="w-5 h-5 mr-2 text-indigo-600" /> 資產配置
+        </h3>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+          <label className="flex items-center gap-1.5" title="把 ETF 拆成成分股計算個股與產業曝險">
+            <input
+              type="checkbox"
+              checked={lookThrough}
+              onChange={(e) => setLookThrough(e.target.checked)}
+              className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            穿透 ETF 成分股
+          </label>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-2 py-1.5 bg-slate-100 rounded-md hover:bg-slate-200 flex items-center"
+            title="欄位：ETF代號、成分股代號、權重 (%)、日期 (選填)"
+          >
+            <Upload className="w-3 h-3 mr-1" /> 匯入成分股 CSV
+          </button>
+        </div>
+      </div>
+      {importMessage && <p className="text-xs text-slate-500">{importMessage}</p>}
+
+      {allocation.total <= 0 ? (
+        <p className="text-sm text-slate-400 italic">
+          {allocation.unpriced.length > 0 ? '持股尚未分析，取得報價後即可顯示資產配置。' : '目前沒有持股。'}
+        </p>
+      ) : (
+        <>
+          {allocation.warnings.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1">
+              {allocation.warnings.map(w => (
+                <div key={`${w.kind}-${w.key}`} className="flex items-center text-sm text-amber-800">
+                  <AlertTriangle className="w-4 h-4 mr-1.5 shrink-0" /> {describeWarning(w)}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <AllocationPie title={lookThrough ? '產業 (穿透後)' : '產業'} slices={allocation.byIndustry} />
+            <AllocationPie title="上市 / 上櫃" slices={allocation.byMarket} />
+            <AllocationPie title="商品類型" slices={allocation.byType} />
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-600 mb-1">
+              個股權重{lookThrough ? ' (含 ETF 穿透)' : ''}・前 {topPositions.length} 大
+            </h4>
+            <div style={{ height: Math.max(topPositions.length * 28, 80) }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={topPositions} layout="vertical" margin={{ left: 8, right: 24 }}>
+                  <XAxis type="number" domain={[0, (max: number) => Math.max(max, POSITION_LIMIT * 1.1)]} tickFormatter={formatPercent} tick={{ fontSize: 10 }} />
+                  <YAxis type="category" dataKey="label" width={140} tick={{ fontSize: 11 }} />
+                  <Tooltip formatter={(value: number) => [formatPercent(value), '權重']} />
+                  <ReferenceLine x={POSITION_LIMIT} stroke="#f59e0b" strokeDasharray="3 3" />
+                  <Bar dataKey="weight" isAnimationActive={false}>
+                    {topPositions.map(s => (
+                      <Cell key={s.key} fill={allocation.warnings.some(w => w.kind === 'POSITION' && w.key === s.key) ? '#f59e0b' : '#6366f1'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="text-xs text-slate-400 space-y-0.5">
+            <p>以已分析持股的市值計算，總計 ${Math.round(allocation.total).toLocaleString()}。</p>
+            {allocation.unpriced.length > 0 && <p>尚無報價未計入：{allocation.unpriced.join('、')}</p>}
+            {lookThrough && heldEtfs.length > 0 && (
+              <p>
+                成分股資料：{heldEtfs.map(h => `${h.etf} (${h.asOf})`).join('、')}；未列出的成分以「其他成分」保留在 ETF 本身。
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AllocationDashboard;
@@ -1,61 +1,252 @@
-import React from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
-import { StockAnalysis } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell } from 'recharts';
+import { ChartOverlay, ChartPanel, ChartRange, ChartStyle, DailyBar, IndicatorPoint, StockAnalysis } from '../types';
+import { loadPriceHistory } from '../services/marketDataService';
+import { computeIndicators, INDICATOR_LOOKBACK_DAYS } from '../services/indicators';
+import { addDays, taipeiDate } from '../services/tradingCalendar';
 
 interface AnalysisChartProps {
   data: StockAnalysis;
 }
 
+const RANGE_DAYS: Record<ChartRange, number> = {
+  '1M': 31,
+  '3M': 92,
+  '1Y': 366,
+  '5Y': 5 * 366,
+};
+
+const STYLE_LABELS: Record<ChartStyle, string> = {
+  CANDLE: 'K 線',
+  LINE: '折線',
+};
+
+const OVERLAY_LABELS: Record<ChartOverlay, string> = {
+  MA: '均線',
+  BOLLINGER: '布林',
+};
+
+const PANEL_LABELS: Record<ChartPanel, string> = {
+  VOLUME: '成交量',
+  RSI: 'RSI',
+  MACD: 'MACD',
+  KD: 'KD',
+};
+
+const MA_COLORS = { ma5: '#f59e0b', ma20: '#8b5cf6', ma60: '#0ea5e9' };
+
+// Up is red and down is green, following the Taiwan market convention
+const UP_COLOR = '#e11d48';
+const DOWN_COLOR = '#059669';
+
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: DailyBar;
+}
+
+// Drawn over the high-low range bar: the wick spans the bar, the body covers open to close
+const Candle: React.FC<CandleShapeProps> = ({ x = 0, y = 0, width = 0, height = 0, payload }) => {
+  if (!payload) return null;
+  const { open, close, high, low } = payload;
+  const color = close >= open ? UP_COLOR : DOWN_COLOR;
+  const scale = high > low ? height / (high - low) : 0;
+  const bodyTop = y + (high - Math.max(open, close)) * scale;
+  const bodyHeight = Math.max(Math.abs(open - close) * scale, 1);
+  const center = x + width / 2;
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} />
+      <rect x={x + width * 0.15} y={bodyTop} width={Math.max(width * 0.7, 1)} height={bodyHeight} fill={color} />
+    </g>
+  );
+};
+
 const AnalysisChart: React.FC<AnalysisChartProps> = ({ data }) => {
-  // Simulate a curve based on high/low/current/buy/sell to visualize the "zone"
-  // Since we don't have historical data, we create a schematic representation
-  
-  const range = data.high52Week - data.low52Week;
-  const points = 20;
-  const chartData = Array.from({ length: points }, (_, i) => {
-    // Create a dummy trend that sits somewhere between low and high, ending at current
-    // This is purely schematic as requested ("示意圖")
-    const progress = i / (points - 1);
-    const wave = Math.sin(progress * Math.PI * 2) * (range * 0.2);
-    // Linear interpolation from some start point to current price
-    const estimatedValue = data.low52Week + (data.currentPrice - data.low52Week) * progress + wave;
-    
-    return {
-      name: `T-${points - i}`,
-      price: Math.max(data.low52Week, Math.min(data.high52Week, estimatedValue)),
-    };
-  });
-
-  // Ensure the last point is exactly current price
-  chartData[chartData.length - 1].price = data.currentPrice;
+  const [range, setRange] = useState<ChartRange>('3M');
+  const [style, setStyle] = useState<ChartStyle>('CANDLE');
+  const [overlays, setOverlays] = useState<ChartOverlay[]>(['MA']);
+  const [panel, setPanel] = useState<ChartPanel>('VOLUME');
+  const [bars, setBars] = useState<DailyBar[] | null>(null);
+
+  const from = addDays(taipeiDate(), -RANGE_DAYS[range]);
+  useEffect(() => {
+    let cancelled = false;
+    setBars(null);
+    // Bars before the range only warm up the indicators
+    loadPriceHistory(data.symbol, addDays(from, -INDICATOR_LOOKBACK_DAYS))
+      .then(history => { if (!cancelled) setBars(history); });
+    return () => { cancelled = true; };
+  }, [data.symbol, from]);
+
+  const chartData = useMemo(() => {
+    const all = bars || [];
+    const indicators = computeIndicators(all);
+    return all
+      .map((b, i) => ({ ...b, ...indicators[i], range: [b.low, b.high] } as DailyBar & IndicatorPoint & { range: number[] }))
+      .filter(b => b.date >= from);
+  }, [bars, from]);
+
+  const toggleOverlay = (overlay: ChartOverlay) =>
+    setOverlays(prev => (prev.includes(overlay) ? prev.filter(o => o !== overlay) : [...prev, overlay]));
+  const showMa = overlays.includes('MA');
+  const showBollinger = overlays.includes('BOLLINGER');
+
+  // Keep the reference lines on screen even when the price never reached them
+  const domain = useMemo(() => {
+    const levels = [data.suggestBuyPrice, data.suggestSellPrice, data.currentPrice].filter(v => v > 0);
+    const bands = showBollinger ? chartData.flatMap(b => [b.bollingerLower, b.bollingerUpper]).filter((v): v is number => v !== undefined) : [];
+    const low = Math.min(...chartData.map(b => b.low), ...levels, ...bands);
+    const high = Math.max(...chartData.map(b => b.high), ...levels, ...bands);
+    return [Math.floor(low * 0.97), Math.ceil(high * 1.03)];
+  }, [chartData, data, showBollinger]);
+
+  const toggleClass = (active: boolean) =>
+    `px-2 py-0.5 text-[11px] ${active ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`;
 
   return (
-    <div className="h-64 w-full bg-white rounded-lg p-4 border border-slate-100">
-      <h4 className="text-sm font-semibold text-slate-500 mb-2">價格區間示意圖 (Price Action Schematic)</h4>
-      <ResponsiveContainer width="100%" height="100%">
-        <AreaChart data={chartData}>
-          <defs>
-            <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.1}/>
-              <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
-            </linearGradient>
-          </defs>
-          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
-          <XAxis dataKey="name" hide />
-          <YAxis domain={[data.low52Week * 0.95, data.high52Week * 1.05]} hide />
-          <Tooltip 
-            contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-            formatter={(value: number) => [value.toFixed(2), 'Price']}
-          />
-          <ReferenceLine y={data.suggestBuyPrice} label="建議買入" stroke="#10b981" strokeDasharray="3 3" />
-          <ReferenceLine y={data.suggestSellPrice} label="建議賣出" stroke="#ef4444" strokeDasharray="3 3" />
-          <ReferenceLine y={data.currentPrice} label="現價" stroke="#3b82f6" />
-          <Area type="monotone" dataKey="price" stroke="#3b82f6" fillOpacity={1} fill="url(#colorPrice)" strokeWidth={2} />
-        </AreaChart>
-      </ResponsiveContainer>
+    <div className="h-[28rem] w-full bg-white rounded-lg p-4 border border-slate-100 flex flex-col">
+      <div className="flex flex-wrap items-center justify-between mb-2 gap-2">
+        <h4 className="text-sm font-semibold text-slate-500">價格走勢</h4>
+        <div className="flex flex-wrap gap-1">
+          <div className="flex rounded border border-slate-200 overflow-hidden">
+            {(Object.keys(STYLE_LABELS) as ChartStyle[]).map(s => (
+              <button key={s} onClick={() => setStyle(s)} className={toggleClass(style === s)}>{STYLE_LABELS[s]}</button>
+            ))}
+          </div>
+          <div className="flex rounded border border-slate-200 overflow-hidden">
+            {(Object.keys(RANGE_DAYS) as ChartRange[]).map(r => (
+              <button key={r} onClick={() => setRange(r)} className={toggleClass(range === r)}>{r}</button>
+            ))}
+          </div>
+          <div className="flex rounded border border-slate-200 overflow-hidden">
+            {(Object.keys(OVERLAY_LABELS) as ChartOverlay[]).map(o => (
+              <button key={o} onClick={() => toggleOverlay(o)} className={toggleClass(overlays.includes(o))}>{OVERLAY_LABELS[o]}</button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {bars === null ? (
+        <div className="flex-1 flex items-center justify-center text-xs text-slate-400">載入歷史價格...</div>
+      ) : chartData.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-xs text-slate-400 text-center px-4">
+          尚無 {data.symbol} 的歷史價格。使用證交所/櫃買報價會逐日累積，也可在報價來源匯入歷史 K 線 CSV 或使用模擬伺服器。
+        </div>
+      ) : (
+        <>
+        <div className="flex-1 min-h-0">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} barCategoryGap={1} syncId={`chart-${data.symbol}`}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="date" hide />
+              <YAxis yAxisId="price" domain={domain} tick={{ fontSize: 10 }} width={40} />
+              <Tooltip
+                contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)', fontSize: 12 }}
+                content={({ active, payload }) => {
+                  const bar = active && payload && payload[0] ? (payload[0].payload as DailyBar & IndicatorPoint) : null;
+                  if (!bar) return null;
+                  return (
+                    <div className="bg-white p-2 rounded-lg shadow text-xs font-mono text-slate-700">
+                      <div className="text-slate-500">{bar.date}</div>
+                      <div>開 {bar.open}　高 {bar.high}</div>
+                      <div>低 {bar.low}　收 {bar.close}</div>
+                      <div>量 {Math.round(bar.volume / 1000).toLocaleString()} 張</div>
+                      {showMa && bar.ma20 !== undefined && (
+                        <div>MA5 {bar.ma5?.toFixed(2)}　MA20 {bar.ma20.toFixed(2)}{bar.ma60 !== undefined && `　MA60 ${bar.ma60.toFixed(2)}`}</div>
+                      )}
+                      {panel === 'RSI' && bar.rsi !== undefined && <div>RSI14 {bar.rsi.toFixed(1)}</div>}
+                      {panel === 'MACD' && bar.macdDif !== undefined && (
+                        <div>DIF {bar.macdDif.toFixed(2)}　訊號 {bar.macdSignal?.toFixed(2)}</div>
+                      )}
+                      {panel === 'KD' && bar.k !== undefined && <div>K {bar.k.toFixed(1)}　D {bar.d?.toFixed(1)}</div>}
+                    </div>
+                  );
+                }}
+              />
+              {showBollinger && (
+                <>
+                  <Line yAxisId="price" dataKey="bollingerUpper" stroke="#94a3b8" strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                  <Line yAxisId="price" dataKey="bollingerMiddle" stroke="#cbd5e1" dot={false} isAnimationActive={false} />
+                  <Line yAxisId="price" dataKey="bollingerLower" stroke="#94a3b8" strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                </>
+              )}
+              {style === 'CANDLE' ? (
+                <Bar yAxisId="price" dataKey="range" shape={<Candle />} isAnimationActive={false} />
+              ) : (
+                <Line yAxisId="price" type="monotone" dataKey="close" stroke="#3b82f6" strokeWidth={2} dot={false} isAnimationActive={false} />
+              )}
+              <ReferenceLine yAxisId="price" y={data.suggestBuyPrice} label={{ value: '建議買入', fontSize: 10 }} stroke="#10b981" strokeDasharray="3 3" />
+              <ReferenceLine yAxisId="price" y={data.suggestSellPrice} label={{ value: '建議賣出', fontSize: 10 }} stroke="#ef4444" strokeDasharray="3 3" />
+              <ReferenceLine yAxisId="price" y={data.currentPrice} label={{ value: '現價', fontSize: 10 }} stroke="#3b82f6" />
+              {showMa && (Object.keys(MA_COLORS) as (keyof typeof MA_COLORS)[]).map(key => (
+                <Line key={key} yAxisId="price" dataKey={key} stroke={MA_COLORS[key]} strokeWidth={1} dot={false} isAnimationActive={false} />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Sub-panel */}
+        <div className="h-24 mt-1">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} barCategoryGap={1} syncId={`chart-${data.symbol}`}>
+              <XAxis dataKey="date" tick={{ fontSize: 10 }} minTickGap={24} />
+              {panel === 'VOLUME' && (
+                <>
+                  <YAxis tick={{ fontSize: 10 }} width={40} tickFormatter={(v: number) => `${Math.round(v / 1000)}`} />
+                  <Bar dataKey="volume" isAnimationActive={false}>
+                    {chartData.map(b => <Cell key={b.date} fill={b.close >= b.open ? '#fda4af' : '#6ee7b7'} />)}
+                  </Bar>
+                  <Line dataKey="volumeMa5" stroke={MA_COLORS.ma5} dot={false} isAnimationActive={false} />
+                  <Line dataKey="volumeMa20" stroke={MA_COLORS.ma20} dot={false} isAnimationActive={false} />
+                </>
+              )}
+              {panel === 'RSI' && (
+                <>
+                  <YAxis domain={[0, 100]} ticks={[30, 70]} tick={{ fontSize: 10 }} width={40} />
+                  <ReferenceLine y={70} stroke="#fda4af" strokeDasharray="3 3" />
+                  <ReferenceLine y={30} stroke="#6ee7b7" strokeDasharray="3 3" />
+                  <Line dataKey="rsi" stroke="#6366f1" dot={false} isAnimationActive={false} />
+                </>
+              )}
+              {panel === 'MACD' && (
+                <>
+                  <YAxis tick={{ fontSize: 10 }} width={40} />
+                  <ReferenceLine y={0} stroke="#cbd5e1" />
+                  <Bar dataKey="macdHistogram" isAnimationActive={false}>
+                    {chartData.map(b => <Cell key={b.date} fill={(b.macdHistogram ?? 0) >= 0 ? UP_COLOR : DOWN_COLOR} />)}
+                  </Bar>
+                  <Line dataKey="macdDif" stroke={MA_COLORS.ma5} dot={false} isAnimationActive={false} />
+                  <Line dataKey="macdSignal" stroke={MA_COLORS.ma60} dot={false} isAnimationActive={false} />
+                </>
+              )}
+              {panel === 'KD' && (
+                <>
+                  <YAxis domain={[0, 100]} ticks={[20, 80]} tick={{ fontSize: 10 }} width={40} />
+                  <ReferenceLine y={80} stroke="#fda4af" strokeDasharray="3 3" />
+                  <ReferenceLine y={20} stroke="#6ee7b7" strokeDasharray="3 3" />
+                  <Line dataKey="k" stroke={MA_COLORS.ma5} dot={false} isAnimationActive={false} />
+                  <Line dataKey="d" stroke={MA_COLORS.ma60} dot={false} isAnimationActive={false} />
+                </>
+              )}
+              <Tooltip content={() => null} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="flex justify-end mt-1">
+          <div className="flex rounded border border-slate-200 overflow-hidden">
+            {(Object.keys(PANEL_LABELS) as ChartPanel[]).map(p => (
+              <button key={p} onClick={() => setPanel(p)} className={toggleClass(panel === p)}>{PANEL_LABELS[p]}</button>
+            ))}
+          </div>
+        </div>
+        </>
+      )}
       <div className="flex justify-between text-xs text-slate-400 mt-2 px-2">
-        <span>52W Low: {data.low52Week}</span>
-        <span>52W High: {data.high52Week}</span>
+        <span>52W Low: {data.low52Week ?? '—'}</span>
+        <span>52W High: {data.high52Week ?? '—'}</span>
       </div>
     </div>
   );
@@ -0,0 +1,80 @@
+import React from 'react';
+import { AnalysisSnapshot, TrackedAnalysisField } from '../types';
+import { History } from 'lucide-react';
+import { diffSnapshots, latestChanges, describeChange, RECOMMENDATION_LABELS } from '../services/analysisHistory';
+
+interface AnalysisHistoryProps {
+  history: AnalysisSnapshot[];
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('zh-TW', { timeZone: 'Asia/Taipei', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: false });
+
+const AnalysisHistory: React.FC<AnalysisHistoryProps> = ({ history }) => {
+  const changes = latestChanges(history);
+  // Newest first, each row compared with the run before it
+  const rows = history
+    .map((snapshot, i) => ({
+      snapshot,
+      changed: new Set(i > 0 ? diffSnapshots(history[i - 1], snapshot).map(c => c.field) : []),
+      previous: i > 0 ? history[i - 1] : undefined,
+    }))
+    .reverse();
+
+  // Up is red and down is green, following the Taiwan market convention
+  const cellClass = (field: TrackedAnalysisField, changed: Set<TrackedAnalysisField>, snapshot: AnalysisSnapshot, previous?: AnalysisSnapshot) => {
+    if (!changed.has(field) || !previous) return 'text-slate-700';
+    if (field === 'recommendation') return 'bg-amber-50 text-amber-800 font-bold';
+    return (snapshot[field] as number) > (previous[field] as number) ? 'bg-rose-50 text-rose-700 font-bold' : 'bg-emerald-50 text-emerald-700 font-bold';
+  };
+
+  return (
+    <div>
+      <h4 className="text-sm font-bold text-slate-900 uppercase tracking-wide mb-2 flex items-center">
+        <History className="w-4 h-4 mr-1" /> 分析紀錄
+      </h4>
+      {history.length < 2 ? (
+        <p className="text-xs text-slate-400 italic">
+          {history.length === 0 ? '尚無分析紀錄' : '目前只有一次分析紀錄，下次分析後即可比較變化'}
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <div className="text-xs bg-white p-2 rounded border border-slate-200">
+            <span className="text-slate-500">與上次分析相比：</span>
+            {changes.length > 0
+              ? <span className="text-slate-800 font-medium">{changes.map(describeChange).join('、')}</span>
+              : <span className="text-slate-400">沒有變化</span>}
+          </div>
+          <div className="overflow-x-auto max-h-56 overflow-y-auto bg-white rounded-lg border border-slate-200">
+            <table className="min-w-full divide-y divide-slate-200 text-xs">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold text-slate-500">分析時間</th>
+                  <th className="px-3 py-2 text-center font-semibold text-slate-500">建議</th>
+                  <th className="px-3 py-2 text-right font-semibold text-slate-500">現價</th>
+                  <th className="px-3 py-2 text-right font-semibold text-slate-500">買入目標</th>
+                  <th className="px-3 py-2 text-right font-semibold text-slate-500">賣出目標</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {rows.map(({ snapshot, changed, previous }) => (
+                  <tr key={snapshot.recordedAt}>
+                    <td className="px-3 py-1.5 font-mono text-slate-500 whitespace-nowrap">{formatTime(snapshot.recordedAt)}</td>
+                    <td className={`px-3 py-1.5 text-center ${cellClass('recommendation', changed, snapshot, previous)}`}>
+                      {RECOMMENDATION_LABELS[snapshot.recommendation]}
+                    </td>
+                    <td className={`px-3 py-1.5 text-right font-mono ${cellClass('currentPrice', changed, snapshot, previous)}`}>{snapshot.currentPrice}</td>
+                    <td className={`px-3 py-1.5 text-right font-mono ${cellClass('suggestBuyPrice', changed, snapshot, previous)}`}>{snapshot.suggestBuyPrice}</td>
+                    <td className={`px-3 py-1.5 text-right font-mono ${cellClass('suggestSellPrice', changed, snapshot, previous)}`}>{snapshot.suggestSellPrice}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisHistory;
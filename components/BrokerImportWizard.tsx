@@ -0,0 +1,281 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Account, ColumnMapping, DividendEvent, ImportField, ImportKind, ImportRow, Transaction } from '../types';
+import { FileUp, Upload, X } from 'lucide-react';
+import {
+  readImportFile,
+  detectColumns,
+  detectImportKind,
+  missingFields,
+  buildImportPreview,
+  mergeImport,
+  ImportFile,
+  ImportResult,
+  IMPORT_KIND_LABELS,
+  IMPORT_FIELD_LABELS,
+  REQUIRED_FIELDS,
+} from '../services/brokerImport';
+import { ALL_ACCOUNTS, DEFAULT_ACCOUNT_ID } from '../services/accounts';
+import { TRANSACTION_TYPE_LABELS } from '../services/ledger';
+import { formatShares } from '../services/lots';
+import { taipeiDate } from '../services/tradingCalendar';
+
+interface BrokerImportWizardProps {
+  transactions: Transaction[];
+  dividends: DividendEvent[];
+  accounts: Account[];
+  activeAccountId: string;
+  prices: Record<string, number>;
+  onImported: (result: ImportResult, accountId: string) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<ImportRow['status'], string> = {
+  NEW: '新增',
+  DUPLICATE: '略過',
+  ERROR: '錯誤',
+};
+
+const STATUS_CLASSES: Record<ImportRow['status'], string> = {
+  NEW: 'bg-indigo-50 text-indigo-700',
+  DUPLICATE: 'bg-slate-100 text-slate-500',
+  ERROR: 'bg-rose-50 text-rose-700',
+};
+
+const BrokerImportWizard: React.FC<BrokerImportWizardProps> = ({
+  transactions,
+  dividends,
+  accounts,
+  activeAccountId,
+  prices,
+  onImported,
+  onClose,
+}) => {
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [kind, setKind] = useState<ImportKind>('TRADES');
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [accountId, setAccountId] = useState(activeAccountId === ALL_ACCOUNTS ? DEFAULT_ACCOUNT_ID : activeAccountId);
+  const [quantityInLots, setQuantityInLots] = useState(false);
+  const [statementDate, setStatementDate] = useState(taipeiDate);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [rejected, setRejected] = useState<ImportRow[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const missing = file && mapping ? missingFields(mapping, kind) : [];
+  const ready = missing.length === 0;
+  const preview = useMemo(
+    () => file && mapping && ready
+      ? buildImportPreview(file, mapping, transactions, { kind, accountId, statementDate, quantityInLots, prices }, dividends)
+      : [],
+    [file, mapping, ready, kind, accountId, statementDate, quantityInLots, transactions, dividends, prices]
+  );
+  const newCount = preview.filter(r => r.status === 'NEW').length;
+
+  const handleFile = async (selected: File) => {
+    setReadError(null);
+    setRejected([]);
+    try {
+      const parsed = readImportFile(await selected.text());
+      const detected = detectImportKind(parsed.header);
+      setFile(parsed);
+      setFileName(selected.name);
+      setKind(detected);
+      setMapping(detectColumns(parsed.header, detected));
+    } catch (e) {
+      setReadError(e instanceof Error ? e.message : '無法讀取檔案');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleKindChange = (next: ImportKind) => {
+    setKind(next);
+    if (file) setMapping(detectColumns(file.header, next));
+  };
+
+  const handleImport = () => {
+    const result = mergeImport(transactions, preview, dividends);
+    onImported(result, accountId);
+    if (result.rejected.length > 0) {
+      // Keep the wizard open so the rejected rows can be read
+      setRejected(result.rejected);
+      setFile(null);
+    } else {
+      onClose();
+    }
+  };
+
+  const fields = (Object.keys(IMPORT_FIELD_LABELS) as ImportField[])
+    .filter(f => kind === 'TRADES' || !['side', 'fee', 'tax'].includes(f));
+  const selectClass = "p-1.5 border border-slate-300 rounded-md text-xs focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full p-6 space-y-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-indigo-600">
+            <FileUp className="w-7 h-7" />
+            <h2 className="text-xl font-bold">匯入券商 CSV</h2>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600" title="關閉">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-slate-500">
+          支援各大券商的成交明細 / 對帳單，以及集保 e 存摺的庫存明細 CSV。匯入前會先預覽，已存在的交易會自動略過。
+        </p>
+
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1.5 bg-slate-100 rounded-md hover:bg-slate-200 flex items-center font-medium"
+          >
+            <Upload className="w-3 h-3 mr-1" /> 選擇檔案
+          </button>
+          {fileName && <span className="font-mono text-slate-500">{fileName}</span>}
+          <label className="flex items-center gap-1 ml-auto">
+            匯入到
+            <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={selectClass}>
+              {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+          </label>
+        </div>
+        {readError && <p className="text-xs text-rose-600">{readError}</p>}
+
+        {file && mapping && (
+          <>
+            <div className="p-3 bg-slate-50 rounded-lg border border-slate-200 space-y-3">
+              <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+                <label className="flex items-center gap-1">
+                  檔案類型
+                  <select value={kind} onChange={(e) => handleKindChange(e.target.value as ImportKind)} className={selectClass}>
+                    {(Object.keys(IMPORT_KIND_LABELS) as ImportKind[]).map(k => (
+                      <option key={k} value={k}>{IMPORT_KIND_LABELS[k]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-1">
+                  數量單位
+                  <select
+                    value={quantityInLots ? 'LOTS' : 'SHARES'}
+                    onChange={(e) => setQuantityInLots(e.target.value === 'LOTS')}
+                    className={selectClass}
+                  >
+                    <option value="SHARES">股</option>
+                    <option value="LOTS">張</option>
+                  </select>
+                </label>
+                {kind === 'HOLDINGS' && (
+                  <label className="flex items-center gap-1" title="檔案沒有日期欄位時使用">
+                    庫存日期
+                    <input
+                      type="date"
+                      value={statementDate}
+                      onChange={(e) => setStatementDate(e.target.value)}
+                      className={selectClass}
+                    />
+                  </label>
+                )}
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {fields.map(field => (
+                  <label key={field} className="flex flex-col text-xs text-slate-500">
+                    <span>
+                      {IMPORT_FIELD_LABELS[field]}
+                      {REQUIRED_FIELDS[kind].includes(field) && <span className="text-rose-500"> *</span>}
+                    </span>
+                    <select
+                      value={mapping[field]}
+                      onChange={(e) => setMapping({ ...mapping, [field]: Number(e.target.value) })}
+                      className={selectClass}
+                    >
+                      <option value={-1}>(無)</option>
+                      {file.header.map((h, i) => <option key={i} value={i}>{h || `第 ${i + 1} 欄`}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              {missing.length > 0 && (
+                <p className="text-xs text-rose-600">請指定欄位：{missing.map(f => IMPORT_FIELD_LABELS[f]).join('、')}</p>
+              )}
+              {kind === 'HOLDINGS' && (
+                <p className="text-xs text-slate-400">庫存明細會與帳上股數比對，差額以買進 / 賣出調整入帳。</p>
+              )}
+            </div>
+
+            {preview.length > 0 && (
+              <div className="overflow-x-auto max-h-72 overflow-y-auto border border-slate-200 rounded-lg">
+                <table className="min-w-full divide-y divide-slate-200 text-xs">
+                  <thead className="bg-slate-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-semibold text-slate-500">列</th>
+                      <th className="px-3 py-2 text-left font-semibold text-slate-500">狀態</th>
+                      <th className="px-3 py-2 text-left font-semibold text-slate-500">日期</th>
+                      <th className="px-3 py-2 text-left font-semibold text-slate-500">代碼</th>
+                      <th className="px-3 py-2 text-left font-semibold text-slate-500">類別</th>
+                      <th className="px-3 py-2 text-right font-semibold text-slate-500">股數</th>
+                      <th className="px-3 py-2 text-right font-semibold text-slate-500">價格</th>
+                      <th className="px-3 py-2 text-right font-semibold text-slate-500">手續費/稅</th>
+                      <th className="px-3 py-2 text-left font-semibold text-slate-500">說明</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {preview.map(row => (
+                      <tr key={row.line}>
+                        <td className="px-3 py-1.5 font-mono text-slate-400">{row.line}</td>
+                        <td className="px-3 py-1.5">
+                          <span className={`px-1.5 py-0.5 rounded ${STATUS_CLASSES[row.status]}`}>{STATUS_LABELS[row.status]}</span>
+                        </td>
+                        <td className="px-3 py-1.5 font-mono">{row.transaction?.date}</td>
+                        <td className="px-3 py-1.5 font-bold">{row.transaction?.symbol}</td>
+                        <td className="px-3 py-1.5">{row.transaction && TRANSACTION_TYPE_LABELS[row.transaction.type]}</td>
+                        <td className="px-3 py-1.5 text-right font-mono">{row.transaction && formatShares(row.transaction.quantity)}</td>
+                        <td className="px-3 py-1.5 text-right font-mono">{row.transaction?.price}</td>
+                        <td className="px-3 py-1.5 text-right font-mono">{row.transaction?.fee.toLocaleString()}</td>
+                        <td className="px-3 py-1.5 text-slate-500">{row.message}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+
+        {rejected.length > 0 && (
+          <div className="p-3 bg-rose-50 border border-rose-200 rounded-lg text-xs text-rose-700 space-y-1">
+            <div className="font-medium">以下資料未能匯入：</div>
+            {rejected.map(row => (
+              <div key={row.line}>第 {row.line} 列 {row.transaction?.symbol}：{row.message}</div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg">
+            {rejected.length > 0 ? '關閉' : '取消'}
+          </button>
+          {file && (
+            <button
+              onClick={handleImport}
+              disabled={newCount === 0}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-medium text-sm disabled:opacity-50"
+            >
+              匯入 {newCount} 筆
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrokerImportWizard;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Currency, FxRate } from '../types';
+import { Globe, RefreshCw } from 'lucide-react';
+import {
+  CURRENCIES,
+  CURRENCY_LABELS,
+  FX_SOURCE_LABELS,
+  setBaseCurrency,
+  fetchFxRates,
+  setManualFxRate,
+  latestFxRate,
+} from '../services/currency';
+
+interface CurrencySettingsProps {
+  baseCurrency: Currency;
+  onBaseCurrencyChange: (currency: Currency) => void;
+  rates: FxRate[];
+  onRatesChange: (rates: FxRate[]) => void;
+  // Foreign currencies the watchlists trade in
+  currencies: Currency[];
+}
+
+// Rates are entered as TWD per unit, the way Taiwanese banks quote them
+const CurrencySettings: React.FC<CurrencySettingsProps> = ({ baseCurrency, onBaseCurrencyChange, rates, onRatesChange, currencies }) => {
+  const [drafts, setDrafts] = useState<Partial<Record<Currency, string>>>({});
+  const [updating, setUpdating] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const shown = CURRENCIES.filter(c => c !== 'TWD' && (currencies.includes(c) || c === baseCurrency));
+
+  const handleBaseChange = (currency: Currency) => {
+    setBaseCurrency(currency);
+    onBaseCurrencyChange(currency);
+  };
+
+  const commitRate = (currency: Currency) => {
+    const draft = drafts[currency];
+    setDrafts(prev => ({ ...prev, [currency]: undefined }));
+    if (draft === undefined || draft === '' || Number(draft) === latestFxRate(currency, undefined, rates)?.twdPerUnit) return;
+    try {
+      onRatesChange(setManualFxRate(currency, Number(draft)));
+      setMessage(null);
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : '匯率輸入錯誤');
+    }
+  };
+
+  const handleUpdate = async () => {
+    setUpdating(true);
+    setMessage(null);
+    try {
+      onRatesChange(await fetchFxRates(shown));
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : '匯率更新失敗');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const inputClass = "p-1.5 border border-slate-300 rounded-md text-xs font-mono w-20 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="mb-6 flex flex-col sm:flex-row sm:flex-wrap sm:items-center gap-2 text-xs text-slate-600">
+      <div className="flex items-center font-medium">
+        <Globe className="w-3 h-3 mr-1" /> 幣別與匯率
+      </div>
+      <label className="flex items-center gap-1">
+        基準幣別
+        <select
+          value={baseCurrency}
+          onChange={(e) => handleBaseChange(e.target.value as Currency)}
+          className="p-1.5 border border-slate-300 rounded-md text-xs focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          {CURRENCIES.map(c => <option key={c} value={c}>{c} {CURRENCY_LABELS[c]}</option>)}
+        </select>
+      </label>
+      {shown.map(currency => {
+        const latest = latestFxRate(currency, undefined, rates);
+        return (
+          <label
+            key={currency}
+            className="flex items-center gap-1"
+            title={latest ? `${latest.date}・${FX_SOURCE_LABELS[latest.source]}` : '尚無匯率，請更新或手動輸入'}
+          >
+            1 {currency} =
+            <input
+              type="number"
+              min="0"
+              step="0.0001"
+              value={drafts[currency] ?? (latest ? String(latest.twdPerUnit) : '')}
+              onChange={(e) => setDrafts(prev => ({ ...prev, [currency]: e.target.value }))}
+              onBlur={() => commitRate(currency)}
+              className={`${inputClass} ${latest ? '' : 'border-amber-400'}`}
+            />
+            TWD
+          </label>
+        );
+      })}
+      {shown.length > 0 && (
+        <button
+          onClick={handleUpdate}
+          disabled={updating}
+          className="px-2 py-1.5 bg-slate-100 rounded-md hover:bg-slate-200 flex items-center w-fit disabled:opacity-50"
+          title="由目前的報價來源取得今日匯率"
+        >
+          <RefreshCw className={`w-3 h-3 mr-1 ${updating ? 'animate-spin' : ''}`} /> 更新匯率
+        </button>
+      )}
+      {shown.length === 0 && <span className="text-slate-400">持股皆以新台幣計價</span>}
+      {message && <span className="text-rose-600">{message}</span>}
+    </div>
+  );
+};
+
+export default CurrencySettings;
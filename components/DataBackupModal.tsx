@@ -0,0 +1,156 @@
+import React, { useState, useRef } from 'react';
+import { BackupBundle, ExportDataset, RestoreMode } from '../types';
+import { Archive, Download, Upload, X } from 'lucide-react';
+import {
+  createBackup,
+  parseBackup,
+  restoreBackup,
+  describeBackup,
+  exportCsv,
+  exportXlsx,
+  downloadFile,
+  exportFilename,
+  EXPORT_DATASET_LABELS,
+  RESTORE_MODE_LABELS,
+} from '../services/dataExport';
+
+interface DataBackupModalProps {
+  onClose: () => void;
+  // Called after a restore so the app can reload its state from storage
+  onRestored: () => void;
+}
+
+const DataBackupModal: React.FC<DataBackupModalProps> = ({ onClose, onRestored }) => {
+  const [dataset, setDataset] = useState<ExportDataset>('HOLDINGS');
+  const [bundle, setBundle] = useState<BackupBundle | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('MERGE');
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExportJson = () => {
+    downloadFile(exportFilename('backup', 'json'), JSON.stringify(createBackup(), null, 2), 'application/json');
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(exportFilename(dataset.toLowerCase(), 'csv'), exportCsv(dataset), 'text/csv;charset=utf-8');
+  };
+
+  const handleExportXlsx = () => {
+    downloadFile(
+      exportFilename('data', 'xlsx'),
+      exportXlsx(),
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+  };
+
+  const handleFile = async (file: File) => {
+    setRestoreError(null);
+    setBundle(null);
+    try {
+      setBundle(parseBackup(await file.text()));
+    } catch (e) {
+      setRestoreError(e instanceof Error ? e.message : '無法讀取備份檔');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleRestore = () => {
+    if (!bundle) return;
+    if (mode === 'REPLACE' && !confirm('取代會清除目前所有的帳戶、交易與分析資料，確定要繼續嗎？')) return;
+    restoreBackup(bundle, mode);
+    onRestored();
+  };
+
+  const selectClass = "p-1.5 border border-slate-300 rounded-md text-sm focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+  const buttonClass = "px-3 py-1.5 bg-slate-100 rounded-md hover:bg-slate-200 flex items-center text-sm text-slate-700";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full p-6 space-y-5">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-indigo-600">
+            <Archive className="w-7 h-7" />
+            <h2 className="text-xl font-bold">資料匯出與還原</h2>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600" title="關閉">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Export */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-bold text-slate-700">匯出</h3>
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={handleExportJson} className={buttonClass}>
+              <Download className="w-4 h-4 mr-1" /> 完整備份 (JSON)
+            </button>
+            <button onClick={handleExportXlsx} className={buttonClass}>
+              <Download className="w-4 h-4 mr-1" /> Excel 活頁簿 (XLSX)
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={dataset} onChange={(e) => setDataset(e.target.value as ExportDataset)} className={selectClass}>
+              {(Object.keys(EXPORT_DATASET_LABELS) as ExportDataset[]).map(d => (
+                <option key={d} value={d}>{EXPORT_DATASET_LABELS[d]}</option>
+              ))}
+            </select>
+            <button onClick={handleExportCsv} className={buttonClass}>
+              <Download className="w-4 h-4 mr-1" /> 匯出 CSV
+            </button>
+          </div>
+          <p className="text-xs text-slate-400">API 金鑰不會包含在任何匯出檔中。只有 JSON 備份可用於還原。</p>
+        </div>
+
+        {/* Restore */}
+        <div className="space-y-3 pt-4 border-t border-slate-100">
+          <h3 className="text-sm font-bold text-slate-700">從 JSON 備份還原</h3>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+          />
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+            <Upload className="w-4 h-4 mr-1" /> 選擇備份檔
+          </button>
+          {restoreError && <p className="text-xs text-rose-600">{restoreError}</p>}
+
+          {bundle && (
+            <div className="p-3 bg-slate-50 rounded-lg border border-slate-200 space-y-3 text-sm">
+              <div className="text-slate-600">
+                <div>備份時間：{new Date(bundle.exportedAt).toLocaleString()} (第 {bundle.version} 版)</div>
+                <div className="text-xs text-slate-500 mt-1">{describeBackup(bundle)}</div>
+              </div>
+              <div className="space-y-1">
+                {(Object.keys(RESTORE_MODE_LABELS) as RestoreMode[]).map(m => (
+                  <label key={m} className="flex items-center gap-2 text-xs text-slate-600">
+                    <input
+                      type="radio"
+                      name="restore-mode"
+                      checked={mode === m}
+                      onChange={() => setMode(m)}
+                      className="text-indigo-600 focus:ring-indigo-500"
+                    />
+                    {RESTORE_MODE_LABELS[m]}
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={handleRestore}
+                className={`px-4 py-2 text-white rounded-lg font-medium text-sm ${
+                  mode === 'REPLACE' ? 'bg-rose-600 hover:bg-rose-700' : 'bg-indigo-600 hover:bg-indigo-700'
+                }`}
+              >
+                還原
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataBackupModal;
@@ -0,0 +1,272 @@
+import React, { useState, useMemo } from 'react';
+import { DividendEvent, DividendPayout, Transaction, Position } from '../types';
+import { Coins, Plus, Trash2, CalendarClock } from 'lucide-react';
+import {
+  addDividendEvent,
+  removeDividendEvent,
+  newDividendEvent,
+  computePayouts,
+  annualDividendIncome,
+  upcomingDividends,
+  yieldOnCost,
+  SUPPLEMENTARY_PREMIUM_THRESHOLD,
+} from '../services/dividends';
+import { taipeiDate } from '../services/tradingCalendar';
+
+interface DividendTrackerProps {
+  events: DividendEvent[];
+  onEventsChange: (events: DividendEvent[]) => void;
+  transactions: Transaction[];
+  positions: Record<string, Position>;
+  symbols: string[];
+}
+
+const emptyForm = () => ({ symbol: '', exDate: '', payDate: '', cash: '', stock: '', note: '' });
+
+const daysUntil = (date: string, today: string) =>
+  Math.round((Date.parse(date) - Date.parse(today)) / (24 * 60 * 60 * 1000));
+
+const DividendTracker: React.FC<DividendTrackerProps> = ({
+  events,
+  onEventsChange,
+  transactions,
+  positions,
+  symbols,
+}) => {
+  const [form, setForm] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const today = taipeiDate();
+
+  const payouts = useMemo(() => computePayouts(events, transactions), [events, transactions]);
+  // One payout per account; the table shows their sum per event
+  const payoutById = useMemo(() => {
+    const byEvent = new Map<string, Omit<DividendPayout, 'accountId'>>();
+    payouts.forEach(p => {
+      const sum = byEvent.get(p.event.id);
+      byEvent.set(p.event.id, sum
+        ? {
+            ...sum,
+            sharesHeld: sum.sharesHeld + p.sharesHeld,
+            cashAmount: sum.cashAmount + p.cashAmount,
+            stockShares: sum.stockShares + p.stockShares,
+            supplementaryPremium: sum.supplementaryPremium + p.supplementaryPremium,
+            netCash: sum.netCash + p.netCash,
+          }
+        : p);
+    });
+    return byEvent;
+  }, [payouts]);
+  const income = useMemo(() => annualDividendIncome(payouts.filter(p => p.event.exDate <= today)), [payouts, today]);
+  const upcoming = useMemo(() => upcomingDividends(events, today), [events, today]);
+  const heldPositions = useMemo(() => Object.values(positions).filter(p => p.quantity > 0), [positions]);
+  const symbolOptions = useMemo(
+    () => [...new Set([...symbols, ...heldPositions.map(p => p.symbol)])],
+    [symbols, heldPositions]
+  );
+
+  const handleAdd = () => {
+    setFormError(null);
+    try {
+      const event = newDividendEvent({
+        symbol: form.symbol,
+        exDate: form.exDate,
+        ...(form.payDate ? { payDate: form.payDate } : {}),
+        cashPerShare: Number(form.cash || 0),
+        stockPerShare: Number(form.stock || 0),
+        ...(form.note.trim() ? { note: form.note.trim() } : {}),
+      });
+      onEventsChange(addDividendEvent(events, event));
+      setForm(emptyForm());
+    } catch (e) {
+      setFormError(e instanceof Error ? e.message : '無法新增除權息紀錄');
+    }
+  };
+
+  const handleRemove = (event: DividendEvent) => {
+    if (confirm(`確定要刪除 ${event.symbol} ${event.exDate} 的除權息紀錄嗎？`)) {
+      onEventsChange(removeDividendEvent(events, event.id));
+    }
+  };
+
+  const formatMoney = (n: number) => Math.round(n).toLocaleString();
+  const inputClass = "p-2 border border-slate-300 rounded-md text-sm focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-5">
+      <h3 className="text-lg font-bold text-slate-800 flex items-center">
+        <Coins className="w-5 h-5 mr-2 text-amber-500" /> 股利紀錄
+      </h3>
+
+      {/* Annual income */}
+      {income.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {income.slice(0, 4).map(row => (
+            <div key={row.year} className="bg-amber-50 rounded-lg p-3 border border-amber-100">
+              <div className="text-xs text-amber-700">{row.year} 年股利收入</div>
+              <div className="font-mono font-bold text-slate-800">${formatMoney(row.net)}</div>
+              <div className="text-[10px] text-slate-500">
+                現金 {formatMoney(row.gross)}・健保補充保費 -{formatMoney(row.supplementaryPremium)}
+                {row.stockShares > 0 && `・配股 ${row.stockShares} 股`}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* New event */}
+      <div className="flex flex-wrap items-end gap-2">
+        <select
+          value={form.symbol}
+          onChange={(e) => setForm(prev => ({ ...prev, symbol: e.target.value }))}
+          className={inputClass}
+        >
+          <option value="">選擇代碼</option>
+          {symbolOptions.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <label className="text-xs text-slate-500 flex flex-col">
+          除權息日
+          <input type="date" value={form.exDate} onChange={(e) => setForm(prev => ({ ...prev, exDate: e.target.value }))} className={inputClass} />
+        </label>
+        <label className="text-xs text-slate-500 flex flex-col">
+          發放日 (選填)
+          <input type="date" value={form.payDate} onChange={(e) => setForm(prev => ({ ...prev, payDate: e.target.value }))} className={inputClass} />
+        </label>
+        <input
+          type="number"
+          min="0"
+          step="0.0001"
+          placeholder="現金股利 元/股"
+          value={form.cash}
+          onChange={(e) => setForm(prev => ({ ...prev, cash: e.target.value }))}
+          className={`${inputClass} w-36 font-mono`}
+        />
+        <input
+          type="number"
+          min="0"
+          step="0.0001"
+          placeholder="股票股利 元/股"
+          value={form.stock}
+          onChange={(e) => setForm(prev => ({ ...prev, stock: e.target.value }))}
+          className={`${inputClass} w-36 font-mono`}
+        />
+        <input
+          type="text"
+          placeholder="備註 (選填)"
+          value={form.note}
+          onChange={(e) => setForm(prev => ({ ...prev, note: e.target.value }))}
+          className={`${inputClass} flex-grow min-w-[120px]`}
+        />
+        <button
+          onClick={handleAdd}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-medium text-sm flex items-center"
+        >
+          <Plus className="w-4 h-4 mr-1" /> 新增
+        </button>
+      </div>
+      {formError && <p className="text-xs text-rose-600">{formError}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Upcoming ex-dividend calendar */}
+        <div>
+          <h4 className="text-sm font-bold text-slate-900 mb-2 flex items-center">
+            <CalendarClock className="w-4 h-4 mr-1" /> 即將除權息
+          </h4>
+          {upcoming.length === 0 ? (
+            <p className="text-xs text-slate-400 italic">沒有已登錄的未來除權息事件</p>
+          ) : (
+            <ul className="space-y-1.5">
+              {upcoming.map(event => {
+                const payout = payoutById.get(event.id);
+                const days = daysUntil(event.exDate, today);
+                return (
+                  <li key={event.id} className="text-xs flex justify-between bg-slate-50 p-2 rounded border border-slate-100">
+                    <span>
+                      <span className="font-mono text-slate-600">{event.exDate}</span>
+                      <span className="font-bold text-slate-800 ml-2">{event.symbol}</span>
+                      <span className={`ml-2 ${days <= 7 ? 'text-amber-600 font-medium' : 'text-slate-400'}`}>
+                        {days > 0 ? `D-${days}` : days === 0 ? '今日除權息' : `已除權息，${event.payDate} 發放`}
+                      </span>
+                    </span>
+                    <span className="text-slate-600">
+                      {event.cashPerShare > 0 && `現金 ${event.cashPerShare} 元`}
+                      {event.stockPerShare > 0 && ` 股票 ${event.stockPerShare} 元`}
+                      {payout && `・預估 $${formatMoney(payout.netCash)}`}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {/* Yield on cost */}
+        <div>
+          <h4 className="text-sm font-bold text-slate-900 mb-2">成本殖利率 (近一年現金股利 / 平均成本)</h4>
+          {heldPositions.length === 0 ? (
+            <p className="text-xs text-slate-400 italic">交易紀錄中沒有持股</p>
+          ) : (
+            <ul className="space-y-1.5">
+              {heldPositions.map(position => {
+                const yoc = yieldOnCost(position, events, today);
+                return (
+                  <li key={position.symbol} className="text-xs flex justify-between bg-slate-50 p-2 rounded border border-slate-100">
+                    <span className="font-bold text-slate-800">{position.symbol}</span>
+                    <span className="font-mono text-slate-600">
+                      {yoc !== undefined ? `${(yoc * 100).toFixed(2)}%` : '-'}
+                      <span className="text-slate-400 ml-2">成本 {position.averageCost.toFixed(2)}</span>
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Payout history */}
+      {events.length > 0 && (
+        <div className="overflow-x-auto max-h-80 overflow-y-auto border border-slate-200 rounded-lg">
+          <table className="min-w-full divide-y divide-slate-200 text-sm">
+            <thead className="bg-slate-50 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500">除權息日</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500">發放日</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500">代碼</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-slate-500">持有股數</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-slate-500">現金股利</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-slate-500">配股</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-slate-500" title={`單次給付達 ${SUPPLEMENTARY_PREMIUM_THRESHOLD.toLocaleString()} 元扣 2.11%`}>健保補充保費</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-slate-500">實領</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {[...events].sort((a, b) => b.exDate.localeCompare(a.exDate)).map(event => {
+                const payout = payoutById.get(event.id);
+                return (
+                  <tr key={event.id} className="hover:bg-slate-50">
+                    <td className="px-4 py-2 font-mono text-slate-600">{event.exDate}</td>
+                    <td className="px-4 py-2 font-mono text-slate-600">{event.payDate || '-'}</td>
+                    <td className="px-4 py-2 font-bold text-slate-800" title={event.note}>{event.symbol}</td>
+                    <td className="px-4 py-2 text-right font-mono">{payout ? payout.sharesHeld.toLocaleString() : 0}</td>
+                    <td className="px-4 py-2 text-right font-mono">{payout ? formatMoney(payout.cashAmount) : '-'}</td>
+                    <td className="px-4 py-2 text-right font-mono">{payout?.stockShares ? `${payout.stockShares} 股` : '-'}</td>
+                    <td className="px-4 py-2 text-right font-mono text-rose-600">{payout?.supplementaryPremium ? `-${formatMoney(payout.supplementaryPremium)}` : '-'}</td>
+                    <td className="px-4 py-2 text-right font-mono font-bold">{payout ? formatMoney(payout.netCash) : '-'}</td>
+                    <td className="px-4 py-2 text-right">
+                      <button onClick={() => handleRemove(event)} className="text-slate-400 hover:text-rose-600" title="刪除這筆紀錄">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DividendTracker;
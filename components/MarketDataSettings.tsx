@@ -0,0 +1,136 @@
+import React, { useState, useRef } from 'react';
+import { MarketDataProviderId } from '../types';
+import { Database, Upload, CandlestickChart } from 'lucide-react';
+import {
+  MARKET_DATA_PROVIDERS,
+  getSelectedProviderId,
+  setSelectedProviderId,
+  getImportedQuotes,
+  parseQuoteCsv,
+  saveImportedQuotes,
+  getMockQuoteUrl,
+  setMockQuoteUrl,
+  parseHistoryCsv,
+  recordPriceHistory,
+  getHistorySymbolCount,
+} from '../services/marketDataService';
+import { clearAnalysisCache } from '../services/analysisCache';
+
+const MarketDataSettings: React.FC = () => {
+  const [providerId, setProviderId] = useState<MarketDataProviderId>(getSelectedProviderId);
+  const [importedCount, setImportedCount] = useState(() => Object.keys(getImportedQuotes()).length);
+  const [mockUrl, setMockUrl] = useState(getMockQuoteUrl);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Daily bars for the price chart, importable whichever provider is selected
+  const [historySymbol, setHistorySymbol] = useState('');
+  const [historyCount, setHistoryCount] = useState(getHistorySymbolCount);
+  const historyInputRef = useRef<HTMLInputElement>(null);
+
+  const handleProviderChange = (id: MarketDataProviderId) => {
+    setProviderId(id);
+    setSelectedProviderId(id);
+  };
+
+  const handleFileImport = async (file: File) => {
+    setImportError(null);
+    try {
+      const quotes = parseQuoteCsv(await file.text());
+      saveImportedQuotes(quotes);
+      // Cached analyses carry the replaced prices
+      clearAnalysisCache();
+      setImportedCount(Object.keys(quotes).length);
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : 'CSV 匯入失敗');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleHistoryImport = async (file: File) => {
+    setImportError(null);
+    try {
+      recordPriceHistory(parseHistoryCsv(await file.text(), historySymbol || undefined));
+      setHistoryCount(getHistorySymbolCount());
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : '歷史價格匯入失敗');
+    } finally {
+      if (historyInputRef.current) historyInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-2 text-xs text-slate-600">
+      <div className="flex items-center font-medium">
+        <Database className="w-3 h-3 mr-1" /> 報價來源
+      </div>
+      <select
+        value={providerId}
+        onChange={(e) => handleProviderChange(e.target.value as MarketDataProviderId)}
+        className="p-1.5 border border-slate-300 rounded-md text-xs focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+      >
+        {MARKET_DATA_PROVIDERS.map(p => (
+          <option key={p.id} value={p.id}>{p.label}</option>
+        ))}
+      </select>
+
+      {providerId === 'CSV' && (
+        <>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleFileImport(e.target.files[0])}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-2 py-1.5 bg-slate-100 rounded-md hover:bg-slate-200 flex items-center"
+          >
+            <Upload className="w-3 h-3 mr-1" /> 匯入報價 CSV
+          </button>
+          <span className="text-slate-400">已匯入 {importedCount} 檔</span>
+        </>
+      )}
+
+      {providerId === 'MOCK_SERVER' && (
+        <input
+          type="text"
+          value={mockUrl}
+          onChange={(e) => setMockUrl(e.target.value)}
+          onBlur={() => setMockQuoteUrl(mockUrl)}
+          className="p-1.5 border border-slate-300 rounded-md text-xs font-mono w-56 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+        />
+      )}
+
+      <div className="flex items-center gap-2 sm:ml-auto">
+        <input
+          ref={historyInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => e.target.files?.[0] && handleHistoryImport(e.target.files[0])}
+        />
+        <input
+          type="text"
+          placeholder="代號 (單檔 CSV)"
+          value={historySymbol}
+          onChange={(e) => setHistorySymbol(e.target.value.trim().toUpperCase())}
+          className="p-1.5 border border-slate-300 rounded-md text-xs font-mono w-28 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+          title="檔案沒有代號欄位時 (例如證交所個股日成交資訊) 填入"
+        />
+        <button
+          onClick={() => historyInputRef.current?.click()}
+          className="px-2 py-1.5 bg-slate-100 rounded-md hover:bg-slate-200 flex items-center"
+        >
+          <CandlestickChart className="w-3 h-3 mr-1" /> 匯入歷史 K 線
+        </button>
+        <span className="text-slate-400">{historyCount} 檔有歷史價格</span>
+      </div>
+
+      {importError && <span className="text-rose-600">{importError}</span>}
+    </div>
+  );
+};
+
+export default MarketDataSettings;
@@ -0,0 +1,191 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Currency, DividendEvent, FxRate, PerformanceRange, Transaction, ValuationSnapshot } from '../types';
+import { Activity } from 'lucide-react';
+import {
+  computePerformance,
+  ledgerCashFlows,
+  fetchBenchmarkClose,
+  recordBenchmarkClose,
+  getBenchmark,
+  setBenchmark,
+  BENCHMARK_PRESETS,
+  PERFORMANCE_RANGE_LABELS,
+} from '../services/performance';
+import { CURRENCY_SYMBOLS } from '../services/currency';
+
+interface PerformancePanelProps {
+  valuations: ValuationSnapshot[];
+  onValuationsChange: (valuations: ValuationSnapshot[]) => void;
+  // Ledger entries of the selected account (all of them in the consolidated view)
+  transactions: Transaction[];
+  dividends: DividendEvent[];
+  scope: string;
+  // Valuations and cash flows are compared in the base currency
+  baseCurrency: Currency;
+  symbolCurrencies: Record<string, Currency>;
+  fxRates: FxRate[];
+}
+
+const formatMoney = (n: number) => Math.round(n).toLocaleString();
+
+const formatPercent = (n: number | undefined) =>
+  n === undefined ? '—' : `${n > 0 ? '+' : ''}${(n * 100).toFixed(2)}%`;
+
+// Gains red, losses green (Taiwan market convention)
+const returnClass = (n: number | undefined) =>
+  n === undefined || n === 0 ? 'text-slate-700' : n > 0 ? 'text-rose-600' : 'text-emerald-600';
+
+const PerformancePanel: React.FC<PerformancePanelProps> = ({
+  valuations,
+  onValuationsChange,
+  transactions,
+  dividends,
+  scope,
+  baseCurrency,
+  symbolCurrencies,
+  fxRates,
+}) => {
+  const [range, setRange] = useState<PerformanceRange>('ALL');
+  const [benchmark, setBenchmarkInput] = useState(getBenchmark);
+  const [benchmarkError, setBenchmarkError] = useState<string | null>(null);
+  // Each benchmark is fetched at most once per valuation day, even when it fails
+  const attempted = useRef(new Set<string>());
+
+  const latest = valuations[valuations.length - 1];
+  useEffect(() => {
+    if (!latest || !benchmark || latest.benchmarks?.[benchmark] !== undefined) return;
+    const key = `${latest.date}|${benchmark}`;
+    if (attempted.current.has(key)) return;
+    attempted.current.add(key);
+    fetchBenchmarkClose(benchmark)
+      .then(result => {
+        if (result && result.close > 0) {
+          setBenchmarkError(null);
+          // Kept under the close's own trading day, which may not be the latest valuation's
+          const updated = recordBenchmarkClose(result.date, benchmark, result.close);
+          if (updated) onValuationsChange(updated);
+        } else {
+          setBenchmarkError(`報價來源沒有 ${benchmark} 的價格`);
+        }
+      })
+      .catch(e => setBenchmarkError(e instanceof Error ? e.message : '無法取得基準報價'));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [latest?.date, benchmark]);
+
+  const flows = useMemo(
+    () => ledgerCashFlows(transactions, dividends, baseCurrency, symbolCurrencies, fxRates),
+    [transactions, dividends, baseCurrency, symbolCurrencies, fxRates]
+  );
+  const result = useMemo(
+    () => computePerformance(valuations, flows, scope, benchmark, range, baseCurrency),
+    [valuations, flows, scope, benchmark, range, baseCurrency]
+  );
+  const money = CURRENCY_SYMBOLS[baseCurrency];
+
+  const handleBenchmarkChange = (symbol: string) => {
+    const trimmed = symbol.trim().toUpperCase();
+    setBenchmarkInput(trimmed);
+    if (trimmed) setBenchmark(trimmed);
+  };
+
+  const benchmarkLabel = BENCHMARK_PRESETS[benchmark] ? `${BENCHMARK_PRESETS[benchmark]} (${benchmark})` : benchmark;
+  const metrics = result?.metrics;
+  const excess = metrics && metrics.benchmarkReturn !== undefined ? metrics.timeWeightedReturn - metrics.benchmarkReturn : undefined;
+
+  const cards = metrics ? [
+    { label: '時間加權報酬', value: formatPercent(metrics.timeWeightedReturn), tone: returnClass(metrics.timeWeightedReturn),
+      hint: metrics.annualizedTimeWeighted !== undefined ? `年化 ${formatPercent(metrics.annualizedTimeWeighted)}` : '不受資金進出影響' },
+    { label: '資金加權報酬', value: formatPercent(metrics.moneyWeightedReturn), tone: returnClass(metrics.moneyWeightedReturn),
+      hint: metrics.annualizedMoneyWeighted !== undefined ? `年化 ${formatPercent(metrics.annualizedMoneyWeighted)}` : '反映進出場時機' },
+    { label: '最大回撤', value: metrics.maxDrawdown > 0 ? `-${(metrics.maxDrawdown * 100).toFixed(2)}%` : '0.00%',
+      tone: metrics.maxDrawdown > 0 ? 'text-emerald-600' : 'text-slate-700', hint: '以時間加權淨值計算' },
+    { label: '年化波動率', value: metrics.volatility !== undefined ? `${(metrics.volatility * 100).toFixed(2)}%` : '—',
+      tone: 'text-slate-700', hint: metrics.volatility !== undefined ? '依每日報酬換算' : '紀錄天數不足' },
+    { label: `基準 ${benchmark}`, value: formatPercent(metrics.benchmarkReturn), tone: returnClass(metrics.benchmarkReturn),
+      hint: excess !== undefined ? `超額報酬 ${formatPercent(excess)}` : '基準報價紀錄不足' },
+  ] : [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-5">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center">
+          <Activity className="w-5 h-5 mr-2 text-indigo-600" /> 投資績效
+        </h3>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <div className="flex rounded-md border border-slate-300 overflow-hidden">
+            {(Object.keys(PERFORMANCE_RANGE_LABELS) as PerformanceRange[]).map(r => (
+              <button
+                key={r}
+                onClick={() => setRange(r)}
+                className={`px-2.5 py-1.5 text-xs ${range === r ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+              >
+                {PERFORMANCE_RANGE_LABELS[r]}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-1 text-xs text-slate-600">
+            比較基準
+            <input
+              type="text"
+              list="benchmark-presets"
+              value={benchmark}
+              onChange={(e) => handleBenchmarkChange(e.target.value)}
+              className="p-1.5 border border-slate-300 rounded-md text-xs font-mono w-24 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <datalist id="benchmark-presets">
+              {Object.entries(BENCHMARK_PRESETS).map(([symbol, name]) => <option key={symbol} value={symbol}>{name}</option>)}
+            </datalist>
+          </label>
+        </div>
+      </div>
+
+      {!result || !metrics ? (
+        <p className="text-sm text-slate-400 italic">
+          {valuations.length === 0
+            ? '尚無市值紀錄。每次更新持股報價時會記錄當日市值，累積兩個交易日以上即可計算績效。'
+            : '此期間的市值紀錄不足兩天，請選擇較長的期間或稍後再查看。'}
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {cards.map(card => (
+              <div key={card.label} className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                <div className="text-xs text-slate-500">{card.label}</div>
+                <div className={`text-lg font-bold font-mono ${card.tone}`}>{card.value}</div>
+                <div className="text-[10px] text-slate-400">{card.hint}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="h-64 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={result.points}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="date" tick={{ fontSize: 10 }} minTickGap={24} />
+                <YAxis domain={['auto', 'auto']} tick={{ fontSize: 10 }} width={40} />
+                <Tooltip
+                  contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                  formatter={(value: number, name: string) => [value.toFixed(2), name]}
+                />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <ReferenceLine y={100} stroke="#94a3b8" strokeDasharray="3 3" />
+                <Line type="monotone" dataKey="index" name="投資組合 (時間加權)" stroke="#4f46e5" strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="benchmarkIndex" name={benchmarkLabel} stroke="#94a3b8" strokeWidth={2} dot={false} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-slate-500">
+            <span>{metrics.startDate} 市值 <span className="font-mono text-slate-700">{money}{formatMoney(metrics.startValue)}</span></span>
+            <span>{metrics.endDate} 市值 <span className="font-mono text-slate-700">{money}{formatMoney(metrics.endValue)}</span></span>
+            <span>期間淨投入 <span className="font-mono text-slate-700">{money}{formatMoney(metrics.netFlows)}</span> (買進減賣出與現金股利)</span>
+          </div>
+        </>
+      )}
+      {benchmarkError && <p className="text-xs text-amber-600">基準報價：{benchmarkError}</p>}
+    </div>
+  );
+};
+
+export default PerformancePanel;
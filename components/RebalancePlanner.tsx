@@ -0,0 +1,281 @@
+import React, { useMemo, useState } from 'react';
+import { Currency, FeeSettings, InstrumentType, Position, RebalanceMode, RebalanceTargetMode, RebalanceTargets } from '../types';
+import { Scale } from 'lucide-react';
+import { planRebalance, getRebalanceTargets, saveRebalanceTargets, plannedMonthlySavings, REBALANCE_MODE_LABELS } from '../services/rebalance';
+import { instrumentType, INSTRUMENT_TYPE_LABELS } from '../services/allocation';
+import { formatShares, splitLots } from '../services/lots';
+import { getSecurity } from '../services/securityMaster';
+import { CURRENCY_SYMBOLS } from '../services/currency';
+
+interface RebalancePlannerProps {
+  positions: Record<string, Position>;
+  prices: Record<string, number>; // In the base currency
+  feeSettings: FeeSettings;
+  baseCurrency: Currency;
+  symbolCurrencies: Record<string, Currency>;
+  // Today's rate into the base currency by currency
+  fxRates: Partial<Record<Currency, number>>;
+}
+
+const TARGET_MODE_LABELS: Record<RebalanceTargetMode, string> = {
+  HOLDING: '依個股',
+  ASSET_CLASS: '依資產類別',
+};
+
+const formatMoney = (n: number) => Math.round(n).toLocaleString();
+const formatPercent = (n: number) => `${(n * 100).toFixed(1)}%`;
+// Foreign holdings have no 張, so they are counted in plain shares
+const formatHolding = (shares: number, currency: Currency = 'TWD') =>
+  currency === 'TWD' ? formatShares(shares) : `${shares.toLocaleString()}股`;
+
+const RebalancePlanner: React.FC<RebalancePlannerProps> = ({ positions, prices, feeSettings, baseCurrency, symbolCurrencies, fxRates }) => {
+  const [targets, setTargets] = useState<RebalanceTargets>(getRebalanceTargets);
+  const [mode, setMode] = useState<RebalanceMode>('FULL');
+  const [fullCash, setFullCash] = useState('');
+  // Cash-only rebalancing starts from the monthly savings in the retirement plan, which are in TWD
+  const [savings, setSavings] = useState(() => {
+    const twdRate = fxRates.TWD;
+    return twdRate === undefined ? '' : String(Math.round(plannedMonthlySavings() * twdRate) || '');
+  });
+  const money = CURRENCY_SYMBOLS[baseCurrency];
+
+  const held = useMemo(
+    () => Object.values(positions).filter(p => p.quantity > 0 && prices[p.symbol] > 0),
+    [positions, prices]
+  );
+  const classes = useMemo(() => [...new Set(held.map(p => instrumentType(p.symbol)))], [held]);
+  const totalValue = held.reduce((sum, p) => sum + p.quantity * prices[p.symbol], 0);
+
+  const newCash = Number(mode === 'FULL' ? fullCash : savings) || 0;
+  const plan = useMemo(
+    () => planRebalance(positions, prices, targets, mode, newCash, feeSettings, symbolCurrencies, fxRates),
+    [positions, prices, targets, mode, newCash, feeSettings, symbolCurrencies, fxRates]
+  );
+
+  const updateTargets = (updated: RebalanceTargets) => {
+    setTargets(updated);
+    saveRebalanceTargets(updated);
+  };
+
+  const setTarget = (key: string, value: string) => {
+    const weight = Math.max(Number(value) || 0, 0);
+    updateTargets(targets.mode === 'HOLDING'
+      ? { ...targets, holdings: { ...targets.holdings, [key]: weight } }
+      : { ...targets, classes: { ...targets.classes, [key]: weight } });
+  };
+
+  const fillCurrentWeights = () => {
+    const round = (n: number) => Math.round(n * 1000) / 10;
+    if (targets.mode === 'HOLDING') {
+      updateTargets({ ...targets, holdings: Object.fromEntries(held.map(p => [p.symbol, round(p.quantity * prices[p.symbol] / totalValue)])) });
+    } else {
+      const byClass: Partial<Record<InstrumentType, number>> = {};
+      held.forEach(p => {
+        const type = instrumentType(p.symbol);
+        byClass[type] = (byClass[type] || 0) + p.quantity * prices[p.symbol];
+      });
+      updateTargets({ ...targets, classes: Object.fromEntries(Object.entries(byClass).map(([c, v]) => [c, round(v! / totalValue)])) });
+    }
+  };
+
+  const targetKeys = targets.mode === 'HOLDING' ? held.map(p => p.symbol) : classes;
+  const targetOf = (key: string) =>
+    targets.mode === 'HOLDING' ? targets.holdings[key] : targets.classes[key as InstrumentType];
+  const targetSum = targetKeys.reduce((sum, k) => sum + (targetOf(k) || 0), 0);
+
+  const totals = plan.orders.reduce(
+    (sum, o) => ({ commission: sum.commission + o.costs.commission, tax: sum.tax + o.costs.tax }),
+    { commission: 0, tax: 0 }
+  );
+
+  const inputClass = "p-1.5 border border-slate-300 rounded-md text-sm font-mono focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-5">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center">
+          <Scale className="w-5 h-5 mr-2 text-indigo-600" /> 再平衡規劃
+        </h3>
+        <div className="flex rounded-md border border-slate-300 overflow-hidden text-xs">
+          {(Object.keys(REBALANCE_MODE_LABELS) as RebalanceMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-3 py-1.5 ${mode === m ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+            >
+              {REBALANCE_MODE_LABELS[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {held.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">需要有已分析報價的持股才能規劃再平衡。</p>
+      ) : (
+        <>
+          {/* Targets */}
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+              <span className="font-medium">目標權重</span>
+              <div className="flex rounded-md border border-slate-300 overflow-hidden">
+                {(Object.keys(TARGET_MODE_LABELS) as RebalanceTargetMode[]).map(m => (
+                  <button
+                    key={m}
+                    onClick={() => updateTargets({ ...targets, mode: m })}
+                    className={`px-2 py-1 ${targets.mode === m ? 'bg-slate-700 text-white' : 'bg-white hover:bg-slate-50'}`}
+                  >
+                    {TARGET_MODE_LABELS[m]}
+                  </button>
+                ))}
+              </div>
+              <button onClick={fillCurrentWeights} className="px-2 py-1 bg-slate-100 rounded-md hover:bg-slate-200">
+                以目前權重填入
+              </button>
+              <span className={Math.abs(targetSum - 100) > 0.05 ? 'text-amber-600' : 'text-slate-400'}>
+                合計 {targetSum.toFixed(1)}%{Math.abs(targetSum - 100) > 0.05 && targetSum > 0 ? '，將依比例換算為 100%' : ''}
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-3">
+              {targetKeys.map(key => (
+                <label key={key} className="flex items-center gap-1.5 text-sm text-slate-700">
+                  <span className="font-medium">
+                    {targets.mode === 'HOLDING' ? key : INSTRUMENT_TYPE_LABELS[key as InstrumentType]}
+                  </span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={targetOf(key) ?? ''}
+                    onChange={(e) => setTarget(key, e.target.value)}
+                    className={`${inputClass} w-20`}
+                  />
+                  <span className="text-xs text-slate-400">%</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+            {mode === 'FULL' ? (
+              <>
+                <span>加碼資金 (選填)</span>
+                <input type="number" min="0" value={fullCash} onChange={(e) => setFullCash(e.target.value)} className={`${inputClass} w-32`} />
+              </>
+            ) : (
+              <>
+                <span>本月可投入資金</span>
+                <input type="number" min="0" value={savings} onChange={(e) => setSavings(e.target.value)} className={`${inputClass} w-32`} />
+                <span className="text-xs text-slate-400">預設為退休規劃的每月儲蓄，只買進低於目標的持股</span>
+              </>
+            )}
+          </div>
+
+          {targetSum <= 0 ? (
+            <p className="text-sm text-slate-400 italic">請先設定目標權重。</p>
+          ) : (
+            <>
+              {/* Orders */}
+              {plan.orders.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                  {mode === 'CASH_ONLY' && newCash <= 0 ? '請輸入可投入資金。' : '以目前價格與整股/零股單位，沒有需要調整的交易。'}
+                </p>
+              ) : (
+                <div className="overflow-x-auto border border-slate-200 rounded-lg">
+                  <table className="min-w-full divide-y divide-slate-200 text-sm">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-semibold text-slate-500">代號</th>
+                        <th className="px-3 py-2 text-center text-xs font-semibold text-slate-500">買/賣</th>
+                        <th className="px-3 py-2 text-right text-xs font-semibold text-slate-500">整股 (張)</th>
+                        <th className="px-3 py-2 text-right text-xs font-semibold text-slate-500">零股 (股)</th>
+                        <th className="px-3 py-2 text-right text-xs font-semibold text-slate-500">價格</th>
+                        <th className="px-3 py-2 text-right text-xs font-semibold text-slate-500">成交金額</th>
+                        <th className="px-3 py-2 text-right text-xs font-semibold text-slate-500">手續費</th>
+                        <th className="px-3 py-2 text-right text-xs font-semibold text-slate-500">交易稅</th>
+                        <th className="px-3 py-2 text-right text-xs font-semibold text-slate-500">收付淨額</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {plan.orders.map(o => {
+                        const { lots, odd } = splitLots(o.shares);
+                        const foreign = (symbolCurrencies[o.symbol] || 'TWD') !== 'TWD';
+                        return (
+                          <tr key={`${o.side}-${o.symbol}`}>
+                            <td className="px-3 py-2 font-bold text-slate-800">
+                              {o.symbol} <span className="font-normal text-xs text-slate-500">{getSecurity(o.symbol)?.name}</span>
+                            </td>
+                            <td className={`px-3 py-2 text-center font-bold ${o.side === 'BUY' ? 'text-rose-600' : 'text-emerald-600'}`}>
+                              {o.side === 'BUY' ? '買進' : '賣出'}
+                            </td>
+                            {foreign ? (
+                              <td colSpan={2} className="px-3 py-2 text-right font-mono">{formatHolding(o.shares, symbolCurrencies[o.symbol])}</td>
+                            ) : (
+                              <>
+                                <td className="px-3 py-2 text-right font-mono">{lots || '—'}</td>
+                                <td className="px-3 py-2 text-right font-mono">{odd || '—'}</td>
+                              </>
+                            )}
+                            <td className="px-3 py-2 text-right font-mono">{Math.round(o.price * 100) / 100}</td>
+                            <td className="px-3 py-2 text-right font-mono">{formatMoney(o.costs.gross)}</td>
+                            <td className="px-3 py-2 text-right font-mono">{formatMoney(o.costs.commission)}</td>
+                            <td className="px-3 py-2 text-right font-mono">{o.costs.tax > 0 ? formatMoney(o.costs.tax) : '—'}</td>
+                            <td className="px-3 py-2 text-right font-mono">
+                              {o.side === 'BUY' ? '-' : '+'}{formatMoney(o.costs.net)}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-slate-500">
+                <span>手續費合計 <span className="font-mono text-slate-700">{money}{formatMoney(totals.commission)}</span></span>
+                <span>交易稅合計 <span className="font-mono text-slate-700">{money}{formatMoney(totals.tax)}</span></span>
+                {plan.cashIn > 0 && <span>投入資金 <span className="font-mono text-slate-700">{money}{formatMoney(plan.cashIn)}</span></span>}
+                <span>剩餘現金 <span className="font-mono text-slate-700">{money}{formatMoney(plan.cashLeft)}</span></span>
+                <span>調整後最大偏離 <span className="font-mono text-slate-700">{formatPercent(plan.maxDrift)}</span></span>
+              </div>
+
+              {/* Drift */}
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-xs">
+                  <thead>
+                    <tr className="text-slate-500">
+                      <th className="px-3 py-1 text-left font-semibold">代號</th>
+                      <th className="px-3 py-1 text-right font-semibold">持股</th>
+                      <th className="px-3 py-1 text-right font-semibold">目前</th>
+                      <th className="px-3 py-1 text-right font-semibold">目標</th>
+                      <th className="px-3 py-1 text-right font-semibold">調整後</th>
+                      <th className="px-3 py-1 text-right font-semibold">偏離</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {plan.rows.map(r => {
+                      const drift = r.resultWeight - r.targetWeight;
+                      return (
+                        <tr key={r.symbol}>
+                          <td className="px-3 py-1 font-medium text-slate-700">{r.symbol}</td>
+                          <td className="px-3 py-1 text-right text-slate-500">{formatHolding(Math.round(r.resultValue / r.price), symbolCurrencies[r.symbol])}</td>
+                          <td className="px-3 py-1 text-right font-mono">{formatPercent(r.currentWeight)}</td>
+                          <td className="px-3 py-1 text-right font-mono">{formatPercent(r.targetWeight)}</td>
+                          <td className="px-3 py-1 text-right font-mono">{formatPercent(r.resultWeight)}</td>
+                          <td className={`px-3 py-1 text-right font-mono ${Math.abs(drift) > 0.01 ? 'text-amber-600' : 'text-slate-400'}`}>
+                            {drift > 0 ? '+' : ''}{(drift * 100).toFixed(1)}%
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RebalancePlanner;
@@ -1,19 +1,35 @@
 import React, { useState, useEffect } from 'react';
-import { RetirementPlan, RetirementResult, StockAnalysis } from '../types';
+import { RetirementPlan, RetirementResult, StockAnalysis, FeeSettings, Account, Currency } from '../types';
 import { Calculator, ArrowRight, DollarSign, PiggyBank, Coins, Calculator as CalcIcon, ShieldCheck, Info } from 'lucide-react';
 import { getRetirementAdvice } from '../services/geminiService';
+import { describeLlmError } from '../services/llmErrors';
+import { liquidationCosts } from '../services/tradingCosts';
+import { formatShares } from '../services/lots';
+import { currencyOf, CURRENCY_SYMBOLS } from '../services/currency';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
 
 interface RetirementCalcProps {
   portfolioStocks?: StockAnalysis[];
+  // Share counts summed over the accounts marked includeInRetirement
   stockQuantities?: Record<string, number>;
-  onQuantityChange?: (symbol: string, qty: number) => void;
+  feeSettings?: FeeSettings;
+  accounts?: Account[];
+  onAccountsChange?: (accounts: Account[]) => void;
+  // Holdings are converted into the base currency at today's rates
+  baseCurrency?: Currency;
+  fxRates?: Partial<Record<Currency, number>>;
+  symbolCurrencies?: Record<string, Currency>;
 }
 
 const RetirementCalc: React.FC<RetirementCalcProps> = ({ 
   portfolioStocks = [], 
   stockQuantities = {},
-  onQuantityChange
+  feeSettings,
+  accounts = [],
+  onAccountsChange,
+  baseCurrency = 'TWD',
+  fxRates = { TWD: 1 },
+  symbolCurrencies = {}
 }) => {
   // Initialize from LocalStorage
   const [plan, setPlan] = useState<RetirementPlan>(() => {
@@ -56,11 +72,24 @@ const RetirementCalc: React.FC<RetirementCalcProps> = ({
   const [loadingAdvice, setLoadingAdvice] = useState(false);
   const [showPortfolioCalc, setShowPortfolioCalc] = useState(false);
 
+  // Net liquidation value in the base currency: what selling each holding today would leave after
+  // commission and tax; foreign holdings count at market value. Undefined while the currency has no rate.
+  const netValueOf = (stock: StockAnalysis): number | undefined => {
+    const currency = currencyOf(stock.symbol, symbolCurrencies);
+    const rate = fxRates[currency];
+    if (rate === undefined) return undefined;
+    const quantity = stockQuantities[stock.symbol] || 0;
+    const local = currency === 'TWD'
+      ? liquidationCosts(stock.symbol, stock.currentPrice, quantity, feeSettings).net
+      : stock.currentPrice * quantity;
+    return local * rate;
+  };
+
   // Calculate Total Portfolio Value
-  const portfolioTotalValue = portfolioStocks.reduce((sum, stock) => {
-    const qty = stockQuantities[stock.symbol] || 0;
-    return sum + (stock.currentPrice * qty);
-  }, 0);
+  const portfolioTotalValue = Math.round(portfolioStocks.reduce((sum, stock) => sum + (netValueOf(stock) ?? 0), 0));
+  const unconvertedSymbols = portfolioStocks
+    .filter(s => (stockQuantities[s.symbol] || 0) > 0 && netValueOf(s) === undefined)
+    .map(s => s.symbol);
 
   // Derived values for UI display
   const currentYear = new Date().getFullYear();
@@ -130,9 +159,14 @@ const RetirementCalc: React.FC<RetirementCalcProps> = ({
   const fetchAdvice = async () => {
     if (!result) return;
     setLoadingAdvice(true);
-    const adviceText = await getRetirementAdvice(plan, result);
-    setAdvice(adviceText);
-    setLoadingAdvice(false);
+    try {
+      const adviceText = await getRetirementAdvice(plan, result);
+      setAdvice(adviceText);
+    } catch (e) {
+      setAdvice(describeLlmError(e, "無法產生建議，請稍後再試。"));
+    } finally {
+      setLoadingAdvice(false);
+    }
   };
 
   const handleInputChange = (field: keyof RetirementPlan, value: string) => {
@@ -215,11 +249,11 @@ const RetirementCalc: React.FC<RetirementCalcProps> = ({
                onClick={() => setShowPortfolioCalc(!showPortfolioCalc)}
              >
                 <div className="flex items-center text-xs font-medium text-slate-600">
-                  <Coins className="h-3 w-3 mr-1" /> 持股現值換算
+                  <Coins className="h-3 w-3 mr-1" /> 持股現值換算 (扣除交易成本)
                 </div>
                 <div className="flex items-center">
                    <span className="text-xs font-mono font-medium text-slate-700 mr-2">
-                     + ${portfolioTotalValue.toLocaleString()}
+                     + {CURRENCY_SYMBOLS[baseCurrency]}{portfolioTotalValue.toLocaleString()}
                    </span>
                    <CalcIcon className="h-3 w-3 text-indigo-500" />
                 </div>
@@ -227,32 +261,48 @@ const RetirementCalc: React.FC<RetirementCalcProps> = ({
 
              {showPortfolioCalc && (
                <div className="mt-3 space-y-2 animate-fadeIn">
+                  {accounts.length > 1 && onAccountsChange && (
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-slate-600">
+                      <span className="text-slate-400">計入帳戶：</span>
+                      {accounts.map(account => (
+                        <label key={account.id} className="inline-flex items-center gap-1">
+                          <input
+                            type="checkbox"
+                            checked={account.includeInRetirement}
+                            onChange={(e) => onAccountsChange(accounts.map(a =>
+                              a.id === account.id ? { ...a, includeInRetirement: e.target.checked } : a
+                            ))}
+                            className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                          />
+                          {account.name}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                  {unconvertedSymbols.length > 0 && (
+                    <p className="text-xs text-amber-700">缺少匯率未計入：{unconvertedSymbols.join('、')}</p>
+                  )}
                   {portfolioStocks.length > 0 ? (
                     <div className="max-h-40 overflow-y-auto pr-1 space-y-2">
-                       {portfolioStocks.map(stock => (
+                       {portfolioStocks.map(stock => {
+                         const currency = currencyOf(stock.symbol, symbolCurrencies);
+                         const quantity = stockQuantities[stock.symbol] || 0;
+                         const value = netValueOf(stock);
+                         return (
                          <div key={stock.symbol} className="flex items-center justify-between text-xs bg-white p-2 rounded border border-slate-200">
                             <div>
                                <div className="font-bold">{stock.symbol}</div>
-                               <div className="text-slate-400">${stock.currentPrice}</div>
+                               <div className="text-slate-400">{CURRENCY_SYMBOLS[currency]}{stock.currentPrice}</div>
                             </div>
                             <div className="flex items-center space-x-2">
-                               {onQuantityChange ? (
-                                 <input 
-                                   type="number"
-                                   placeholder="股數"
-                                   value={stockQuantities[stock.symbol] || ''}
-                                   onChange={(e) => onQuantityChange(stock.symbol, Number(e.target.value))}
-                                   className="w-16 border rounded p-1 text-right"
-                                 />
-                               ) : (
-                                 <span className="w-16 text-right font-mono">{stockQuantities[stock.symbol] || 0}</span>
-                               )}
+                               <span className="w-20 text-right font-mono">{currency === 'TWD' ? formatShares(quantity) : `${quantity.toLocaleString()} 股`}</span>
                                <div className="w-16 text-right font-mono text-slate-600">
-                                  ${Math.round(stock.currentPrice * (stockQuantities[stock.symbol] || 0)).toLocaleString()}
+                                  {value === undefined ? '缺匯率' : `${CURRENCY_SYMBOLS[baseCurrency]}${Math.round(value).toLocaleString()}`}
                                </div>
                             </div>
                          </div>
-                       ))}
+                         );
+                       })}
                     </div>
                   ) : (
                     <p className="text-xs text-slate-400 italic text-center py-2">
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { LlmProviderId, LlmSettings } from '../types';
+import { KeyRound, Cpu } from 'lucide-react';
+import {
+  getLlmSettings,
+  saveLlmSettings,
+  getGeminiApiKey,
+  DEFAULT_MODELS,
+  LLM_PROVIDER_LABELS,
+} from '../services/llmProvider';
+
+interface SettingsModalProps {
+  // When false the modal cannot be dismissed until a usable provider is saved
+  dismissible: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const SettingsModal: React.FC<SettingsModalProps> = ({ dismissible, onClose, onSaved }) => {
+  const [settings, setSettings] = useState<LlmSettings>(getLlmSettings);
+  const [apiKeyInput, setApiKeyInput] = useState('');
+  const hasStoredKey = !!localStorage.getItem('gemini_api_key');
+  const hasGeminiKey = !!getGeminiApiKey();
+
+  const canSave = settings.provider !== 'GEMINI' || hasGeminiKey || apiKeyInput.trim() !== '';
+
+  const handleProviderChange = (provider: LlmProviderId) => {
+    // Switch to the new provider's default model unless the user typed a custom one
+    const isDefaultModel = Object.values(DEFAULT_MODELS).includes(settings.model);
+    setSettings(prev => ({ ...prev, provider, model: isDefaultModel ? DEFAULT_MODELS[provider] : prev.model }));
+  };
+
+  const handleSave = () => {
+    if (!canSave) return;
+    if (apiKeyInput.trim()) {
+      localStorage.setItem('gemini_api_key', apiKeyInput.trim());
+    }
+    saveLlmSettings({ ...settings, model: settings.model.trim() || DEFAULT_MODELS[settings.provider] });
+    onSaved();
+  };
+
+  const clearApiKey = () => {
+    if(confirm("確定要清除儲存的 API Key 嗎？下次使用需重新輸入。")) {
+      localStorage.removeItem('gemini_api_key');
+      window.location.reload();
+    }
+  };
+
+  const inputClass = "w-full p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fadeIn">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-4">
+        <div className="flex items-center space-x-3 text-indigo-600">
+          <Cpu className="w-8 h-8" />
+          <h2 className="text-xl font-bold">AI 模型設定</h2>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">AI 提供者</label>
+          <select
+            value={settings.provider}
+            onChange={(e) => handleProviderChange(e.target.value as LlmProviderId)}
+            className={inputClass}
+          >
+            {(Object.keys(LLM_PROVIDER_LABELS) as LlmProviderId[]).map(id => (
+              <option key={id} value={id}>{LLM_PROVIDER_LABELS[id]}</option>
+            ))}
+          </select>
+        </div>
+
+        {settings.provider !== 'FIXTURE' && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">模型名稱</label>
+            <input
+              type="text"
+              value={settings.model}
+              onChange={(e) => setSettings(prev => ({ ...prev, model: e.target.value }))}
+              placeholder={DEFAULT_MODELS[settings.provider]}
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        {settings.provider === 'GEMINI' && (
+          <div className="space-y-2">
+            <p className="text-slate-600 text-sm">
+              為了使用此應用程式的 AI 分析功能，請輸入您的 Google Gemini API Key。
+              <br/>您的金鑰僅會儲存在您的瀏覽器中，不會傳送至其他伺服器。
+            </p>
+            <input
+              type="password"
+              value={apiKeyInput}
+              onChange={(e) => setApiKeyInput(e.target.value)}
+              placeholder={hasGeminiKey ? "已設定金鑰 (留空則不變更)" : "貼上您的 API Key (AIzaSy...)"}
+              className={inputClass}
+            />
+            <div className="flex justify-between text-sm">
+              <a 
+                href="https://aistudio.google.com/app/apikey" 
+                target="_blank" 
+                rel="noreferrer"
+                className="text-indigo-600 hover:underline flex items-center"
+              >
+                <KeyRound className="w-4 h-4 mr-1" /> 取得 Key
+              </a>
+              {hasStoredKey && (
+                <button onClick={clearApiKey} className="text-rose-500 hover:underline">
+                  清除已儲存的金鑰
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {settings.provider === 'OPENAI_COMPATIBLE' && (
+          <div className="space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">API 端點 (Base URL)</label>
+              <input
+                type="text"
+                value={settings.baseUrl}
+                onChange={(e) => setSettings(prev => ({ ...prev, baseUrl: e.target.value }))}
+                className={`${inputClass} font-mono text-sm`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">API Key (選填)</label>
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={(e) => setSettings(prev => ({ ...prev, apiKey: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+            <p className="text-xs text-slate-500">本機模型無法使用 Google Search，分析內容僅依據提供的報價與模型知識，不會附帶資料來源。</p>
+          </div>
+        )}
+
+        {settings.provider === 'FIXTURE' && (
+          <p className="text-sm text-slate-500">離線開發模式：不呼叫任何 AI 服務，固定回傳可重現的測試資料。</p>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-2">
+          {dismissible && (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded-lg"
+            >
+              取消
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 font-medium shadow-sm transition-colors"
+          >
+            開始使用
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsModal;
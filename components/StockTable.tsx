@@ -1,15 +1,30 @@
 import React, { useState, useMemo } from 'react';
-import { StockAnalysis } from '../types';
-import { ChevronDown, ChevronUp, TrendingUp, TrendingDown, Minus, Calculator, Search, Filter, XCircle } from 'lucide-react';
+import { StockAnalysis, Position, FeeSettings, Currency } from '../types';
+import { ChevronDown, ChevronUp, TrendingUp, TrendingDown, Minus, Calculator, Search, Filter, XCircle, Link2, AlertTriangle } from 'lucide-react';
 import AnalysisChart from './AnalysisChart';
+import { PRICE_SOURCE_LABELS } from '../services/marketDataService';
+import { SANITY_WARNING_LABELS } from '../services/sanityChecks';
+import { breakEvenPrice, netLiquidation, getFeeSettings } from '../services/tradingCosts';
+import { formatShares } from '../services/lots';
+import { getAnalysisHistories, latestChanges, describeChange } from '../services/analysisHistory';
+import AnalysisHistory from './AnalysisHistory';
+import { convertHolding, currencyOf, CURRENCY_SYMBOLS } from '../services/currency';
 
 interface StockTableProps {
   stocks: StockAnalysis[];
   loading: boolean;
   title?: string;
   showSummary?: boolean;
-  quantities?: Record<string, number>;
-  onQuantityChange?: (symbol: string, qty: number) => void;
+  // Ledger positions; when given, holding and P&L columns are shown
+  positions?: Record<string, Position>;
+  // Broker fees used for net liquidation value and break-even prices
+  feeSettings?: FeeSettings;
+  // Totals are converted into this currency; positions replayed in it split FX from price P&L
+  baseCurrency?: Currency;
+  basePositions?: Record<string, Position>;
+  // Today's rate into the base currency by currency
+  fxRates?: Partial<Record<Currency, number>>;
+  symbolCurrencies?: Record<string, Currency>;
 }
 
 const StockTable: React.FC<StockTableProps> = ({ 
@@ -17,13 +32,20 @@ const StockTable: React.FC<StockTableProps> = ({
   loading, 
   title, 
   showSummary = true,
-  quantities,
-  onQuantityChange
+  positions,
+  feeSettings = getFeeSettings(),
+  baseCurrency = 'TWD',
+  basePositions,
+  fxRates = { TWD: 1 },
+  symbolCurrencies = {}
 }) => {
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<string>('ALL'); // ALL, BUY, SELL, HOLD
 
+  const formatCachedAt = (iso: string) =>
+    new Date(iso).toLocaleString('zh-TW', { timeZone: 'Asia/Taipei', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: false });
+
   const toggleExpand = (symbol: string) => {
     setExpandedId(expandedId === symbol ? null : symbol);
   };
@@ -40,6 +62,9 @@ const StockTable: React.FC<StockTableProps> = ({
   };
 
   // Filter Logic
+  // Re-read whenever the analyses change; App records each run before they arrive here
+  const histories = useMemo(() => getAnalysisHistories(), [stocks]);
+
   const filteredStocks = useMemo(() => {
     return stocks.filter(stock => {
       const searchLower = searchTerm.toLowerCase();
@@ -53,13 +78,41 @@ const StockTable: React.FC<StockTableProps> = ({
   }, [stocks, searchTerm, filterType]);
 
   // Calculate Grand Total based on FILTERED stocks (so user sees total of what they are looking at)
-  const displayedTotal = useMemo(() => {
-    if (!quantities) return 0;
-    return filteredStocks.reduce((sum, stock) => {
-      const qty = quantities[stock.symbol] || 0;
-      return sum + (stock.currentPrice * qty);
-    }, 0);
-  }, [filteredStocks, quantities]);
+  // In the base currency; holdings whose currency has no rate yet are listed instead of counted
+  const displayedTotals = useMemo(() => {
+    const totals = { marketValue: 0, netValue: 0, unrealizedPnl: 0, fxPnl: 0, realizedPnl: 0, hasForeign: false, unconverted: [] as string[] };
+    if (!positions) return totals;
+    filteredStocks.forEach(stock => {
+      const position = positions[stock.symbol];
+      if (!position) return;
+      const currency = currencyOf(stock.symbol, symbolCurrencies);
+      const rate = fxRates[currency];
+      if (rate === undefined) {
+        totals.unconverted.push(stock.symbol);
+        return;
+      }
+      const converted = convertHolding(position, basePositions?.[stock.symbol], stock.currentPrice, rate);
+      totals.marketValue += converted.marketValue;
+      // Taiwan commission and tax only apply at home; foreign holdings count at market value
+      totals.netValue += currency === 'TWD'
+        ? netLiquidation(position, stock.currentPrice, feeSettings).net * rate
+        : converted.marketValue;
+      totals.unrealizedPnl += converted.pricePnl + converted.fxPnl;
+      totals.fxPnl += converted.fxPnl;
+      totals.realizedPnl += basePositions?.[stock.symbol]?.realizedPnl ?? position.realizedPnl * rate;
+      if (currency !== 'TWD') totals.hasForeign = true;
+    });
+    return totals;
+  }, [filteredStocks, positions, feeSettings, basePositions, fxRates, symbolCurrencies]);
+
+  const columnCount = positions ? 12 : 7;
+
+  const formatMoney = (n: number) => Math.round(n).toLocaleString();
+
+  // Taiwan convention: gains in red, losses in green
+  const pnlClass = (n: number) => (n > 0 ? 'text-rose-600' : n < 0 ? 'text-emerald-600' : 'text-slate-500');
+
+  const formatPnl = (n: number) => `${n > 0 ? '+' : ''}${formatMoney(n)}`;
 
   if (loading) {
     return (
@@ -176,11 +229,14 @@ const StockTable: React.FC<StockTableProps> = ({
               <tr>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">標的</th>
                 <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider">現價</th>
-                {onQuantityChange && (
-                   <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider bg-indigo-50/50">持有股數</th>
-                )}
-                {onQuantityChange && (
-                   <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider bg-indigo-50/50">試算總值</th>
+                {positions && (
+                  <>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider bg-indigo-50/50">持有股數</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider bg-indigo-50/50">平均成本</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider bg-indigo-50/50">市值</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider bg-indigo-50/50">未實現損益</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider bg-indigo-50/50">已實現損益</th>
+                  </>
                 )}
                 <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider hidden lg:table-cell">52週高/低</th>
                 <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider text-emerald-600 hidden sm:table-cell">建議買入</th>
@@ -194,24 +250,30 @@ const StockTable: React.FC<StockTableProps> = ({
             <tbody className="bg-white divide-y divide-slate-200">
               {filteredStocks.length === 0 ? (
                 <tr>
-                  <td colSpan={onQuantityChange ? 10 : 8} className="px-6 py-10 text-center text-slate-500 italic">
+                  <td colSpan={columnCount} className="px-6 py-10 text-center text-slate-500 italic">
                     沒有符合篩選條件的股票
                   </td>
                 </tr>
               ) : (
                 filteredStocks.map((stock) => {
-                  const qty = quantities ? (quantities[stock.symbol] || 0) : 0;
+                  const position = positions?.[stock.symbol];
+                  const qty = position?.quantity || 0;
                   const totalVal = stock.currentPrice * qty;
+                  const unrealized = position && qty > 0 ? totalVal - position.costBasis : 0;
+                  // Row figures stay in the trading currency; foreign rows add the base value and the FX part
+                  const currency = currencyOf(stock.symbol, symbolCurrencies);
+                  const isForeign = currency !== 'TWD';
+                  const rate = fxRates[currency];
+                  const converted = isForeign && position && qty > 0 && rate !== undefined
+                    ? convertHolding(position, basePositions?.[stock.symbol], stock.currentPrice, rate)
+                    : null;
+                  const liquidation = !isForeign && position && qty > 0 ? netLiquidation(position, stock.currentPrice, feeSettings) : null;
+                  const atTarget = !isForeign && position && qty > 0 ? netLiquidation(position, stock.suggestSellPrice, feeSettings) : null;
 
                   return (
                   <React.Fragment key={stock.symbol}>
                     <tr 
-                      onClick={(e) => {
-                        // Prevent expand when clicking input
-                        if ((e.target as HTMLElement).tagName !== 'INPUT') {
-                          toggleExpand(stock.symbol);
-                        }
-                      }}
+                      onClick={() => toggleExpand(stock.symbol)}
                       className={`hover:bg-slate-50 transition-colors cursor-pointer ${expandedId === stock.symbol ? 'bg-slate-50' : ''}`}
                     >
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -219,36 +281,87 @@ const StockTable: React.FC<StockTableProps> = ({
                           <div>
                             <div className="text-sm font-bold text-slate-900">{stock.symbol}</div>
                             <div className="text-xs text-slate-500">{stock.name}</div>
+                            {stock.cachedAt && (
+                              <div className="text-[10px] text-slate-400">分析於 {formatCachedAt(stock.cachedAt)}</div>
+                            )}
+                            {latestChanges(histories[stock.symbol] || []).length > 0 && (
+                              <span
+                                title={latestChanges(histories[stock.symbol]).map(describeChange).join('\n')}
+                                className="inline-block mt-0.5 px-1.5 py-0.5 rounded text-[10px] font-medium bg-indigo-50 text-indigo-700"
+                              >
+                                較上次有變更
+                              </span>
+                            )}
+                            {stock.warnings && stock.warnings.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {stock.warnings.map(w => (
+                                  <span
+                                    key={w.code}
+                                    title={w.message}
+                                    className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-100 text-amber-800"
+                                  >
+                                    <AlertTriangle className="w-3 h-3 mr-0.5" /> {SANITY_WARNING_LABELS[w.code]}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
                           </div>
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-bold text-slate-800 font-mono">
                         {stock.currentPrice}
+                        {isForeign && <span className="ml-1 text-[10px] font-normal text-slate-400 font-sans">{currency}</span>}
+                        {stock.priceSource && (
+                          <div className="text-[10px] font-normal text-slate-400 font-sans" title={stock.priceAsOf ? `資料日期 ${stock.priceAsOf}` : undefined}>
+                            {PRICE_SOURCE_LABELS[stock.priceSource]}
+                          </div>
+                        )}
                       </td>
 
-                      {/* Quantity Input */}
-                      {onQuantityChange && (
-                        <td className="px-6 py-4 whitespace-nowrap text-right bg-indigo-50/20">
-                          <input 
-                            type="number" 
-                            min="0"
-                            placeholder="0"
-                            value={qty || ''} 
-                            onChange={(e) => onQuantityChange(stock.symbol, Number(e.target.value))}
-                            onClick={(e) => e.stopPropagation()}
-                            className="w-20 text-right p-1 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono"
-                          />
-                        </td>
-                      )}
-                      {/* Total Value */}
-                      {onQuantityChange && (
-                        <td className="px-6 py-4 whitespace-nowrap text-right font-mono text-sm font-medium text-slate-700 bg-indigo-50/20">
-                          {totalVal > 0 ? totalVal.toLocaleString() : '-'}
-                        </td>
+                      {/* Holding and P&L from the transaction ledger */}
+                      {positions && (
+                        <>
+                          <td className="px-6 py-4 whitespace-nowrap text-right font-mono text-sm text-slate-700 bg-indigo-50/20">
+                            {qty > 0 ? formatShares(qty) : '-'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right font-mono text-sm text-slate-700 bg-indigo-50/20">
+                            {qty > 0 ? position!.averageCost.toFixed(2) : '-'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right font-mono text-sm font-medium text-slate-700 bg-indigo-50/20">
+                            {totalVal > 0 ? formatMoney(totalVal) : '-'}
+                            {liquidation && (
+                              <div className="text-[10px] font-normal text-slate-400" title="扣除手續費與證交稅後的實得金額">
+                                淨 {formatMoney(liquidation.net)}
+                              </div>
+                            )}
+                            {converted && (
+                              <div className="text-[10px] font-normal text-slate-400" title={`以今日匯率換算為 ${baseCurrency}`}>
+                                ≈ {CURRENCY_SYMBOLS[baseCurrency]}{formatMoney(converted.marketValue)}
+                              </div>
+                            )}
+                            {isForeign && qty > 0 && rate === undefined && (
+                              <div className="text-[10px] font-normal text-amber-600">缺少 {currency} 匯率</div>
+                            )}
+                          </td>
+                          <td className={`px-6 py-4 whitespace-nowrap text-right font-mono text-sm font-medium bg-indigo-50/20 ${pnlClass(unrealized)}`}>
+                            {qty > 0 ? formatPnl(unrealized) : '-'}
+                            {qty > 0 && position!.costBasis > 0 && (
+                              <div className="text-[10px] font-normal">{(unrealized / position!.costBasis * 100).toFixed(2)}%</div>
+                            )}
+                            {converted && (
+                              <div className={`text-[10px] font-normal ${pnlClass(converted.fxPnl)}`} title={`買進以來匯率變動造成的損益 (${baseCurrency})`}>
+                                匯差 {formatPnl(converted.fxPnl)}
+                              </div>
+                            )}
+                          </td>
+                          <td className={`px-6 py-4 whitespace-nowrap text-right font-mono text-sm bg-indigo-50/20 ${pnlClass(position?.realizedPnl || 0)}`}>
+                            {position?.realizedPnl ? formatPnl(position.realizedPnl) : '-'}
+                          </td>
+                        </>
                       )}
 
                       <td className="px-6 py-4 whitespace-nowrap text-right text-xs text-slate-500 font-mono hidden lg:table-cell">
-                        <span className="text-rose-600">{stock.high52Week}</span> / <span className="text-emerald-600">{stock.low52Week}</span>
+                        <span className="text-rose-600">{stock.high52Week ?? '—'}</span> / <span className="text-emerald-600">{stock.low52Week ?? '—'}</span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-bold text-emerald-600 font-mono hidden sm:table-cell">
                         {stock.suggestBuyPrice}
@@ -271,7 +384,7 @@ const StockTable: React.FC<StockTableProps> = ({
                     {/* Expanded Row */}
                     {expandedId === stock.symbol && (
                       <tr>
-                        <td colSpan={onQuantityChange ? 10 : 8} className="px-0 py-0 border-b border-slate-200 bg-slate-50/50">
+                        <td colSpan={columnCount} className="px-0 py-0 border-b border-slate-200 bg-slate-50/50">
                           <div className="p-6 grid grid-cols-1 lg:grid-cols-3 gap-8 animate-fadeIn">
                             {/* Left: Chart */}
                             <div className="lg:col-span-1">
@@ -284,15 +397,56 @@ const StockTable: React.FC<StockTableProps> = ({
                               <div className="sm:hidden grid grid-cols-2 gap-2 text-sm bg-white p-3 rounded border border-slate-200">
                                   <div className="flex justify-between"><span>買入目標:</span> <span className="font-mono font-bold text-emerald-600">{stock.suggestBuyPrice}</span></div>
                                   <div className="flex justify-between"><span>賣出目標:</span> <span className="font-mono font-bold text-rose-600">{stock.suggestSellPrice}</span></div>
-                                  <div className="flex justify-between col-span-2 border-t pt-2 mt-1"><span>52W 高/低:</span> <span className="font-mono">{stock.high52Week} / {stock.low52Week}</span></div>
+                                  <div className="flex justify-between col-span-2 border-t pt-2 mt-1"><span>52W 高/低:</span> <span className="font-mono">{stock.high52Week ?? '—'} / {stock.low52Week ?? '—'}</span></div>
                               </div>
 
+                              {stock.warnings && stock.warnings.length > 0 && (
+                                <ul className="bg-amber-50 p-3 rounded-lg border border-amber-200 space-y-1">
+                                  {stock.warnings.map(w => (
+                                    <li key={w.code} className="text-xs text-amber-800 flex items-start">
+                                      <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" /> {w.message}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+
+                              {liquidation && atTarget && position && (
+                                <div>
+                                  <h4 className="text-sm font-bold text-slate-900 uppercase tracking-wide mb-2">交易成本試算</h4>
+                                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-xs">
+                                    <div className="bg-white p-3 rounded-lg border border-slate-200">
+                                      <div className="text-slate-500">損益兩平價</div>
+                                      <div className="font-mono font-bold text-base text-slate-800">{breakEvenPrice(position, feeSettings)}</div>
+                                      <div className="text-slate-400">含買進成本、賣出手續費與證交稅</div>
+                                    </div>
+                                    <div className="bg-white p-3 rounded-lg border border-slate-200">
+                                      <div className="text-slate-500">以現價全部賣出</div>
+                                      <div className="font-mono font-bold text-base text-slate-800">${formatMoney(liquidation.net)}</div>
+                                      <div className="text-slate-400">
+                                        手續費 {formatMoney(liquidation.commission)}・稅 {formatMoney(liquidation.tax)}・
+                                        <span className={pnlClass(liquidation.profit)}>淨損益 {formatPnl(liquidation.profit)}</span>
+                                      </div>
+                                    </div>
+                                    <div className="bg-white p-3 rounded-lg border border-slate-200">
+                                      <div className="text-slate-500">達建議賣出價 {stock.suggestSellPrice} 時</div>
+                                      <div className="font-mono font-bold text-base text-slate-800">${formatMoney(atTarget.net)}</div>
+                                      <div className="text-slate-400">
+                                        手續費 {formatMoney(atTarget.commission)}・稅 {formatMoney(atTarget.tax)}・
+                                        <span className={pnlClass(atTarget.profit)}>淨損益 {formatPnl(atTarget.profit)}</span>
+                                      </div>
+                                    </div>
+                                  </div>
+                                </div>
+                              )}
+
                               <div>
                                 <h4 className="text-sm font-bold text-slate-900 uppercase tracking-wide mb-2">專業分析觀點</h4>
                                 <p className="text-slate-700 leading-relaxed text-sm bg-white p-4 rounded-lg border border-slate-200">
                                   {stock.analysis}
                                 </p>
                               </div>
+
+                              <AnalysisHistory history={histories[stock.symbol] || []} />
                               
                               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                                 <div className="bg-blue-50 p-4 rounded-lg border border-blue-100">
@@ -306,6 +460,34 @@ const StockTable: React.FC<StockTableProps> = ({
                                   </p>
                                 </div>
                               </div>
+
+                              <div>
+                                <h4 className="text-sm font-bold text-slate-900 uppercase tracking-wide mb-2 flex items-center">
+                                  <Link2 className="w-4 h-4 mr-1" /> 資料來源
+                                </h4>
+                                {stock.sources && stock.sources.length > 0 ? (
+                                  <ul className="bg-white p-3 rounded-lg border border-slate-200 space-y-1.5">
+                                    {stock.sources.map(source => (
+                                      <li key={source.uri} className="text-xs flex justify-between gap-3">
+                                        <a
+                                          href={source.uri}
+                                          target="_blank"
+                                          rel="noreferrer"
+                                          className="text-indigo-600 hover:underline truncate"
+                                          title={source.uri}
+                                        >
+                                          {source.title}
+                                        </a>
+                                        <span className="text-slate-400 whitespace-nowrap">
+                                          {source.domain && `${source.domain} · `}擷取於 {formatCachedAt(source.retrievedAt)}
+                                        </span>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                ) : (
+                                  <p className="text-xs text-slate-400 italic">此筆分析沒有附帶搜尋來源</p>
+                                )}
+                              </div>
                             </div>
                           </div>
                         </td>
@@ -316,15 +498,35 @@ const StockTable: React.FC<StockTableProps> = ({
               )}
 
               {/* Grand Total Row */}
-              {onQuantityChange && filteredStocks.length > 0 && (
+              {positions && filteredStocks.length > 0 && (
                 <tr className="bg-indigo-50 border-t-2 border-indigo-100">
-                  <td colSpan={3} className="px-6 py-4 text-right font-bold text-indigo-900">
-                    {filterType !== 'ALL' || searchTerm ? '目前列表總市值' : '投資組合總市值'}
+                  <td colSpan={4} className="px-6 py-4 text-right font-bold text-indigo-900">
+                    {filterType !== 'ALL' || searchTerm ? '目前列表合計' : '投資組合合計'}
+                    {(displayedTotals.hasForeign || baseCurrency !== 'TWD') && (
+                      <span className="ml-1 text-xs font-normal text-indigo-700">({baseCurrency})</span>
+                    )}
+                    {displayedTotals.unconverted.length > 0 && (
+                      <div className="text-xs font-normal text-amber-700">缺少匯率未計入：{displayedTotals.unconverted.join('、')}</div>
+                    )}
                   </td>
                   <td className="px-6 py-4 text-right font-mono text-lg font-bold text-indigo-700">
-                    ${displayedTotal.toLocaleString()}
+                    {CURRENCY_SYMBOLS[baseCurrency]}{formatMoney(displayedTotals.marketValue)}
+                    <div className="text-xs font-normal text-slate-500">淨 {CURRENCY_SYMBOLS[baseCurrency]}{formatMoney(displayedTotals.netValue)}</div>
+                  </td>
+                  <td className={`px-6 py-4 text-right font-mono font-bold ${pnlClass(displayedTotals.unrealizedPnl)}`}>
+                    {formatPnl(displayedTotals.unrealizedPnl)}
+                    {displayedTotals.hasForeign && (
+                      <div className="text-xs font-normal">
+                        <span className={pnlClass(displayedTotals.unrealizedPnl - displayedTotals.fxPnl)}>價差 {formatPnl(displayedTotals.unrealizedPnl - displayedTotals.fxPnl)}</span>
+                        <span className="text-slate-400"> / </span>
+                        <span className={pnlClass(displayedTotals.fxPnl)}>匯差 {formatPnl(displayedTotals.fxPnl)}</span>
+                      </div>
+                    )}
+                  </td>
+                  <td className={`px-6 py-4 text-right font-mono font-bold ${pnlClass(displayedTotals.realizedPnl)}`}>
+                    {formatPnl(displayedTotals.realizedPnl)}
                   </td>
-                  <td colSpan={6} className="hidden lg:table-cell"></td>
+                  <td colSpan={5} className="hidden lg:table-cell"></td>
                 </tr>
               )}
             </tbody>
@@ -0,0 +1,125 @@
+import React, { useState, useMemo } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { searchSecurities, getSecurityCount, getSecurityMasterDate, updateSecurityMaster } from '../services/securityMaster';
+
+interface SymbolInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+}
+
+// Comma / space separated symbol input that autocompletes the last token against the security master
+const SymbolInput: React.FC<SymbolInputProps> = ({ value, onChange, onSubmit }) => {
+  const [open, setOpen] = useState(false);
+  const [highlight, setHighlight] = useState(-1);
+  const [updating, setUpdating] = useState(false);
+  const [masterInfo, setMasterInfo] = useState(() => ({ count: getSecurityCount(), date: getSecurityMasterDate() }));
+  const [updateError, setUpdateError] = useState<string | null>(null);
+
+  const lastToken = value.split(/[, ]+/).pop() || '';
+  const suggestions = useMemo(() => searchSecurities(lastToken), [lastToken, masterInfo]);
+
+  const applySuggestion = (code: string) => {
+    const head = value.slice(0, value.length - lastToken.length);
+    onChange(`${head}${code}, `);
+    setHighlight(-1);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (open && suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setHighlight(h => (h + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setHighlight(h => (h <= 0 ? suggestions.length - 1 : h - 1));
+        return;
+      }
+      if (e.key === 'Enter' && highlight >= 0) {
+        e.preventDefault();
+        applySuggestion(suggestions[highlight].code);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setOpen(false);
+        return;
+      }
+    }
+    if (e.key === 'Enter') {
+      setOpen(false);
+      onSubmit();
+    }
+  };
+
+  const handleUpdateMaster = async () => {
+    setUpdating(true);
+    setUpdateError(null);
+    try {
+      await updateSecurityMaster();
+      setMasterInfo({ count: getSecurityCount(), date: getSecurityMasterDate() });
+    } catch {
+      setUpdateError('證券清單更新失敗，繼續使用內建清單');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  return (
+    <div className="flex-grow">
+      <div className="relative">
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setOpen(true);
+            setHighlight(-1);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setTimeout(() => setOpen(false), 150)}
+          placeholder="例如: 2330, 0050, 2834, 3042 或輸入名稱"
+          className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none uppercase"
+        />
+        {open && suggestions.length > 0 && (
+          <ul className="absolute z-20 mt-1 w-full bg-white border border-slate-200 rounded-lg shadow-lg max-h-64 overflow-y-auto">
+            {suggestions.map((s, i) => (
+              <li
+                key={s.code}
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  applySuggestion(s.code);
+                }}
+                className={`px-3 py-2 text-sm cursor-pointer flex justify-between ${i === highlight ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+              >
+                <span>
+                  <span className="font-mono font-bold text-slate-800">{s.code}</span>
+                  <span className="ml-2 text-slate-700">{s.name}</span>
+                </span>
+                <span className="text-xs text-slate-400">
+                  {s.market === 'TWSE' ? '上市' : '上櫃'} · {s.industry}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="mt-1 text-[11px] text-slate-400 flex items-center gap-2">
+        <span>證券清單 {masterInfo.count} 檔 (資料日期 {masterInfo.date})</span>
+        <button
+          onClick={handleUpdateMaster}
+          disabled={updating}
+          className="text-indigo-500 hover:text-indigo-700 flex items-center disabled:opacity-50"
+        >
+          <RefreshCw className={`w-3 h-3 mr-0.5 ${updating ? 'animate-spin' : ''}`} /> 更新
+        </button>
+        {updateError && <span className="text-rose-500">{updateError}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default SymbolInput;
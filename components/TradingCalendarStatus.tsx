@@ -0,0 +1,78 @@
+import React, { useState, useRef } from 'react';
+import { CalendarDays, Upload, RefreshCw } from 'lucide-react';
+import { getMarketSession } from '../services/marketSession';
+import { nextOpen, importHolidaysCsv, updateHolidaysFromTwse } from '../services/tradingCalendar';
+
+const SESSION_LABELS = {
+  PRE_OPEN: '盤前',
+  INTRADAY: '盤中',
+  POST_CLOSE: '已收盤',
+  CLOSED: '休市',
+};
+
+// One-line market status with actions to refresh the holiday list
+const TradingCalendarStatus: React.FC = () => {
+  const [, setVersion] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const info = getMarketSession();
+  const open = nextOpen();
+  const openLabel = open.toLocaleString('zh-TW', { timeZone: 'Asia/Taipei', month: '2-digit', day: '2-digit', weekday: 'short', hour: '2-digit', minute: '2-digit', hour12: false });
+
+  const handleUpdate = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const count = await updateHolidaysFromTwse();
+      setMessage(`已更新 ${count} 筆休市日`);
+      setVersion(v => v + 1);
+    } catch {
+      setMessage('休市日更新失敗，可改用 CSV 匯入');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setMessage(null);
+    try {
+      const count = importHolidaysCsv(await file.text());
+      setMessage(`已匯入 ${count} 筆休市日`);
+      setVersion(v => v + 1);
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'CSV 匯入失敗');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-500">
+      <span className="flex items-center">
+        <CalendarDays className="w-3 h-3 mr-1" />
+        {SESSION_LABELS[info.session]}
+        {info.closureName && ` (${info.closureName})`}
+      </span>
+      <span>最近交易日 {info.tradingDate}</span>
+      {info.session !== 'INTRADAY' && <span>下次開盤 {openLabel}</span>}
+      <button onClick={handleUpdate} disabled={busy} className="text-indigo-500 hover:text-indigo-700 flex items-center disabled:opacity-50">
+        <RefreshCw className={`w-3 h-3 mr-0.5 ${busy ? 'animate-spin' : ''}`} /> 更新休市日
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,text/csv"
+        className="hidden"
+        onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+      />
+      <button onClick={() => fileInputRef.current?.click()} className="text-indigo-500 hover:text-indigo-700 flex items-center">
+        <Upload className="w-3 h-3 mr-0.5" /> 匯入休市日 CSV
+      </button>
+      {message && <span className="text-slate-400">{message}</span>}
+    </div>
+  );
+};
+
+export default TradingCalendarStatus;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { FeeSettings } from '../types';
+import { Receipt } from 'lucide-react';
+import { saveFeeSettings, COMMISSION_RATE } from '../services/tradingCosts';
+
+interface TradingCostSettingsProps {
+  settings: FeeSettings;
+  onChange: (settings: FeeSettings) => void;
+}
+
+// Discounts are quoted in 折 (6折 = 60% of the list commission), so the input works in 折
+const TradingCostSettings: React.FC<TradingCostSettingsProps> = ({ settings, onChange }) => {
+  const [discountInput, setDiscountInput] = useState(String(+(settings.commissionDiscount * 10).toFixed(2)));
+  const [minInput, setMinInput] = useState(String(settings.minCommission));
+  const [oddMinInput, setOddMinInput] = useState(String(settings.oddLotMinCommission));
+
+  const commit = () => {
+    const discount = Number(discountInput);
+    const minimum = Number(minInput);
+    const oddMinimum = Number(oddMinInput);
+    const updated: FeeSettings = {
+      commissionDiscount: discount > 0 && discount <= 10 ? discount / 10 : settings.commissionDiscount,
+      minCommission: minInput !== '' && minimum >= 0 ? minimum : settings.minCommission,
+      oddLotMinCommission: oddMinInput !== '' && oddMinimum >= 0 ? oddMinimum : settings.oddLotMinCommission,
+    };
+    setDiscountInput(String(+(updated.commissionDiscount * 10).toFixed(2)));
+    setMinInput(String(updated.minCommission));
+    setOddMinInput(String(updated.oddLotMinCommission));
+    saveFeeSettings(updated);
+    onChange(updated);
+  };
+
+  const inputClass = "p-1.5 border border-slate-300 rounded-md text-xs font-mono w-16 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-2 text-xs text-slate-600">
+      <div className="flex items-center font-medium">
+        <Receipt className="w-3 h-3 mr-1" /> 交易成本
+      </div>
+      <label className="flex items-center gap-1">
+        手續費折數
+        <input
+          type="number"
+          min="0.1"
+          max="10"
+          step="0.1"
+          value={discountInput}
+          onChange={(e) => setDiscountInput(e.target.value)}
+          onBlur={commit}
+          className={inputClass}
+        />
+        折
+      </label>
+      <label className="flex items-center gap-1">
+        最低手續費
+        <input
+          type="number"
+          min="0"
+          value={minInput}
+          onChange={(e) => setMinInput(e.target.value)}
+          onBlur={commit}
+          className={inputClass}
+        />
+        元
+      </label>
+      <label className="flex items-center gap-1">
+        零股最低
+        <input
+          type="number"
+          min="0"
+          value={oddMinInput}
+          onChange={(e) => setOddMinInput(e.target.value)}
+          onBlur={commit}
+          className={inputClass}
+        />
+        元
+      </label>
+      <span className="text-slate-400">
+        實際費率 {(COMMISSION_RATE * settings.commissionDiscount * 100).toFixed(4)}%・證交稅 股票 0.3% / ETF 0.1% / 當沖 0.15%
+      </span>
+    </div>
+  );
+};
+
+export default TradingCostSettings;
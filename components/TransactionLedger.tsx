@@ -0,0 +1,352 @@
+import React, { useState, useMemo } from 'react';
+import { Transaction, TransactionType, CostBasisMethod, Position, DividendEvent, Account, Currency } from '../types';
+import { BookOpen, Plus, Trash2, FileUp } from 'lucide-react';
+import {
+  addTransaction,
+  removeTransaction,
+  sortTransactions,
+  newTransactionId,
+  computePortfolioTotals,
+  TRANSACTION_TYPE_LABELS,
+  COST_BASIS_LABELS,
+} from '../services/ledger';
+import { taipeiDate } from '../services/tradingCalendar';
+import { buyCosts, sellCosts } from '../services/tradingCosts';
+import { formatShares, toShares } from '../services/lots';
+import { ALL_ACCOUNTS, DEFAULT_ACCOUNT_ID, accountOf, transactionsForScope } from '../services/accounts';
+import { currencyOf, CURRENCY_SYMBOLS } from '../services/currency';
+
+interface TransactionLedgerProps {
+  // Every account's transactions; the table shows those of activeAccountId
+  transactions: Transaction[];
+  onTransactionsChange: (transactions: Transaction[]) => void;
+  accounts: Account[];
+  activeAccountId: string;
+  // Stock dividends add shares that can be sold
+  dividends: DividendEvent[];
+  symbols: string[];
+  // Positions and prices in the base currency, for the totals
+  positions: Record<string, Position>;
+  prices: Record<string, number>;
+  baseCurrency?: Currency;
+  // Foreign symbols trade in shares at their own currency, with an optional broker FX rate
+  symbolCurrencies?: Record<string, Currency>;
+  costMethod: CostBasisMethod;
+  onCostMethodChange: (method: CostBasisMethod) => void;
+  // Opens the broker CSV import wizard
+  onImportClick?: () => void;
+}
+
+const emptyForm = () => ({
+  symbol: '',
+  type: 'BUY' as TransactionType,
+  date: taipeiDate(),
+  // 張 for board-lot trades, shares for odd-lot trades, new shares per share for splits
+  quantity: '',
+  oddLot: false,
+  price: '',
+  fee: '',
+  fxRate: '',
+  note: '',
+});
+
+const TransactionLedger: React.FC<TransactionLedgerProps> = ({
+  transactions,
+  onTransactionsChange,
+  accounts,
+  activeAccountId,
+  dividends,
+  symbols,
+  positions,
+  prices,
+  baseCurrency = 'TWD',
+  symbolCurrencies = {},
+  costMethod,
+  onCostMethodChange,
+  onImportClick,
+}) => {
+  const [form, setForm] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  // Target account for new trades when the consolidated view is shown
+  const [targetAccountId, setTargetAccountId] = useState(DEFAULT_ACCOUNT_ID);
+  const isConsolidated = activeAccountId === ALL_ACCOUNTS;
+  const accountId = isConsolidated ? targetAccountId : activeAccountId;
+  const accountNames = useMemo(() => Object.fromEntries(accounts.map(a => [a.id, a.name])), [accounts]);
+
+  const scoped = useMemo(() => transactionsForScope(transactions, activeAccountId), [transactions, activeAccountId]);
+  const totals = useMemo(() => computePortfolioTotals(positions, prices), [positions, prices]);
+  // Newest first for display
+  const rows = useMemo(() => sortTransactions(scoped).reverse(), [scoped]);
+  const symbolOptions = useMemo(
+    () => [...new Set([...symbols, ...scoped.map(t => t.symbol)])],
+    [symbols, scoped]
+  );
+
+  const formCurrency = currencyOf(form.symbol, symbolCurrencies);
+  const isForeign = formCurrency !== 'TWD';
+
+  const handleAdd = () => {
+    setFormError(null);
+    const isSplit = form.type === 'SPLIT';
+    const oddLot = !isSplit && !isForeign && form.oddLot;
+    const quantity = isSplit || oddLot || isForeign ? Number(form.quantity) : toShares(Number(form.quantity), 0);
+    const price = isSplit ? 0 : Number(form.price);
+    // A blank fee is filled in with the broker commission (and tax on sells) from the cost settings
+    const estimateFee = (): number => {
+      // Foreign brokers charge by their own schedules
+      if (isForeign) return 0;
+      if (form.type === 'BUY') return buyCosts(price, quantity, undefined, { oddLot }).commission;
+      if (form.type === 'SELL') {
+        const costs = sellCosts(form.symbol, price, quantity, undefined, { date: form.date, oddLot });
+        return costs.commission + costs.tax;
+      }
+      return 0;
+    };
+    const tx: Transaction = {
+      id: newTransactionId(),
+      symbol: form.symbol,
+      type: form.type,
+      date: form.date,
+      quantity,
+      price,
+      fee: isSplit ? 0 : form.fee === '' ? estimateFee() : Number(form.fee),
+      ...(accountId !== DEFAULT_ACCOUNT_ID ? { accountId } : {}),
+      ...(oddLot ? { oddLot: true } : {}),
+      ...(isForeign && !isSplit && form.fxRate !== '' ? { fxRate: Number(form.fxRate) } : {}),
+      ...(form.note.trim() ? { note: form.note.trim() } : {}),
+    };
+    try {
+      onTransactionsChange(addTransaction(transactions, tx, dividends));
+      setForm(prev => ({ ...emptyForm(), symbol: prev.symbol, type: prev.type, oddLot: prev.oddLot }));
+    } catch (e) {
+      setFormError(e instanceof Error ? e.message : '無法新增交易');
+    }
+  };
+
+  const handleRemove = (tx: Transaction) => {
+    if (confirm(`確定要刪除 ${tx.date} ${tx.symbol} ${TRANSACTION_TYPE_LABELS[tx.type]} 這筆交易嗎？`)) {
+      onTransactionsChange(removeTransaction(transactions, tx.id));
+    }
+  };
+
+  const pnlClass = (n: number) => (n > 0 ? 'text-rose-600' : n < 0 ? 'text-emerald-600' : 'text-slate-700');
+  const formatMoney = (n: number) => Math.round(n).toLocaleString();
+  const inputClass = "p-2 border border-slate-300 rounded-md text-sm focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-5">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center">
+          <BookOpen className="w-5 h-5 mr-2 text-indigo-600" /> 交易紀錄
+        </h3>
+        <div className="flex items-center gap-3">
+          {onImportClick && (
+            <button
+              onClick={onImportClick}
+              className="px-2 py-1.5 bg-slate-100 rounded-md hover:bg-slate-200 flex items-center text-xs text-slate-600"
+            >
+              <FileUp className="w-3 h-3 mr-1" /> 匯入券商 CSV
+            </button>
+          )}
+          <label className="flex items-center gap-2 text-xs text-slate-600">
+            成本計算
+            <select
+              value={costMethod}
+              onChange={(e) => onCostMethodChange(e.target.value as CostBasisMethod)}
+              className="p-1.5 border border-slate-300 rounded-md text-xs focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              {(Object.keys(COST_BASIS_LABELS) as CostBasisMethod[]).map(m => (
+                <option key={m} value={m}>{COST_BASIS_LABELS[m]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {/* Portfolio totals */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="bg-slate-50 rounded-lg p-3 border border-slate-100">
+          <div className="text-xs text-slate-500">持有成本</div>
+          <div className="font-mono font-bold text-slate-800">{CURRENCY_SYMBOLS[baseCurrency]}{formatMoney(totals.costBasis)}</div>
+        </div>
+        <div className="bg-slate-50 rounded-lg p-3 border border-slate-100">
+          <div className="text-xs text-slate-500">目前市值</div>
+          <div className="font-mono font-bold text-slate-800">{CURRENCY_SYMBOLS[baseCurrency]}{formatMoney(totals.marketValue)}</div>
+        </div>
+        <div className="bg-slate-50 rounded-lg p-3 border border-slate-100">
+          <div className="text-xs text-slate-500">未實現損益</div>
+          <div className={`font-mono font-bold ${pnlClass(totals.unrealizedPnl)}`}>
+            {formatMoney(totals.unrealizedPnl)}
+            {totals.costBasis > 0 && (
+              <span className="text-xs font-normal ml-1">({(totals.unrealizedPnl / totals.costBasis * 100).toFixed(2)}%)</span>
+            )}
+          </div>
+        </div>
+        <div className="bg-slate-50 rounded-lg p-3 border border-slate-100">
+          <div className="text-xs text-slate-500">已實現損益</div>
+          <div className={`font-mono font-bold ${pnlClass(totals.realizedPnl)}`}>{formatMoney(totals.realizedPnl)}</div>
+        </div>
+      </div>
+
+      {/* New transaction */}
+      <div className="flex flex-wrap items-end gap-2">
+        {isConsolidated && (
+          <select
+            value={targetAccountId}
+            onChange={(e) => setTargetAccountId(e.target.value)}
+            className={inputClass}
+            title="新增到哪個帳戶"
+          >
+            {accounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+        )}
+        <select
+          value={form.symbol}
+          onChange={(e) => setForm(prev => ({ ...prev, symbol: e.target.value }))}
+          className={inputClass}
+        >
+          <option value="">選擇代碼</option>
+          {symbolOptions.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select
+          value={form.type}
+          onChange={(e) => setForm(prev => ({ ...prev, type: e.target.value as TransactionType }))}
+          className={inputClass}
+        >
+          {(Object.keys(TRANSACTION_TYPE_LABELS) as TransactionType[]).map(t => (
+            <option key={t} value={t}>{TRANSACTION_TYPE_LABELS[t]}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={form.date}
+          onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))}
+          className={inputClass}
+        />
+        <input
+          type="number"
+          min="0"
+          step={form.type === 'SPLIT' ? 'any' : '1'}
+          placeholder={form.type === 'SPLIT' ? '每股分割為 (例: 2)' : isForeign ? '股數' : form.oddLot ? '股數 (1-999)' : '張數'}
+          value={form.quantity}
+          onChange={(e) => setForm(prev => ({ ...prev, quantity: e.target.value }))}
+          className={`${inputClass} w-36 font-mono`}
+        />
+        {form.type !== 'SPLIT' && (
+          <>
+            {!isForeign && (
+              <select
+                value={form.oddLot ? 'ODD' : 'BOARD'}
+                onChange={(e) => setForm(prev => ({ ...prev, oddLot: e.target.value === 'ODD' }))}
+                className={inputClass}
+                title="整股以張 (1,000 股) 為單位，零股為 1-999 股"
+              >
+                <option value="BOARD">整股 (張)</option>
+                <option value="ODD">零股</option>
+              </select>
+            )}
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder={isForeign ? `成交價 (${formCurrency})` : '成交價'}
+              value={form.price}
+              onChange={(e) => setForm(prev => ({ ...prev, price: e.target.value }))}
+              className={`${inputClass} w-28 font-mono`}
+            />
+            <input
+              type="number"
+              min="0"
+              placeholder={isForeign ? `費用 (${formCurrency})` : '費用 (空白自動計算)'}
+              value={form.fee}
+              onChange={(e) => setForm(prev => ({ ...prev, fee: e.target.value }))}
+              className={`${inputClass} w-40 font-mono`}
+            />
+            {isForeign && (
+              <input
+                type="number"
+                min="0"
+                step="0.0001"
+                placeholder={`匯率 1 ${formCurrency} = ? TWD`}
+                value={form.fxRate}
+                onChange={(e) => setForm(prev => ({ ...prev, fxRate: e.target.value }))}
+                className={`${inputClass} w-44 font-mono`}
+                title="成交單上的結匯匯率；空白則使用當日記錄的匯率"
+              />
+            )}
+          </>
+        )}
+        <input
+          type="text"
+          placeholder="備註 (選填)"
+          value={form.note}
+          onChange={(e) => setForm(prev => ({ ...prev, note: e.target.value }))}
+          className={`${inputClass} flex-grow min-w-[120px]`}
+        />
+        <button
+          onClick={handleAdd}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-medium text-sm flex items-center"
+        >
+          <Plus className="w-4 h-4 mr-1" /> 新增
+        </button>
+      </div>
+      {formError && <p className="text-xs text-rose-600">{formError}</p>}
+
+      {/* Ledger */}
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">尚無交易紀錄，持有股數會由交易紀錄自動計算。</p>
+      ) : (
+        <div className="overflow-x-auto max-h-80 overflow-y-auto border border-slate-200 rounded-lg">
+          <table className="min-w-full divide-y divide-slate-200 text-sm">
+            <thead className="bg-slate-50 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500">日期</th>
+                {isConsolidated && <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500">帳戶</th>}
+                <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500">代碼</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500">類別</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-slate-500">股數</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-slate-500">成交價</th>
+                <th className="px-4 py-2 text-right text-xs font-semibold text-slate-500">手續費/稅</th>
+                <th className="px-4 py-2 text-left text-xs font-semibold text-slate-500">備註</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rows.map(tx => (
+                <tr key={tx.id} className="hover:bg-slate-50">
+                  <td className="px-4 py-2 font-mono text-slate-600">{tx.date}</td>
+                  {isConsolidated && <td className="px-4 py-2 text-xs text-slate-600">{accountNames[accountOf(tx)] || accountOf(tx)}</td>}
+                  <td className="px-4 py-2 font-bold text-slate-800">{tx.symbol}</td>
+                  <td className="px-4 py-2">{TRANSACTION_TYPE_LABELS[tx.type]}</td>
+                  <td className="px-4 py-2 text-right font-mono">
+                    {tx.type === 'SPLIT' ? `1 → ${tx.quantity}` : currencyOf(tx.symbol, symbolCurrencies) !== 'TWD' ? `${tx.quantity.toLocaleString()}股` : formatShares(tx.quantity)}
+                    {tx.oddLot && <span className="ml-1 px-1 rounded bg-slate-100 text-[10px] text-slate-500 font-sans">零股</span>}
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono" title={tx.fxRate ? `匯率 ${tx.fxRate}` : undefined}>
+                    {tx.type === 'SPLIT' ? '-' : tx.price}
+                    {tx.type !== 'SPLIT' && currencyOf(tx.symbol, symbolCurrencies) !== 'TWD' && (
+                      <span className="ml-1 text-[10px] text-slate-400 font-sans">{currencyOf(tx.symbol, symbolCurrencies)}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right font-mono">{tx.type === 'SPLIT' ? '-' : tx.fee.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-xs text-slate-500 max-w-[200px] truncate" title={tx.note}>{tx.note}</td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => handleRemove(tx)}
+                      className="text-slate-400 hover:text-rose-600"
+                      title="刪除這筆交易"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransactionLedger;
@@ -0,0 +1,36 @@
+import { EtfHoldings } from "../types";
+
+/**
+ * Bundled top holdings of the widely held market-cap ETFs, approximate and
+ * rounded from the issuers' monthly disclosures. Only the largest names are
+ * listed; the rest of each fund stays unattributed in the look-through view.
+ * A fresher list can be imported as CSV under 資產配置 and overrides these.
+ *
+ * Columns: symbol, weight (% of the fund)
+ */
+const TAIWAN_50_TOP: [string, number][] = [
+  ["2330", 57.0],
+  ["2317", 4.8],
+  ["2454", 4.3],
+  ["2308", 2.5],
+  ["2382", 1.8],
+  ["2891", 1.6],
+  ["2881", 1.5],
+  ["2882", 1.3],
+  ["3711", 1.2],
+  ["2412", 1.2],
+];
+
+export const BUNDLED_ETF_CONSTITUENTS_DATE = '2025-06-30';
+
+const holdings = (etf: string, rows: [string, number][]): EtfHoldings => ({
+  etf,
+  asOf: BUNDLED_ETF_CONSTITUENTS_DATE,
+  constituents: rows.map(([symbol, weight]) => ({ symbol, weight: weight / 100 })),
+});
+
+// 0050 and 006208 both track the FTSE TWSE Taiwan 50 index
+export const BUNDLED_ETF_CONSTITUENTS: EtfHoldings[] = [
+  holdings("0050", TAIWAN_50_TOP),
+  holdings("006208", TAIWAN_50_TOP),
+];
@@ -0,0 +1,117 @@
+import { Security } from "../types";
+
+/**
+ * Bundled snapshot of commonly held TWSE / TPEX listings. The full list is
+ * refreshed from the exchanges' OpenAPI via updateSecurityMaster() and stored
+ * locally; this snapshot is the offline fallback.
+ *
+ * Columns: code, name, nameEn, market, industry
+ * isEtf / isKy are derived from the code and name when the list is built.
+ */
+const ROWS: [string, string, string, Security['market'], string][] = [
+  // --- ETFs (TWSE) ---
+  ["0050", "元大台灣50", "Yuanta Taiwan Top 50 ETF", "TWSE", "ETF"],
+  ["0056", "元大高股息", "Yuanta Taiwan Dividend Plus ETF", "TWSE", "ETF"],
+  ["006208", "富邦台50", "Fubon Taiwan 50 ETF", "TWSE", "ETF"],
+  ["00631L", "元大台灣50正2", "Yuanta Daily Taiwan 50 Bull 2X ETF", "TWSE", "ETF"],
+  ["00632R", "元大台灣50反1", "Yuanta Daily Taiwan 50 Bear -1X ETF", "TWSE", "ETF"],
+  ["00692", "富邦公司治理", "Fubon Taiwan Corporate Governance 100 ETF", "TWSE", "ETF"],
+  ["00713", "元大台灣高息低波", "Yuanta Taiwan High Dividend Low Volatility ETF", "TWSE", "ETF"],
+  ["00878", "國泰永續高股息", "Cathay MSCI Taiwan ESG Sustainability High Dividend Yield ETF", "TWSE", "ETF"],
+  ["00919", "群益台灣精選高息", "Capital Taiwan Select High Dividend ETF", "TWSE", "ETF"],
+  ["00929", "復華台灣科技優息", "Fuh Hwa Taiwan Technology Dividend Highlight ETF", "TWSE", "ETF"],
+  ["00940", "元大台灣價值高息", "Yuanta Taiwan Value High Dividend ETF", "TWSE", "ETF"],
+  // --- Bond ETFs (TPEX) ---
+  ["00679B", "元大美債20年", "Yuanta U.S. Treasury 20+ Year Bond ETF", "TPEX", "債券ETF"],
+  ["00687B", "國泰20年美債", "Cathay 20+ Year U.S. Treasury Bond ETF", "TPEX", "債券ETF"],
+  ["00937B", "群益ESG投等債20+", "Capital ESG 20+ Year BBB US Corporate Bond ETF", "TPEX", "債券ETF"],
+  // --- TWSE stocks ---
+  ["1101", "台泥", "Taiwan Cement", "TWSE", "水泥工業"],
+  ["1102", "亞泥", "Asia Cement", "TWSE", "水泥工業"],
+  ["1216", "統一", "Uni-President Enterprises", "TWSE", "食品工業"],
+  ["1301", "台塑", "Formosa Plastics", "TWSE", "塑膠工業"],
+  ["1303", "南亞", "Nan Ya Plastics", "TWSE", "塑膠工業"],
+  ["1326", "台化", "Formosa Chemicals & Fibre", "TWSE", "塑膠工業"],
+  ["1402", "遠東新", "Far Eastern New Century", "TWSE", "紡織纖維"],
+  ["1476", "儒鴻", "Eclat Textile", "TWSE", "紡織纖維"],
+  ["1590", "亞德客-KY", "Airtac International Group", "TWSE", "電機機械"],
+  ["2002", "中鋼", "China Steel", "TWSE", "鋼鐵工業"],
+  ["2105", "正新", "Cheng Shin Rubber", "TWSE", "橡膠工業"],
+  ["2207", "和泰車", "Hotai Motor", "TWSE", "汽車工業"],
+  ["2301", "光寶科", "Lite-On Technology", "TWSE", "電腦及週邊設備業"],
+  ["2303", "聯電", "United Microelectronics", "TWSE", "半導體業"],
+  ["2308", "台達電", "Delta Electronics", "TWSE", "電子零組件業"],
+  ["2317", "鴻海", "Hon Hai Precision Industry", "TWSE", "其他電子業"],
+  ["2327", "國巨", "Yageo", "TWSE", "電子零組件業"],
+  ["2330", "台積電", "Taiwan Semiconductor Manufacturing", "TWSE", "半導體業"],
+  ["2345", "智邦", "Accton Technology", "TWSE", "通信網路業"],
+  ["2357", "華碩", "ASUSTeK Computer", "TWSE", "電腦及週邊設備業"],
+  ["2376", "技嘉", "Gigabyte Technology", "TWSE", "電腦及週邊設備業"],
+  ["2379", "瑞昱", "Realtek Semiconductor", "TWSE", "半導體業"],
+  ["2382", "廣達", "Quanta Computer", "TWSE", "電腦及週邊設備業"],
+  ["2395", "研華", "Advantech", "TWSE", "電腦及週邊設備業"],
+  ["2408", "南亞科", "Nanya Technology", "TWSE", "半導體業"],
+  ["2412", "中華電", "Chunghwa Telecom", "TWSE", "通信網路業"],
+  ["2454", "聯發科", "MediaTek", "TWSE", "半導體業"],
+  ["2603", "長榮", "Evergreen Marine", "TWSE", "航運業"],
+  ["2609", "陽明", "Yang Ming Marine Transport", "TWSE", "航運業"],
+  ["2615", "萬海", "Wan Hai Lines", "TWSE", "航運業"],
+  ["2618", "長榮航", "EVA Airways", "TWSE", "航運業"],
+  ["2801", "彰銀", "Chang Hwa Commercial Bank", "TWSE", "金融保險業"],
+  ["2834", "臺企銀", "Taiwan Business Bank", "TWSE", "金融保險業"],
+  ["2880", "華南金", "Hua Nan Financial Holdings", "TWSE", "金融保險業"],
+  ["2881", "富邦金", "Fubon Financial Holding", "TWSE", "金融保險業"],
+  ["2882", "國泰金", "Cathay Financial Holding", "TWSE", "金融保險業"],
+  ["2884", "玉山金", "E.SUN Financial Holding", "TWSE", "金融保險業"],
+  ["2885", "元大金", "Yuanta Financial Holding", "TWSE", "金融保險業"],
+  ["2886", "兆豐金", "Mega Financial Holding", "TWSE", "金融保險業"],
+  ["2890", "永豐金", "SinoPac Financial Holdings", "TWSE", "金融保險業"],
+  ["2891", "中信金", "CTBC Financial Holding", "TWSE", "金融保險業"],
+  ["2892", "第一金", "First Financial Holding", "TWSE", "金融保險業"],
+  ["2912", "統一超", "President Chain Store", "TWSE", "貿易百貨業"],
+  ["3008", "大立光", "Largan Precision", "TWSE", "光電業"],
+  ["3017", "奇鋐", "Asia Vital Components", "TWSE", "電腦及週邊設備業"],
+  ["3034", "聯詠", "Novatek Microelectronics", "TWSE", "半導體業"],
+  ["3037", "欣興", "Unimicron Technology", "TWSE", "電子零組件業"],
+  ["3042", "晶技", "TXC Corporation", "TWSE", "電子零組件業"],
+  ["3045", "台灣大", "Taiwan Mobile", "TWSE", "通信網路業"],
+  ["3231", "緯創", "Wistron", "TWSE", "電腦及週邊設備業"],
+  ["3661", "世芯-KY", "Alchip Technologies", "TWSE", "半導體業"],
+  ["3711", "日月光投控", "ASE Technology Holding", "TWSE", "半導體業"],
+  ["4564", "元翎", "Mosa Industrial", "TWSE", "其他業"],
+  ["4904", "遠傳", "Far EasTone Telecommunications", "TWSE", "通信網路業"],
+  ["4938", "和碩", "Pegatron", "TWSE", "電腦及週邊設備業"],
+  ["5871", "中租-KY", "Chailease Holding", "TWSE", "其他業"],
+  ["5880", "合庫金", "Taiwan Cooperative Financial Holding", "TWSE", "金融保險業"],
+  ["6505", "台塑化", "Formosa Petrochemical", "TWSE", "油電燃氣業"],
+  ["6669", "緯穎", "Wiwynn", "TWSE", "電腦及週邊設備業"],
+  ["6890", "來億-KY", "Lai Yih Footwear", "TWSE", "運動休閒"],
+  ["9904", "寶成", "Pou Chen", "TWSE", "運動休閒"],
+  ["9910", "豐泰", "Feng Tay Enterprises", "TWSE", "運動休閒"],
+  // --- TPEX stocks ---
+  ["3105", "穩懋", "WIN Semiconductors", "TPEX", "半導體業"],
+  ["3293", "鈊象", "International Games System", "TPEX", "文化創意業"],
+  ["3529", "力旺", "eMemory Technology", "TPEX", "半導體業"],
+  ["4966", "譜瑞-KY", "Parade Technologies", "TPEX", "半導體業"],
+  ["5274", "信驊", "ASPEED Technology", "TPEX", "半導體業"],
+  ["5347", "世界", "Vanguard International Semiconductor", "TPEX", "半導體業"],
+  ["5483", "中美晶", "Sino-American Silicon Products", "TPEX", "半導體業"],
+  ["5904", "寶雅", "Poya International", "TPEX", "貿易百貨業"],
+  ["6274", "台燿", "Taiwan Union Technology", "TPEX", "電子零組件業"],
+  ["6488", "環球晶", "GlobalWafers", "TPEX", "半導體業"],
+  ["6510", "精測", "Chunghwa Precision Test Tech", "TPEX", "半導體業"],
+  ["8069", "元太", "E Ink Holdings", "TPEX", "光電業"],
+  ["8299", "群聯", "Phison Electronics", "TPEX", "半導體業"],
+];
+
+export const BUNDLED_SECURITIES_DATE = '2025-06-30';
+
+export const BUNDLED_SECURITIES: Security[] = ROWS.map(([code, name, nameEn, market, industry]) => ({
+  code,
+  name,
+  nameEn,
+  market,
+  industry,
+  isEtf: code.startsWith('00'),
+  isKy: name.endsWith('-KY'),
+}));
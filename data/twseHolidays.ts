@@ -0,0 +1,68 @@
+import { MarketHoliday } from "../types";
+
+/**
+ * Bundled TWSE market closures (weekdays only). Newer schedules and ad-hoc
+ * typhoon closures can be imported from the TWSE holiday schedule or a CSV,
+ * see services/tradingCalendar.ts.
+ */
+export const BUNDLED_HOLIDAYS: MarketHoliday[] = [
+  // 2024
+  { date: '2024-01-01', name: '中華民國開國紀念日' },
+  { date: '2024-02-06', name: '市場無交易，僅辦理結算交割作業' },
+  { date: '2024-02-07', name: '市場無交易，僅辦理結算交割作業' },
+  { date: '2024-02-08', name: '農曆除夕前一日' },
+  { date: '2024-02-09', name: '農曆除夕' },
+  { date: '2024-02-12', name: '農曆春節' },
+  { date: '2024-02-13', name: '農曆春節' },
+  { date: '2024-02-14', name: '農曆春節' },
+  { date: '2024-02-28', name: '和平紀念日' },
+  { date: '2024-04-04', name: '兒童節及民族掃墓節' },
+  { date: '2024-04-05', name: '兒童節及民族掃墓節' },
+  { date: '2024-05-01', name: '勞動節' },
+  { date: '2024-06-10', name: '端午節' },
+  { date: '2024-07-24', name: '颱風停止交易 (凱米)' },
+  { date: '2024-07-25', name: '颱風停止交易 (凱米)' },
+  { date: '2024-09-17', name: '中秋節' },
+  { date: '2024-10-02', name: '颱風停止交易 (山陀兒)' },
+  { date: '2024-10-03', name: '颱風停止交易 (山陀兒)' },
+  { date: '2024-10-10', name: '國慶日' },
+  { date: '2024-10-31', name: '颱風停止交易 (康芮)' },
+  // 2025
+  { date: '2025-01-01', name: '中華民國開國紀念日' },
+  { date: '2025-01-23', name: '市場無交易，僅辦理結算交割作業' },
+  { date: '2025-01-24', name: '市場無交易，僅辦理結算交割作業' },
+  { date: '2025-01-27', name: '農曆春節 (調整放假)' },
+  { date: '2025-01-28', name: '農曆除夕' },
+  { date: '2025-01-29', name: '農曆春節' },
+  { date: '2025-01-30', name: '農曆春節' },
+  { date: '2025-01-31', name: '農曆春節' },
+  { date: '2025-02-28', name: '和平紀念日' },
+  { date: '2025-04-03', name: '兒童節 (補假)' },
+  { date: '2025-04-04', name: '兒童節及民族掃墓節' },
+  { date: '2025-05-01', name: '勞動節' },
+  { date: '2025-05-30', name: '端午節 (補假)' },
+  { date: '2025-09-29', name: '教師節 (補假)' },
+  { date: '2025-10-06', name: '中秋節' },
+  { date: '2025-10-10', name: '國慶日' },
+  { date: '2025-10-24', name: '臺灣光復暨金門古寧頭大捷紀念日 (補假)' },
+  { date: '2025-12-25', name: '行憲紀念日' },
+  // 2026
+  { date: '2026-01-01', name: '中華民國開國紀念日' },
+  { date: '2026-02-12', name: '市場無交易，僅辦理結算交割作業' },
+  { date: '2026-02-13', name: '市場無交易，僅辦理結算交割作業' },
+  { date: '2026-02-16', name: '農曆除夕' },
+  { date: '2026-02-17', name: '農曆春節' },
+  { date: '2026-02-18', name: '農曆春節' },
+  { date: '2026-02-19', name: '農曆春節' },
+  { date: '2026-02-20', name: '農曆春節 (補假)' },
+  { date: '2026-02-27', name: '和平紀念日 (補假)' },
+  { date: '2026-04-03', name: '兒童節 (補假)' },
+  { date: '2026-04-06', name: '民族掃墓節 (補假)' },
+  { date: '2026-05-01', name: '勞動節' },
+  { date: '2026-06-19', name: '端午節' },
+  { date: '2026-09-25', name: '中秋節' },
+  { date: '2026-09-28', name: '教師節' },
+  { date: '2026-10-09', name: '國慶日 (補假)' },
+  { date: '2026-10-26', name: '臺灣光復暨金門古寧頭大捷紀念日 (補假)' },
+  { date: '2026-12-25', name: '行憲紀念日' },
+];
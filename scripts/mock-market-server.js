@@ -0,0 +1,140 @@
+// Local stand-in for a market-data API, used by the "本機模擬報價伺服器" provider.
+// Usage: npm run mock:market  (PORT defaults to 8787)
+//
+// GET /quotes?symbols=2330,0050 -> [{ symbol, name, currentPrice, asOf }]
+// Prices are derived from the symbol so every run returns the same numbers. No
+// 52-week range is sent; the app works it out from /history like a real feed.
+//
+// GET /history?symbol=2330&from=2025-01-01 -> [{ date, open, high, low, close, volume }]
+// A deterministic random walk over weekdays that ends at the /quotes price.
+//
+// GET /fx?currencies=USD,JPY -> [{ currency, date, twdPerUnit }]
+// Fixed rates near recent levels; unknown currencies are left out.
+//
+// POST /webhook -> stand-in target for price-alert webhooks; payloads are logged
+// GET /webhook  -> the last payloads received
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+const WEBHOOK_HISTORY = 50;
+
+const webhookPayloads = [];
+
+const FX_RATES = { USD: 32.1, HKD: 4.11, JPY: 0.214, EUR: 34.6, CNY: 4.45 };
+
+const hash = (text) => [...text].reduce((h, ch) => (h * 31 + ch.charCodeAt(0)) >>> 0, 7);
+
+const quoteFor = (symbol) => {
+  const seed = hash(symbol);
+  const base = 20 + (seed % 980);
+  const currentPrice = Math.round(base * 100) / 100;
+  return {
+    symbol,
+    name: `模擬-${symbol}`,
+    currentPrice,
+    asOf: new Date().toISOString().slice(0, 10),
+  };
+};
+
+// Small seeded generator so history is stable between requests
+const seededRandom = (seed) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 2 ** 32;
+};
+
+const round = (n) => Math.round(n * 100) / 100;
+
+const historyFor = (symbol, from) => {
+  const dates = [];
+  const today = new Date(new Date().toISOString().slice(0, 10) + 'T00:00:00Z');
+  for (let d = new Date(`${from}T00:00:00Z`); d <= today; d.setUTCDate(d.getUTCDate() + 1)) {
+    if (d.getUTCDay() !== 0 && d.getUTCDay() !== 6) dates.push(d.toISOString().slice(0, 10));
+  }
+  // Walk backwards from the current price so the last close matches /quotes
+  const random = seededRandom(hash(symbol));
+  let close = quoteFor(symbol).currentPrice;
+  const bars = [];
+  for (let i = dates.length - 1; i >= 0; i--) {
+    const open = close * (1 + (random() - 0.5) * 0.02);
+    const high = Math.max(open, close) * (1 + random() * 0.01);
+    const low = Math.min(open, close) * (1 - random() * 0.01);
+    bars.push({ date: dates[i], open: round(open), high: round(high), low: round(low), close: round(close), volume: Math.round(1000 + random() * 20000) * 1000 });
+    close = open * (1 + (random() - 0.5) * 0.02);
+  }
+  return bars.reverse();
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+
+  // CORS preflight for the JSON webhook POST
+  if (req.method === 'OPTIONS') {
+    res.statusCode = 204;
+    res.end();
+    return;
+  }
+
+  if (url.pathname === '/webhook' && req.method === 'POST') {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      try {
+        const payload = JSON.parse(body);
+        webhookPayloads.unshift(payload);
+        webhookPayloads.length = Math.min(webhookPayloads.length, WEBHOOK_HISTORY);
+        (payload.events || []).forEach(e => console.log(`[webhook] ${e.triggeredAt} ${e.message}`));
+        res.end(JSON.stringify({ ok: true }));
+      } catch {
+        res.statusCode = 400;
+        res.end(JSON.stringify({ error: 'Invalid JSON' }));
+      }
+    });
+    return;
+  }
+
+  if (url.pathname === '/webhook') {
+    res.end(JSON.stringify(webhookPayloads));
+    return;
+  }
+
+  if (url.pathname === '/history') {
+    const symbol = (url.searchParams.get('symbol') || '').trim().toUpperCase();
+    const from = url.searchParams.get('from') || '';
+    if (!symbol || !/^\d{4}-\d{2}-\d{2}$/.test(from)) {
+      res.statusCode = 400;
+      res.end(JSON.stringify({ error: 'symbol and from (YYYY-MM-DD) are required' }));
+      return;
+    }
+    res.end(JSON.stringify(historyFor(symbol, from)));
+    return;
+  }
+
+  if (url.pathname === '/fx') {
+    const date = new Date().toISOString().slice(0, 10);
+    const currencies = (url.searchParams.get('currencies') || '')
+      .split(',')
+      .map(c => c.trim().toUpperCase())
+      .filter(c => FX_RATES[c]);
+    res.end(JSON.stringify(currencies.map(currency => ({ currency, date, twdPerUnit: FX_RATES[currency] }))));
+    return;
+  }
+
+  if (url.pathname === '/quotes') {
+    const symbols = (url.searchParams.get('symbols') || '')
+      .split(',')
+      .map(s => s.trim().toUpperCase())
+      .filter(Boolean);
+    res.end(JSON.stringify(symbols.map(quoteFor)));
+    return;
+  }
+
+  res.statusCode = 404;
+  res.end(JSON.stringify({ error: 'Not found' }));
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock market data server listening on http://localhost:${PORT}`);
+});
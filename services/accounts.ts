@@ -0,0 +1,87 @@
+import { Account, Transaction } from "../types";
+
+const ACCOUNTS_KEY = 'finance_accounts';
+const ACCOUNT_SYMBOLS_KEY = 'finance_account_symbols';
+const ACTIVE_ACCOUNT_KEY = 'finance_active_account';
+// Watchlist kept by earlier versions, before accounts existed
+const LEGACY_SYMBOLS_KEY = 'finance_portfolio_symbols';
+
+export const DEFAULT_ACCOUNT_ID = 'default';
+// Pseudo account id for the consolidated view across every account
+export const ALL_ACCOUNTS = 'ALL';
+
+const DEFAULT_ACCOUNT: Account = { id: DEFAULT_ACCOUNT_ID, name: '主帳戶', includeInRetirement: true };
+
+export const accountOf = (tx: Pick<Transaction, 'accountId'>): string => tx.accountId || DEFAULT_ACCOUNT_ID;
+
+export const getAccounts = (): Account[] => {
+  try {
+    const saved = localStorage.getItem(ACCOUNTS_KEY);
+    const accounts: Account[] = saved ? JSON.parse(saved) : [];
+    return accounts.some(a => a.id === DEFAULT_ACCOUNT_ID) ? accounts : [DEFAULT_ACCOUNT, ...accounts];
+  } catch {
+    return [DEFAULT_ACCOUNT];
+  }
+};
+
+export const saveAccounts = (accounts: Account[]) => {
+  localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+};
+
+export const newAccountId = (): string => `acct-${Date.now().toString(36)}`;
+
+// Falls back to the default account when the saved one has been deleted
+export const getActiveAccountId = (): string => {
+  const saved = localStorage.getItem(ACTIVE_ACCOUNT_KEY);
+  if (saved === ALL_ACCOUNTS || (saved && getAccounts().some(a => a.id === saved))) return saved;
+  return DEFAULT_ACCOUNT_ID;
+};
+
+export const setActiveAccountId = (id: string) => {
+  localStorage.setItem(ACTIVE_ACCOUNT_KEY, id);
+};
+
+// Recovers the old single watchlist (or, failing that, the symbols of the old share counts) into the default account
+const migrateLegacySymbols = (): Record<string, string[]> => {
+  try {
+    let symbols: string[] = JSON.parse(localStorage.getItem(LEGACY_SYMBOLS_KEY) || '[]');
+    if (symbols.length === 0) {
+      symbols = Object.keys(JSON.parse(localStorage.getItem('finance_stock_quantities') || '{}'));
+    }
+    return { [DEFAULT_ACCOUNT_ID]: symbols };
+  } catch {
+    return { [DEFAULT_ACCOUNT_ID]: [] };
+  }
+};
+
+export const getAccountSymbols = (): Record<string, string[]> => {
+  try {
+    const saved = localStorage.getItem(ACCOUNT_SYMBOLS_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch {
+    // Fall through to the migration
+  }
+  const migrated = migrateLegacySymbols();
+  saveAccountSymbols(migrated);
+  return migrated;
+};
+
+export const saveAccountSymbols = (symbols: Record<string, string[]>) => {
+  localStorage.setItem(ACCOUNT_SYMBOLS_KEY, JSON.stringify(symbols));
+};
+
+// Watchlist for one account, or the union (in account order) for the consolidated view
+export const symbolsForScope = (
+  accountSymbols: Record<string, string[]>,
+  accounts: Account[],
+  scope: string
+): string[] => {
+  if (scope !== ALL_ACCOUNTS) return accountSymbols[scope] || [];
+  return [...new Set(accounts.flatMap(a => accountSymbols[a.id] || []))];
+};
+
+export const transactionsForScope = (transactions: Transaction[], scope: string): Transaction[] =>
+  scope === ALL_ACCOUNTS ? transactions : transactions.filter(t => accountOf(t) === scope);
+
+export const describeAccount = (account: Account): string =>
+  [account.name, account.owner, account.broker].filter(Boolean).join(' · ');
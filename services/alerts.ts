@@ -0,0 +1,245 @@
+import { AlertCondition, AlertEvent, AlertLevelSource, AlertRule, StockAnalysis } from "../types";
+import { newTransactionId } from "./ledger";
+
+/**
+ * Price alerts checked whenever analyses bring in fresh quotes. Fired alerts go
+ * to the in-app inbox, to browser notifications when permitted, and optionally
+ * to a webhook (see scripts/mock-market-server.js for a local stand-in).
+ */
+
+const RULES_KEY = 'finance_alert_rules';
+const INBOX_KEY = 'finance_alert_inbox';
+const WEBHOOK_KEY = 'finance_alert_webhook';
+
+// Oldest alerts are dropped beyond this
+const INBOX_LIMIT = 200;
+
+export const ALERT_CONDITION_LABELS: Record<AlertCondition, string> = {
+  PRICE_ABOVE: '價格漲到',
+  PRICE_BELOW: '價格跌到',
+  PERCENT_MOVE: '漲跌幅超過',
+  NEW_52W_HIGH: '創52週新高',
+  NEW_52W_LOW: '創52週新低',
+};
+
+export const ALERT_LEVEL_SOURCE_LABELS: Record<AlertLevelSource, string> = {
+  FIXED: '自訂價格',
+  SUGGEST_BUY: 'AI 建議買入價',
+  SUGGEST_SELL: 'AI 建議賣出價',
+};
+
+// Conditions that compare the quote with a price level
+export const isPriceCondition = (condition: AlertCondition) => condition === 'PRICE_ABOVE' || condition === 'PRICE_BELOW';
+
+export const getAlertRules = (): AlertRule[] => {
+  try {
+    const saved = localStorage.getItem(RULES_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]) => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+export const newAlertRule = (fields: Pick<AlertRule, 'symbol' | 'condition' | 'levelSource' | 'level'>): AlertRule => ({
+  id: newTransactionId(),
+  ...fields,
+  enabled: true,
+  armed: true,
+  createdAt: new Date().toISOString(),
+});
+
+export const addAlertRule = (rules: AlertRule[], rule: AlertRule): AlertRule[] => {
+  if (!rule.symbol) throw new Error('請選擇股票代碼');
+  if (isPriceCondition(rule.condition) && rule.levelSource === 'FIXED' && !(rule.level! > 0)) {
+    throw new Error('請輸入提醒價格');
+  }
+  if (rule.condition === 'PERCENT_MOVE' && !(rule.level! > 0)) throw new Error('請輸入漲跌幅 (%)');
+  const updated = [...rules, rule];
+  saveAlertRules(updated);
+  return updated;
+};
+
+export const updateAlertRule = (rules: AlertRule[], id: string, changes: Partial<AlertRule>): AlertRule[] => {
+  const updated = rules.map(r => (r.id === id ? { ...r, ...changes } : r));
+  saveAlertRules(updated);
+  return updated;
+};
+
+export const removeAlertRule = (rules: AlertRule[], id: string): AlertRule[] => {
+  const updated = rules.filter(r => r.id !== id);
+  saveAlertRules(updated);
+  return updated;
+};
+
+// Price level of a rule against the latest analysis; undefined when it cannot be known
+export const alertLevel = (rule: AlertRule, stock?: StockAnalysis): number | undefined => {
+  if (rule.levelSource === 'SUGGEST_BUY') return stock?.suggestBuyPrice;
+  if (rule.levelSource === 'SUGGEST_SELL') return stock?.suggestSellPrice;
+  return rule.level;
+};
+
+export const describeAlertRule = (rule: AlertRule, stock?: StockAnalysis): string => {
+  const label = ALERT_CONDITION_LABELS[rule.condition];
+  if (rule.condition === 'PERCENT_MOVE') return `${label} ${rule.level}%`;
+  if (!isPriceCondition(rule.condition)) return label;
+  const level = alertLevel(rule, stock);
+  return rule.levelSource === 'FIXED'
+    ? `${label} ${level}`
+    : `${label} ${ALERT_LEVEL_SOURCE_LABELS[rule.levelSource]}${level !== undefined ? ` (${level})` : ''}`;
+};
+
+// Whether the rule's condition holds for the quote, with the inbox message when it does
+const checkCondition = (rule: AlertRule, stock: StockAnalysis): string | null => {
+  const price = stock.currentPrice;
+  const name = `${stock.symbol} ${stock.name}`;
+  switch (rule.condition) {
+    case 'PRICE_ABOVE':
+    case 'PRICE_BELOW': {
+      const level = alertLevel(rule, stock);
+      if (!(level! > 0)) return null;
+      const hit = rule.condition === 'PRICE_ABOVE' ? price >= level! : price <= level!;
+      const target = rule.levelSource === 'FIXED' ? '提醒價' : ALERT_LEVEL_SOURCE_LABELS[rule.levelSource];
+      return hit ? `${name} ${rule.condition === 'PRICE_ABOVE' ? '漲到' : '跌到'} ${price}，已達${target} ${level}` : null;
+    }
+    case 'PERCENT_MOVE': {
+      if (!rule.basePrice || !rule.level) return null;
+      const change = (price - rule.basePrice) / rule.basePrice * 100;
+      return Math.abs(change) >= rule.level
+        ? `${name} 自 ${rule.basePrice} ${change > 0 ? '上漲' : '下跌'} ${Math.abs(change).toFixed(2)}% 至 ${price}`
+        : null;
+    }
+    case 'NEW_52W_HIGH':
+      // An unknown range never fires; see MarketQuote
+      return stock.high52Week && price >= stock.high52Week ? `${name} 創52週新高 ${price}` : null;
+    case 'NEW_52W_LOW':
+      return stock.low52Week && price <= stock.low52Week ? `${name} 創52週新低 ${price}` : null;
+  }
+};
+
+/**
+ * Checks every enabled rule against fresh quotes. A rule fires once when its
+ * condition starts to hold and re-arms after the condition clears, so a price
+ * sitting above a level does not fire on every refresh. Percentage rules
+ * measure from the price when they were first checked or last fired.
+ */
+export const evaluateAlerts = (
+  rules: AlertRule[],
+  stocks: StockAnalysis[],
+  now: Date = new Date()
+): { rules: AlertRule[]; events: AlertEvent[] } => {
+  const bySymbol = new Map(stocks.map(s => [s.symbol, s]));
+  const events: AlertEvent[] = [];
+  const updated = rules.map(rule => {
+    const stock = bySymbol.get(rule.symbol);
+    if (!rule.enabled || !stock || !(stock.currentPrice > 0)) return rule;
+    if (rule.condition === 'PERCENT_MOVE' && !rule.basePrice) return { ...rule, basePrice: stock.currentPrice };
+
+    const message = checkCondition(rule, stock);
+    if (!message) return rule.armed ? rule : { ...rule, armed: true };
+    if (!rule.armed) return rule;
+
+    events.push({
+      id: newTransactionId(),
+      ruleId: rule.id,
+      symbol: rule.symbol,
+      condition: rule.condition,
+      price: stock.currentPrice,
+      message,
+      triggeredAt: now.toISOString(),
+      read: false,
+    });
+    return rule.condition === 'PERCENT_MOVE'
+      ? { ...rule, basePrice: stock.currentPrice }
+      : { ...rule, armed: false };
+  });
+  return { rules: updated, events };
+};
+
+// --- Inbox ---
+
+export const getAlertInbox = (): AlertEvent[] => {
+  try {
+    const saved = localStorage.getItem(INBOX_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveAlertInbox = (inbox: AlertEvent[]) => {
+  localStorage.setItem(INBOX_KEY, JSON.stringify(inbox.slice(0, INBOX_LIMIT)));
+};
+
+// --- Delivery ---
+
+export const getWebhookUrl = (): string => localStorage.getItem(WEBHOOK_KEY) || '';
+
+export const setWebhookUrl = (url: string) => {
+  if (url.trim()) localStorage.setItem(WEBHOOK_KEY, url.trim());
+  else localStorage.removeItem(WEBHOOK_KEY);
+};
+
+export const postWebhook = async (url: string, events: AlertEvent[]) => {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ source: 'finance-pro', sentAt: new Date().toISOString(), events }),
+  });
+  if (!res.ok) throw new Error(`Webhook 回應錯誤 (${res.status})`);
+};
+
+export const testWebhook = (url: string) =>
+  postWebhook(url, [{
+    id: 'test',
+    ruleId: 'test',
+    symbol: '0000',
+    condition: 'PRICE_ABOVE',
+    price: 0,
+    message: '這是一則測試提醒',
+    triggeredAt: new Date().toISOString(),
+    read: false,
+  }]);
+
+export const notificationsSupported = (): boolean => typeof Notification !== 'undefined';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | null> =>
+  notificationsSupported() ? Notification.requestPermission() : null;
+
+// Chrome on Android rejects `new Notification` ("Illegal constructor") and only shows
+// notifications through a service worker; one failure must not drop the rest of the batch
+const showNotification = async (event: AlertEvent) => {
+  const options: NotificationOptions = { body: event.message, tag: event.ruleId };
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) await registration.showNotification('價格提醒', options);
+    else new Notification('價格提醒', options);
+  } catch (error) {
+    console.warn('Alert notification failed', error);
+  }
+};
+
+const showNotifications = (events: AlertEvent[]) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  events.forEach(e => { showNotification(e); });
+};
+
+/**
+ * Runs the rules against fresh quotes and delivers whatever fired. Webhook
+ * failures are logged only; the inbox always keeps the alert.
+ */
+export const checkAlerts = (stocks: StockAnalysis[]): { rules: AlertRule[]; inbox: AlertEvent[]; events: AlertEvent[] } => {
+  const { rules, events } = evaluateAlerts(getAlertRules(), stocks);
+  saveAlertRules(rules);
+  const inbox = [...events.slice().reverse(), ...getAlertInbox()];
+  if (events.length > 0) {
+    saveAlertInbox(inbox);
+    showNotifications(events);
+    const webhook = getWebhookUrl();
+    if (webhook) postWebhook(webhook, events).catch(error => console.warn('Alert webhook failed', error));
+  }
+  return { rules, inbox: inbox.slice(0, INBOX_LIMIT), events };
+};
@@ -0,0 +1,197 @@
+import { AllocationSlice, ConcentrationWarning, EtfHoldings, InstrumentType, Position, Security } from "../types";
+import { BUNDLED_ETF_CONSTITUENTS } from "../data/etfConstituents";
+import { getSecurity } from "./securityMaster";
+import { parseCsv, parseTwNumber, parseTwDate, findColumn } from "./csv";
+import { taipeiDate } from "./tradingCalendar";
+import { currencyOf } from "./currency";
+
+/**
+ * How the priced holdings are spread by industry, market, instrument type and
+ * position, with ETFs optionally looked through to their constituents so a
+ * stock held both directly and inside 0050 counts once at its full exposure.
+ */
+
+const CONSTITUENTS_KEY = 'finance_etf_constituents';
+
+export const POSITION_LIMIT = 0.2;
+export const SECTOR_LIMIT = 0.4;
+
+// Industry buckets that describe a fund rather than a sector; not subject to the sector limit
+const FUND_INDUSTRIES = new Set(['ETF', '債券ETF']);
+// Key for the part of an ETF its listed constituents do not cover
+const UNATTRIBUTED = '其他成分';
+
+export const INSTRUMENT_TYPE_LABELS: Record<InstrumentType, string> = {
+  STOCK: '股票',
+  ETF: 'ETF',
+  BOND_ETF: '債券 ETF',
+};
+
+export const MARKET_LABELS: Record<Security['market'], string> = {
+  TWSE: '上市',
+  TPEX: '上櫃',
+};
+
+export const instrumentType = (symbol: string): InstrumentType => {
+  const security = getSecurity(symbol);
+  if (!security?.isEtf && !symbol.startsWith('00')) return 'STOCK';
+  return symbol.endsWith('B') || security?.industry === '債券ETF' ? 'BOND_ETF' : 'ETF';
+};
+
+// --- ETF constituents ---
+
+const getImportedConstituents = (): EtfHoldings[] => {
+  try {
+    const saved = localStorage.getItem(CONSTITUENTS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Imported lists override the bundled ones fund by fund
+export const getEtfConstituents = (): Record<string, EtfHoldings> => {
+  const byEtf: Record<string, EtfHoldings> = {};
+  [...BUNDLED_ETF_CONSTITUENTS, ...getImportedConstituents()].forEach(h => { byEtf[h.etf] = h; });
+  return byEtf;
+};
+
+/**
+ * Parses an ETF holdings CSV with columns etf, symbol and weight (in percent),
+ * plus an optional date. Chinese headers from issuer files are accepted.
+ */
+export const parseConstituentsCsv = (text: string): EtfHoldings[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error('CSV 檔案是空的');
+  const col = {
+    etf: findColumn(header, ['etf', 'fund', 'ETF代號', '基金代號']),
+    symbol: findColumn(header, ['symbol', 'code', '成分股代號', '股票代號', '代號']),
+    weight: findColumn(header, ['weight', '權重', '持股權重', '比例']),
+    date: findColumn(header, ['date', 'asOf', '日期', '資料日期']),
+  };
+  if (col.etf === -1 || col.symbol === -1 || col.weight === -1) {
+    throw new Error('CSV 需要「ETF代號」、「成分股代號」與「權重」欄位');
+  }
+
+  const byEtf = new Map<string, EtfHoldings>();
+  rows.forEach(row => {
+    const etf = (row[col.etf] || '').trim().toUpperCase();
+    const symbol = (row[col.symbol] || '').trim().toUpperCase();
+    const weight = parseTwNumber((row[col.weight] || '').replace('%', ''));
+    if (!etf || !symbol || weight === null || weight <= 0) return;
+    const holdings = byEtf.get(etf) || {
+      etf,
+      asOf: (col.date !== -1 && parseTwDate(row[col.date])) || taipeiDate(),
+      constituents: [],
+    };
+    holdings.constituents.push({ symbol, weight: weight / 100 });
+    byEtf.set(etf, holdings);
+  });
+  if (byEtf.size === 0) throw new Error('CSV 中沒有可讀取的成分股資料');
+  return [...byEtf.values()];
+};
+
+export const saveImportedConstituents = (imported: EtfHoldings[]) => {
+  const merged = new Map(getImportedConstituents().map(h => [h.etf, h]));
+  imported.forEach(h => merged.set(h.etf, h));
+  localStorage.setItem(CONSTITUENTS_KEY, JSON.stringify([...merged.values()]));
+};
+
+// --- Breakdown ---
+
+interface Exposure {
+  symbol: string; // Underlying stock, or the ETF itself for what is not looked through
+  value: number;
+  via?: string; // ETF the exposure comes through
+}
+
+const industryOf = (symbol: string) => getSecurity(symbol)?.industry || '其他業';
+
+const nameOf = (symbol: string) => getSecurity(symbol)?.name || symbol;
+
+const toSlices = (groups: Map<string, { label: string; value: number }>, total: number): AllocationSlice[] =>
+  [...groups.entries()]
+    .map(([key, g]) => ({ key, label: g.label, value: g.value, weight: total > 0 ? g.value / total : 0 }))
+    .sort((a, b) => b.value - a.value);
+
+const groupBy = (exposures: Exposure[], keyOf: (e: Exposure) => [string, string], total: number) => {
+  const groups = new Map<string, { label: string; value: number }>();
+  exposures.forEach(e => {
+    const [key, label] = keyOf(e);
+    const g = groups.get(key) || { label, value: 0 };
+    g.value += e.value;
+    groups.set(key, g);
+  });
+  return toSlices(groups, total);
+};
+
+export interface AllocationBreakdown {
+  total: number;
+  unpriced: string[]; // Held symbols left out for want of a price
+  byPosition: AllocationSlice[];
+  byIndustry: AllocationSlice[];
+  byMarket: AllocationSlice[];
+  byType: AllocationSlice[];
+  warnings: ConcentrationWarning[];
+}
+
+/**
+ * Splits priced holdings into the four breakdowns. With look-through, each ETF
+ * is replaced by its listed constituents (by weight) plus an 其他成分 remainder
+ * that keeps the fund's own classification; market and type always describe
+ * what was actually bought.
+ */
+export const computeAllocation = (
+  positions: Record<string, Position>,
+  prices: Record<string, number>,
+  lookThrough: boolean,
+  constituents: Record<string, EtfHoldings> = getEtfConstituents()
+): AllocationBreakdown => {
+  const held = Object.values(positions).filter(p => p.quantity > 0);
+  const priced = held.filter(p => prices[p.symbol] > 0);
+  const direct: Exposure[] = priced.map(p => ({ symbol: p.symbol, value: p.quantity * prices[p.symbol] }));
+  const total = direct.reduce((sum, e) => sum + e.value, 0);
+
+  const exposures: Exposure[] = lookThrough
+    ? direct.flatMap(e => {
+      const fund = constituents[e.symbol];
+      if (!fund) return [e];
+      const listed = fund.constituents.map(c => ({ symbol: c.symbol, value: e.value * c.weight, via: e.symbol }));
+      const rest = Math.max(e.value - listed.reduce((sum, c) => sum + c.value, 0), 0);
+      return rest > 0 ? [...listed, { symbol: e.symbol, value: rest, via: UNATTRIBUTED }] : listed;
+    })
+    : direct;
+
+  const byPosition = groupBy(exposures, e => [e.symbol, e.via === UNATTRIBUTED ? `${nameOf(e.symbol)} (${UNATTRIBUTED})` : nameOf(e.symbol)], total);
+  const byIndustry = groupBy(exposures, e => [industryOf(e.symbol), industryOf(e.symbol)], total);
+  const byMarket = groupBy(direct, e => {
+    const market = getSecurity(e.symbol)?.market;
+    if (market) return [market, MARKET_LABELS[market]];
+    return currencyOf(e.symbol) !== 'TWD' ? ['FOREIGN', '海外'] : ['UNKNOWN', '未知'];
+  }, total);
+  const byType = groupBy(direct, e => [instrumentType(e.symbol), INSTRUMENT_TYPE_LABELS[instrumentType(e.symbol)]], total);
+
+  const warnings: ConcentrationWarning[] = [
+    ...byPosition
+      .filter(s => s.weight > POSITION_LIMIT && instrumentType(s.key) === 'STOCK')
+      .map(s => ({ kind: 'POSITION' as const, key: s.key, label: s.label, weight: s.weight, limit: POSITION_LIMIT })),
+    ...byIndustry
+      .filter(s => s.weight > SECTOR_LIMIT && !FUND_INDUSTRIES.has(s.key))
+      .map(s => ({ kind: 'SECTOR' as const, key: s.key, label: s.label, weight: s.weight, limit: SECTOR_LIMIT })),
+  ];
+
+  return {
+    total,
+    unpriced: held.filter(p => !(prices[p.symbol] > 0)).map(p => p.symbol),
+    byPosition,
+    byIndustry,
+    byMarket,
+    byType,
+    warnings,
+  };
+};
+
+export const describeWarning = (w: ConcentrationWarning): string =>
+  w.kind === 'POSITION'
+    ? `${w.label} 佔投資組合 ${(w.weight * 100).toFixed(1)}%，超過單一持股上限 ${w.limit * 100}%`
+    : `${w.label} 產業佔 ${(w.weight * 100).toFixed(1)}%，超過單一產業上限 ${w.limit * 100}%`;
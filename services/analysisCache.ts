@@ -0,0 +1,97 @@
+import { StockAnalysis } from "../types";
+import { MarketSession, SessionInfo, getMarketSession } from "./marketSession";
+import { getSelectedProviderId } from "./marketDataService";
+
+/**
+ * Caches Gemini analyses per symbol and trading session so repeat views cost no quota.
+ * An entry is only reused within the same trading date and session, and only until
+ * the session's TTL runs out (intraday prices move, closing prices do not). On
+ * weekends and holidays the trading date stays put, so one entry covers the closure.
+ * Entries are also keyed by the quote provider, so switching it fetches fresh prices.
+ */
+
+const CACHE_KEY = 'finance_analysis_cache';
+const TRENDS_KEY = '__MARKET_TRENDS__';
+
+export const SESSION_TTL_MS: Record<MarketSession, number> = {
+  PRE_OPEN: 60 * 60 * 1000,        // Previous close is fixed; refresh hourly for news
+  INTRADAY: 5 * 60 * 1000,         // Live prices move
+  POST_CLOSE: 24 * 60 * 60 * 1000, // Closing price can no longer change
+  CLOSED: 24 * 60 * 60 * 1000,     // No trading; refresh daily for news only
+};
+
+interface CacheEntry<T> {
+  data: T;
+  cachedAt: string; // ISO timestamp
+}
+
+type CacheStore = Record<string, CacheEntry<unknown>>;
+
+const loadStore = (): CacheStore => {
+  try {
+    const saved = localStorage.getItem(CACHE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveStore = (store: CacheStore) => {
+  try {
+    localStorage.setItem(CACHE_KEY, JSON.stringify(store));
+  } catch (e) {
+    // Quota exceeded: caching is best-effort, drop everything and start over
+    console.warn("Analysis cache write failed", e);
+    localStorage.removeItem(CACHE_KEY);
+  }
+};
+
+const entryKey = (id: string, info: SessionInfo) => `${id}|${getSelectedProviderId()}|${info.tradingDate}|${info.session}`;
+
+const isFresh = (entry: CacheEntry<unknown> | undefined, info: SessionInfo, now: number): boolean =>
+  !!entry && now - new Date(entry.cachedAt).getTime() < SESSION_TTL_MS[info.session];
+
+// Drops entries from earlier sessions so the store does not grow without bound
+const pruneStore = (store: CacheStore, info: SessionInfo): CacheStore => {
+  const suffix = `|${info.tradingDate}|${info.session}`;
+  return Object.fromEntries(Object.entries(store).filter(([key]) => key.endsWith(suffix)));
+};
+
+export const getCachedAnalyses = (
+  symbols: string[],
+  info: SessionInfo = getMarketSession()
+): Record<string, StockAnalysis> => {
+  const store = loadStore();
+  const now = Date.now();
+  const hits: Record<string, StockAnalysis> = {};
+  symbols.forEach(symbol => {
+    const entry = store[entryKey(symbol, info)] as CacheEntry<StockAnalysis> | undefined;
+    if (isFresh(entry, info, now)) {
+      hits[symbol] = { ...entry!.data, cachedAt: entry!.cachedAt };
+    }
+  });
+  return hits;
+};
+
+export const putCachedAnalyses = (stocks: StockAnalysis[], info: SessionInfo = getMarketSession()) => {
+  const store = pruneStore(loadStore(), info);
+  stocks.forEach(stock => {
+    store[entryKey(stock.symbol, info)] = { data: stock, cachedAt: stock.cachedAt || new Date().toISOString() };
+  });
+  saveStore(store);
+};
+
+export const getCachedTrends = (info: SessionInfo = getMarketSession()): StockAnalysis[] | null => {
+  const entry = loadStore()[entryKey(TRENDS_KEY, info)] as CacheEntry<StockAnalysis[]> | undefined;
+  return isFresh(entry, info, Date.now()) ? entry!.data : null;
+};
+
+export const putCachedTrends = (stocks: StockAnalysis[], info: SessionInfo = getMarketSession()) => {
+  const store = pruneStore(loadStore(), info);
+  store[entryKey(TRENDS_KEY, info)] = { data: stocks, cachedAt: new Date().toISOString() };
+  saveStore(store);
+};
+
+export const clearAnalysisCache = () => {
+  localStorage.removeItem(CACHE_KEY);
+};
@@ -0,0 +1,91 @@
+import { AnalysisChange, AnalysisSnapshot, StockAnalysis, TrackedAnalysisField } from "../types";
+
+/**
+ * Dated snapshot of every analysis run per symbol, so earlier calls and target
+ * prices survive the next run overwriting finance_portfolio_data.
+ */
+
+const HISTORY_KEY = 'finance_analysis_history';
+
+// Snapshots kept per symbol; about four months of daily runs
+const HISTORY_LIMIT = 120;
+// Kept per symbol when storage runs out
+const TRIMMED_LIMIT = 30;
+
+export const TRACKED_FIELDS: TrackedAnalysisField[] = ['recommendation', 'suggestBuyPrice', 'suggestSellPrice', 'currentPrice'];
+
+export const ANALYSIS_FIELD_LABELS: Record<TrackedAnalysisField, string> = {
+  recommendation: '建議',
+  suggestBuyPrice: '買入目標',
+  suggestSellPrice: '賣出目標',
+  currentPrice: '現價',
+};
+
+export const RECOMMENDATION_LABELS: Record<StockAnalysis['recommendation'], string> = {
+  BUY: '買入',
+  SELL: '賣出',
+  HOLD: '續抱',
+};
+
+type HistoryStore = Record<string, AnalysisSnapshot[]>;
+
+export const getAnalysisHistories = (): HistoryStore => {
+  try {
+    const saved = localStorage.getItem(HISTORY_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const getAnalysisHistory = (symbol: string): AnalysisSnapshot[] => getAnalysisHistories()[symbol] || [];
+
+export const saveAnalysisHistories = (store: HistoryStore) => {
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(store));
+  } catch (e) {
+    // Quota exceeded: keep only the recent snapshots rather than losing the run
+    console.warn("Analysis history write failed, trimming", e);
+    const trimmed = Object.fromEntries(Object.entries(store).map(([s, list]) => [s, list.slice(-TRIMMED_LIMIT)]));
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(trimmed));
+  }
+};
+
+const toSnapshot = (stock: StockAnalysis, recordedAt: string): AnalysisSnapshot => ({
+  recordedAt,
+  name: stock.name,
+  recommendation: stock.recommendation,
+  currentPrice: stock.currentPrice,
+  suggestBuyPrice: stock.suggestBuyPrice,
+  suggestSellPrice: stock.suggestSellPrice,
+  ...(stock.priceAsOf ? { priceAsOf: stock.priceAsOf } : {}),
+});
+
+// Appends a snapshot per stock; analyses served again from the cache are not recorded twice
+export const recordAnalysisRun = (stocks: StockAnalysis[], now: Date = new Date()) => {
+  const store = getAnalysisHistories();
+  stocks.forEach(stock => {
+    const recordedAt = stock.cachedAt || now.toISOString();
+    const list = store[stock.symbol] || [];
+    if (list.some(s => s.recordedAt === recordedAt)) return;
+    store[stock.symbol] = [...list, toSnapshot(stock, recordedAt)]
+      .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt))
+      .slice(-HISTORY_LIMIT);
+  });
+  saveAnalysisHistories(store);
+};
+
+export const diffSnapshots = (previous: AnalysisSnapshot, current: AnalysisSnapshot): AnalysisChange[] =>
+  TRACKED_FIELDS
+    .filter(field => previous[field] !== current[field])
+    .map(field => ({ field, before: previous[field], after: current[field] }));
+
+// What changed between the two most recent runs of a symbol
+export const latestChanges = (history: AnalysisSnapshot[]): AnalysisChange[] =>
+  history.length < 2 ? [] : diffSnapshots(history[history.length - 2], history[history.length - 1]);
+
+const formatValue = (field: TrackedAnalysisField, value: string | number) =>
+  field === 'recommendation' ? RECOMMENDATION_LABELS[value as StockAnalysis['recommendation']] || String(value) : String(value);
+
+export const describeChange = (change: AnalysisChange): string =>
+  `${ANALYSIS_FIELD_LABELS[change.field]} ${formatValue(change.field, change.before)} → ${formatValue(change.field, change.after)}`;
@@ -0,0 +1,249 @@
+import { ColumnMapping, DividendEvent, ImportField, ImportKind, ImportRow, Transaction, TransactionType } from "../types";
+import { parseCsv, parseTwNumber, parseTwDate, findColumn } from "./csv";
+import { resolveSecurity } from "./securityMaster";
+import { computePositions, newTransactionId, saveTransactions, validateTransaction } from "./ledger";
+import { accountOf, DEFAULT_ACCOUNT_ID } from "./accounts";
+import { buyCosts, sellCosts } from "./tradingCosts";
+import { LOT_SIZE } from "./lots";
+import { taipeiDate } from "./tradingCalendar";
+
+/**
+ * Reads broker trade confirmations and TDCC (集保) holdings statements exported
+ * as CSV, and turns them into ledger transactions. Headers differ per broker,
+ * so columns are matched by alias and can be remapped in the import wizard.
+ */
+
+export const IMPORT_KIND_LABELS: Record<ImportKind, string> = {
+  TRADES: '券商成交明細 / 對帳單',
+  HOLDINGS: '集保庫存明細',
+};
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  symbol: '股票代號',
+  date: '成交日期',
+  side: '買賣別',
+  quantity: '股數',
+  price: '成交價',
+  fee: '手續費',
+  tax: '交易稅',
+  note: '備註',
+};
+
+export const REQUIRED_FIELDS: Record<ImportKind, ImportField[]> = {
+  TRADES: ['symbol', 'date', 'side', 'quantity', 'price'],
+  HOLDINGS: ['symbol', 'quantity'],
+};
+
+// Header names seen in exports from 元大, 富邦, 凱基, 國泰, 永豐金 and the TDCC e-passbook
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  symbol: ['股票代號', '證券代號', '代號', '商品代號', '股票代碼', '代碼', '商品', '股票名稱', '證券名稱', 'symbol', 'code'],
+  date: ['成交日期', '交易日期', '日期', '委託日期', '交割日期', '資料日期', 'date', 'tradedate'],
+  side: ['買賣別', '買賣', '交易別', '交易類別', '種類', 'side', 'action', 'type'],
+  quantity: ['成交股數', '股數', '成交數量', '數量', '集保庫存', '庫存股數', '集保餘額', '餘額', '庫存', 'quantity', 'shares'],
+  price: ['成交價', '成交單價', '成交價格', '價格', '單價', '成本均價', '平均成本', 'price'],
+  fee: ['手續費', '手續費用', 'fee', 'commission'],
+  tax: ['交易稅', '證交稅', '交易稅額', 'tax'],
+  note: ['備註', '說明', '委託書號', 'note', 'memo'],
+};
+
+const EMPTY_MAPPING: ColumnMapping = { symbol: -1, date: -1, side: -1, quantity: -1, price: -1, fee: -1, tax: -1, note: -1 };
+
+const HEADER_SEARCH_ROWS = 10;
+
+export interface ImportFile {
+  header: string[];
+  rows: string[][];
+  // Line in the file where the data rows start, for error messages
+  firstDataLine: number;
+}
+
+// Broker exports often put the account name and a date range above the header row
+export const readImportFile = (text: string): ImportFile => {
+  const all = parseCsv(text);
+  if (all.length === 0) throw new Error('CSV 檔案是空的');
+  const headerIndex = all
+    .slice(0, HEADER_SEARCH_ROWS)
+    .findIndex(row => findColumn(row, FIELD_ALIASES.symbol) !== -1 && findColumn(row, FIELD_ALIASES.quantity) !== -1);
+  if (headerIndex === -1) throw new Error('找不到標題列，請確認檔案包含「股票代號」與「股數」欄位');
+  return { header: all[headerIndex], rows: all.slice(headerIndex + 1), firstDataLine: headerIndex + 2 };
+};
+
+// Each column is assigned to at most one field, in alias order
+export const detectColumns = (header: string[], kind: ImportKind): ColumnMapping => {
+  const mapping = { ...EMPTY_MAPPING };
+  const used = new Set<number>();
+  (Object.keys(FIELD_ALIASES) as ImportField[]).forEach(field => {
+    if (kind === 'HOLDINGS' && (field === 'side' || field === 'fee' || field === 'tax')) return;
+    for (const alias of FIELD_ALIASES[field]) {
+      const idx = findColumn(header, [alias]);
+      if (idx !== -1 && !used.has(idx)) {
+        mapping[field] = idx;
+        used.add(idx);
+        return;
+      }
+    }
+  });
+  return mapping;
+};
+
+// A file without a buy/sell column is taken to be a holdings statement
+export const detectImportKind = (header: string[]): ImportKind =>
+  findColumn(header, FIELD_ALIASES.side) === -1 ? 'HOLDINGS' : 'TRADES';
+
+export const missingFields = (mapping: ColumnMapping, kind: ImportKind): ImportField[] =>
+  REQUIRED_FIELDS[kind].filter(field => mapping[field] === -1);
+
+export const parseSide = (value: string | undefined): 'BUY' | 'SELL' | null => {
+  const v = (value || '').trim().toUpperCase();
+  if (!v) return null;
+  // 現買 / 融資買進 / 沖買 ... and 現賣 / 融券賣出 / 沖賣 ...
+  if (v.includes('買') || v === 'B' || v === 'BUY') return 'BUY';
+  if (v.includes('賣') || v === 'S' || v === 'SELL') return 'SELL';
+  return null;
+};
+
+// Cells look like "2330", "2330 台積電", "台積電(2330)" or just the name
+export const extractSymbol = (value: string | undefined): string | null => {
+  const cell = (value || '').trim();
+  if (!cell) return null;
+  const code = cell.match(/\b(\d{4,6}[A-Z]?)\b/);
+  if (code && resolveSecurity(code[1])) return code[1];
+  return resolveSecurity(cell)?.code || resolveSecurity(cell.replace(/\s*\(.*\)$/, ''))?.code || null;
+};
+
+export interface ImportOptions {
+  kind: ImportKind;
+  accountId: string;
+  // The statement date for holdings files without a date column
+  statementDate?: string;
+  // Quantities given in 張 rather than shares
+  quantityInLots?: boolean;
+  // Fallback price for holdings rows without a cost column
+  prices?: Record<string, number>;
+}
+
+const txKey = (tx: Transaction) => [accountOf(tx), tx.symbol, tx.type, tx.date, tx.quantity, tx.price].join('|');
+
+const estimateFee = (symbol: string, type: TransactionType, price: number, quantity: number, date: string, oddLot: boolean) => {
+  if (type === 'BUY') return buyCosts(price, quantity, undefined, { oddLot }).commission;
+  const costs = sellCosts(symbol, price, quantity, undefined, { date, oddLot });
+  return costs.commission + costs.tax;
+};
+
+const cell = (row: string[], idx: number): string | undefined => (idx === -1 ? undefined : row[idx]);
+
+/**
+ * Turns the data rows into transactions for the preview. Trades already in the
+ * ledger (same account, symbol, side, date, shares and price) are marked as
+ * duplicates; identical rows within one file are kept since partial fills repeat.
+ * Holdings rows become the BUY or SELL that brings the ledger to the statement.
+ */
+export const buildImportPreview = (
+  file: ImportFile,
+  mapping: ColumnMapping,
+  existing: Transaction[],
+  options: ImportOptions,
+  dividends: DividendEvent[] = []
+): ImportRow[] => {
+  const { kind, accountId } = options;
+  const unit = options.quantityInLots ? LOT_SIZE : 1;
+  const accountTxs = existing.filter(t => accountOf(t) === accountId);
+  const remaining = new Map<string, number>();
+  accountTxs.forEach(t => remaining.set(txKey(t), (remaining.get(txKey(t)) || 0) + 1));
+
+  return file.rows.map((row, i): ImportRow => {
+    const line = file.firstDataLine + i;
+    const symbol = extractSymbol(cell(row, mapping.symbol));
+    if (!symbol) return { line, status: 'ERROR', message: `證券清單中查無「${cell(row, mapping.symbol) || ''}」` };
+    const shares = parseTwNumber(cell(row, mapping.quantity));
+    if (shares === null) return { line, status: 'ERROR', message: '股數不是數字' };
+    const quantity = Math.round(Math.abs(shares) * unit);
+    const note = cell(row, mapping.note)?.trim();
+    const base = {
+      id: newTransactionId(),
+      symbol,
+      ...(accountId !== DEFAULT_ACCOUNT_ID ? { accountId } : {}),
+    };
+
+    if (kind === 'HOLDINGS') {
+      const date = parseTwDate(cell(row, mapping.date)) || options.statementDate || taipeiDate();
+      const held = computePositions(accountTxs.filter(t => t.date <= date), undefined, dividends.filter(d => d.exDate <= date))[symbol]?.quantity || 0;
+      const diff = quantity - held;
+      if (diff === 0) return { line, status: 'DUPLICATE', message: '帳上股數與庫存一致' };
+      const price = parseTwNumber(cell(row, mapping.price)) ?? options.prices?.[symbol] ?? 0;
+      const type: TransactionType = diff > 0 ? 'BUY' : 'SELL';
+      const tx: Transaction = {
+        ...base,
+        type,
+        date,
+        quantity: Math.abs(diff),
+        price,
+        fee: 0,
+        note: note || `集保庫存調整 (庫存 ${quantity} 股)`,
+      };
+      return { line, status: 'NEW', transaction: tx, ...(price === 0 ? { message: '無成本價，以 0 元入帳' } : {}) };
+    }
+
+    const date = parseTwDate(cell(row, mapping.date));
+    if (!date) return { line, status: 'ERROR', message: `無法辨識日期「${cell(row, mapping.date) || ''}」` };
+    const type = parseSide(cell(row, mapping.side));
+    if (!type) return { line, status: 'ERROR', message: `無法辨識買賣別「${cell(row, mapping.side) || ''}」` };
+    const price = parseTwNumber(cell(row, mapping.price));
+    if (price === null) return { line, status: 'ERROR', message: '成交價不是數字' };
+    const oddLot = quantity < LOT_SIZE;
+    const fee = parseTwNumber(cell(row, mapping.fee));
+    const tax = parseTwNumber(cell(row, mapping.tax));
+    const tx: Transaction = {
+      ...base,
+      type,
+      date,
+      quantity,
+      price,
+      // Fee and tax columns are summed; with neither, the configured broker costs are estimated
+      fee: fee === null && tax === null
+        ? estimateFee(symbol, type, price, quantity, date, oddLot)
+        : Math.abs(fee || 0) + Math.abs(tax || 0),
+      ...(oddLot ? { oddLot: true } : {}),
+      ...(note ? { note } : {}),
+    };
+    const key = txKey(tx);
+    const left = remaining.get(key) || 0;
+    if (left > 0) {
+      remaining.set(key, left - 1);
+      return { line, status: 'DUPLICATE', transaction: tx, message: '已在交易紀錄中' };
+    }
+    return { line, status: 'NEW', transaction: tx };
+  });
+};
+
+export interface ImportResult {
+  transactions: Transaction[];
+  imported: Transaction[];
+  // NEW rows the ledger rejected, e.g. a sale of more shares than were held
+  rejected: ImportRow[];
+}
+
+// Adds the NEW rows oldest first (buys before sells on the same day) and saves once
+export const mergeImport = (existing: Transaction[], preview: ImportRow[], dividends: DividendEvent[] = []): ImportResult => {
+  const candidates = preview
+    .filter(r => r.status === 'NEW' && r.transaction)
+    .sort((a, b) =>
+      a.transaction!.date.localeCompare(b.transaction!.date) ||
+      Number(a.transaction!.type === 'SELL') - Number(b.transaction!.type === 'SELL') ||
+      a.line - b.line
+    );
+  let transactions = existing;
+  const imported: Transaction[] = [];
+  const rejected: ImportRow[] = [];
+  candidates.forEach(row => {
+    try {
+      validateTransaction(transactions, row.transaction!, dividends);
+      transactions = [...transactions, row.transaction!];
+      imported.push(row.transaction!);
+    } catch (e) {
+      rejected.push({ ...row, status: 'ERROR', message: e instanceof Error ? e.message : '無法匯入' });
+    }
+  });
+  if (imported.length > 0) saveTransactions(transactions);
+  return { transactions, imported, rejected };
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { parseTwDate } from "./csv";
+
+describe("parseTwDate", () => {
+  it("reads ROC, compact and ISO dates", () => {
+    expect(parseTwDate("114/10/17")).toBe("2025-10-17");
+    expect(parseTwDate("1141017")).toBe("2025-10-17");
+    expect(parseTwDate("2025/10/17")).toBe("2025-10-17");
+    expect(parseTwDate("2025-10-17")).toBe("2025-10-17");
+  });
+
+  it("accepts 29 February only in leap years", () => {
+    expect(parseTwDate("113/02/29")).toBe("2024-02-29");
+    expect(parseTwDate("114/02/29")).toBeNull();
+  });
+
+  it("rejects days the month does not have", () => {
+    expect(parseTwDate("113/02/30")).toBeNull();
+    expect(parseTwDate("113/04/31")).toBeNull();
+    expect(parseTwDate("113/13/01")).toBeNull();
+    expect(parseTwDate("113/00/10")).toBeNull();
+  });
+
+  it("returns null for anything else", () => {
+    expect(parseTwDate(undefined)).toBeNull();
+    expect(parseTwDate("")).toBeNull();
+    expect(parseTwDate("明天")).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+// Minimal RFC 4180 style CSV parser: quoted fields, escaped quotes ("") and CRLF line endings
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip BOM that Excel adds to UTF-8 exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map(r => r.map(f => f.trim()))
+    .filter(r => r.some(f => f !== ''));
+};
+
+// Parses numbers as they appear in Taiwan exchange files, e.g. "1,025.00", "--" or "X0.00"
+export const parseTwNumber = (value: string | undefined): number | null => {
+  if (value === undefined) return null;
+  const cleaned = value.replace(/[,\s]/g, '').replace(/^[Xx+]/, '');
+  if (cleaned === '' || cleaned === '--' || cleaned === '-') return null;
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : null;
+};
+
+// Finds the index of the first header that matches one of the aliases (case-insensitive)
+export const findColumn = (header: string[], aliases: string[]): number => {
+  const normalized = header.map(h => h.toLowerCase().replace(/\s+/g, ''));
+  for (const alias of aliases) {
+    const idx = normalized.indexOf(alias.toLowerCase().replace(/\s+/g, ''));
+    if (idx !== -1) return idx;
+  }
+  return -1;
+};
+
+/**
+ * The one date parser for exchange files, broker statements and holiday lists.
+ * Accepts ISO and slash dates (2025/10/17) as well as ROC dates ("114/10/17"
+ * or "1141017"); anything else, or an impossible month or day, gives null.
+ */
+export const parseTwDate = (value: string | undefined): string | null => {
+  if (!value) return null;
+  const trimmed = value.trim();
+  const parts = trimmed.split(/[\/\-.]/);
+  const digits = trimmed.replace(/\D/g, '');
+  const [year, month, day] = parts.length === 3 && parts.every(p => /^\d+$/.test(p))
+    ? parts.map(Number)
+    : digits.length === 8
+      ? [digits.slice(0, 4), digits.slice(4, 6), digits.slice(6)].map(Number)
+      : digits.length === 7
+        ? [digits.slice(0, 3), digits.slice(3, 5), digits.slice(5)].map(Number)
+        : [];
+  if (!year || !month || !day) return null;
+  const isoYear = year < 1911 ? year + 1911 : year;
+  // Round-trip through the calendar so 02/30 or 04/31 do not roll into the next month
+  const date = new Date(Date.UTC(isoYear, month - 1, day));
+  if (date.getUTCFullYear() !== isoYear || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${isoYear}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const escapeCsvField = (value: string | number | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Inverse of parseCsv; the BOM makes Excel open the file as UTF-8
+export const toCsv = (rows: (string | number | null | undefined)[][]): string =>
+  '\ufeff' + rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { FxRate, Position, Transaction } from "../types";
+import { computePositions } from "./ledger";
+import { conversionRate, convertHolding, toBaseTransactions } from "./currency";
+
+const rate = (currency: FxRate["currency"], date: string, twdPerUnit: number): FxRate =>
+  ({ currency, date, twdPerUnit, source: "MANUAL" });
+
+const RATES = [rate("USD", "2025-01-10", 30), rate("USD", "2025-06-10", 32), rate("JPY", "2025-06-10", 0.2)];
+const CURRENCIES = { AAPL: "USD" as const };
+
+const buy = (symbol: string, date: string, quantity: number, price: number, fxRate?: number): Transaction =>
+  ({ id: `${symbol}-${date}`, symbol, type: "BUY", date, quantity, price, fee: 0, ...(fxRate ? { fxRate } : {}) });
+
+describe("conversionRate", () => {
+  it("uses the latest rate on or before the day", () => {
+    expect(conversionRate("USD", "TWD", "2025-03-01", RATES)).toBe(30);
+    expect(conversionRate("USD", "TWD", "2025-06-10", RATES)).toBe(32);
+    expect(conversionRate("TWD", "USD", "2025-06-10", RATES)).toBeCloseTo(1 / 32);
+  });
+
+  it("crosses two foreign currencies through TWD", () => {
+    expect(conversionRate("USD", "JPY", "2025-06-10", RATES)).toBeCloseTo(160);
+  });
+
+  it("falls back to the earliest rate before the first one was recorded", () => {
+    expect(conversionRate("USD", "TWD", "2024-12-31", RATES)).toBe(30);
+  });
+});
+
+describe("toBaseTransactions", () => {
+  it("restates foreign trades at the rate of their day, or the broker's rate when recorded", () => {
+    const [dayRate, brokerRate] = toBaseTransactions(
+      [buy("AAPL", "2025-03-01", 10, 150), buy("AAPL", "2025-06-11", 10, 200, 31.5)], "TWD", CURRENCIES, RATES
+    );
+    expect(dayRate.price).toBe(4500);
+    expect(brokerRate.price).toBe(6300);
+  });
+
+  it("leaves TWD trades alone in a TWD base and converts them into another one", () => {
+    const tx = buy("2330", "2025-06-11", 1000, 960);
+    expect(toBaseTransactions([tx], "TWD", CURRENCIES, RATES)[0]).toBe(tx);
+    expect(toBaseTransactions([tx], "USD", CURRENCIES, RATES)[0].price).toBeCloseTo(30);
+  });
+});
+
+describe("convertHolding", () => {
+  it("splits unrealized P&L into the price move at today's rate and the FX change on the cost", () => {
+    // 10 shares bought at US$150 when US$1 was NT$30, now US$200 at NT$32
+    const transactions = [buy("AAPL", "2025-03-01", 10, 150)];
+    const local = computePositions(transactions, "AVERAGE").AAPL;
+    const converted = computePositions(toBaseTransactions(transactions, "TWD", CURRENCIES, RATES), "AVERAGE").AAPL;
+    const holding = convertHolding(local, converted, 200, 32);
+    expect(holding.marketValue).toBe(64000);
+    expect(holding.costBasis).toBe(45000);
+    expect(holding.pricePnl).toBe(16000); // (200 - 150) x 10 x 32
+    expect(holding.fxPnl).toBe(3000); // 1,500 x (32 - 30)
+    expect(holding.pricePnl + holding.fxPnl).toBe(holding.marketValue - holding.costBasis);
+  });
+
+  it("reports no FX change without a converted position", () => {
+    const local: Position = { symbol: "AAPL", quantity: 10, costBasis: 1500, averageCost: 150, realizedPnl: 0 };
+    expect(convertHolding(local, undefined, 200, 32)).toEqual({ marketValue: 64000, costBasis: 48000, pricePnl: 16000, fxPnl: 0 });
+  });
+});
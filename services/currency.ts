@@ -0,0 +1,202 @@
+import { Currency, FxRate, Position, Transaction } from "../types";
+import { getMarketDataProvider } from "./marketDataService";
+import { taipeiDate } from "./tradingCalendar";
+
+/**
+ * Currencies of foreign holdings and their TWD exchange rates. Rates are kept
+ * by date so each trade is converted at the rate of its own day; comparing
+ * that with today's rate is what splits FX gains from price gains.
+ */
+
+const SYMBOL_CURRENCIES_KEY = 'finance_symbol_currencies';
+const BASE_CURRENCY_KEY = 'finance_base_currency';
+const FX_RATES_KEY = 'finance_fx_rates';
+
+// Roughly a year and a half of daily rates per currency
+const FX_HISTORY_LIMIT = 400;
+
+export const CURRENCIES: Currency[] = ['TWD', 'USD', 'HKD', 'JPY', 'EUR', 'CNY'];
+
+export const CURRENCY_LABELS: Record<Currency, string> = {
+  TWD: '新台幣',
+  USD: '美元',
+  HKD: '港幣',
+  JPY: '日圓',
+  EUR: '歐元',
+  CNY: '人民幣',
+};
+
+export const CURRENCY_SYMBOLS: Record<Currency, string> = {
+  TWD: '$',
+  USD: 'US$',
+  HKD: 'HK$',
+  JPY: 'JP¥',
+  EUR: '€',
+  CNY: 'CN¥',
+};
+
+export const FX_SOURCE_LABELS: Record<FxRate['source'], string> = {
+  TWSE_TPEX: '臺灣銀行',
+  CSV: '匯入 CSV',
+  MOCK_SERVER: '模擬伺服器',
+  MANUAL: '手動輸入',
+};
+
+// Foreign tickers as brokers write them: AAPL, BRK.B, 0700 (HK), 7203 (JP)
+const FOREIGN_TICKER_PATTERN = /^[A-Z0-9][A-Z0-9.\-]{0,11}$/;
+
+export const isValidForeignTicker = (code: string): boolean => FOREIGN_TICKER_PATTERN.test(code.trim().toUpperCase());
+
+// --- Holding currencies ---
+
+// Only foreign holdings are stored; anything missing trades in TWD
+export const getSymbolCurrencies = (): Record<string, Currency> => {
+  try {
+    const saved = localStorage.getItem(SYMBOL_CURRENCIES_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveSymbolCurrencies = (currencies: Record<string, Currency>) => {
+  localStorage.setItem(SYMBOL_CURRENCIES_KEY, JSON.stringify(currencies));
+};
+
+export const setSymbolCurrency = (symbol: string, currency: Currency) => {
+  const { [symbol]: _previous, ...rest } = getSymbolCurrencies();
+  saveSymbolCurrencies(currency === 'TWD' ? rest : { ...rest, [symbol]: currency });
+};
+
+export const currencyOf = (symbol: string, currencies: Record<string, Currency> = getSymbolCurrencies()): Currency =>
+  currencies[symbol] || 'TWD';
+
+export const getBaseCurrency = (): Currency => {
+  const saved = localStorage.getItem(BASE_CURRENCY_KEY) as Currency | null;
+  return saved && CURRENCIES.includes(saved) ? saved : 'TWD';
+};
+
+export const setBaseCurrency = (currency: Currency) => {
+  localStorage.setItem(BASE_CURRENCY_KEY, currency);
+};
+
+// --- Rates ---
+
+export const getFxRates = (): FxRate[] => {
+  try {
+    const saved = localStorage.getItem(FX_RATES_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveFxRates = (rates: FxRate[]) => {
+  localStorage.setItem(FX_RATES_KEY, JSON.stringify(rates));
+};
+
+// A rate replaces any stored rate for the same currency and day
+export const recordFxRates = (incoming: FxRate[]): FxRate[] => {
+  const byKey = new Map(getFxRates().map(r => [`${r.currency}|${r.date}`, r]));
+  incoming
+    .filter(r => r.currency !== 'TWD' && r.twdPerUnit > 0)
+    .forEach(r => byKey.set(`${r.currency}|${r.date}`, r));
+  const sorted = [...byKey.values()].sort((a, b) => a.date.localeCompare(b.date));
+  const rates = CURRENCIES.flatMap(c => sorted.filter(r => r.currency === c).slice(-FX_HISTORY_LIMIT));
+  saveFxRates(rates);
+  return rates;
+};
+
+export const setManualFxRate = (currency: Currency, twdPerUnit: number, date: string = taipeiDate()): FxRate[] => {
+  if (!(twdPerUnit > 0)) throw new Error('匯率必須大於 0');
+  return recordFxRates([{ currency, date, twdPerUnit, source: 'MANUAL' }]);
+};
+
+// Fetches today's rates from the selected quote provider and keeps them
+export const fetchFxRates = async (currencies: Currency[]): Promise<FxRate[]> => {
+  const provider = getMarketDataProvider();
+  if (!provider.getFxRates) throw new Error(`報價來源「${provider.label}」不提供匯率，請手動輸入`);
+  const wanted = currencies.filter(c => c !== 'TWD');
+  if (wanted.length === 0) return getFxRates();
+  const fetched = await provider.getFxRates(wanted);
+  if (fetched.length === 0) throw new Error(`報價來源「${provider.label}」查無 ${wanted.join('、')} 的匯率`);
+  return recordFxRates(fetched);
+};
+
+// Latest stored rate of a currency on or before `date`
+export const latestFxRate = (currency: Currency, date?: string, rates: FxRate[] = getFxRates()): FxRate | undefined => {
+  const series = rates.filter(r => r.currency === currency && (!date || r.date <= date));
+  return series.reduce<FxRate | undefined>((latest, r) => (!latest || r.date >= latest.date ? r : latest), undefined);
+};
+
+/**
+ * TWD per unit on `date` (today when omitted): the latest rate on or before
+ * it, or the earliest rate known for days before the first one was recorded.
+ * Undefined when the currency has no rate at all.
+ */
+export const twdPerUnit = (currency: Currency, date?: string, rates: FxRate[] = getFxRates()): number | undefined => {
+  if (currency === 'TWD') return 1;
+  const rate = latestFxRate(currency, date, rates)
+    ?? rates.filter(r => r.currency === currency).sort((a, b) => a.date.localeCompare(b.date))[0];
+  return rate?.twdPerUnit;
+};
+
+// Units of `to` per unit of `from`
+export const conversionRate = (from: Currency, to: Currency, date?: string, rates: FxRate[] = getFxRates()): number | undefined => {
+  if (from === to) return 1;
+  const fromTwd = twdPerUnit(from, date, rates);
+  const toTwd = twdPerUnit(to, date, rates);
+  return fromTwd !== undefined && toTwd ? fromTwd / toTwd : undefined;
+};
+
+// Today's rate into `base` for every currency that has one
+export const currentRates = (base: Currency, rates: FxRate[] = getFxRates()): Partial<Record<Currency, number>> =>
+  Object.fromEntries(
+    CURRENCIES
+      .map(c => [c, conversionRate(c, base, undefined, rates)] as const)
+      .filter(([, rate]) => rate !== undefined)
+  );
+
+// --- Conversion of the ledger ---
+
+/**
+ * Restates each trade's price and fee in the base currency at the rate of its
+ * day (or the broker's own rate when recorded), so replaying the result gives
+ * cost basis and realized P&L as they were actually paid in the base currency.
+ * Trades with no usable rate are left as they are; their holdings cannot be
+ * valued today either and are left out of converted totals.
+ */
+export const toBaseTransactions = (
+  transactions: Transaction[],
+  base: Currency,
+  currencies: Record<string, Currency> = getSymbolCurrencies(),
+  rates: FxRate[] = getFxRates()
+): Transaction[] =>
+  transactions.map(tx => {
+    const currency = currencyOf(tx.symbol, currencies);
+    if (currency === base || tx.type === 'SPLIT') return tx;
+    const baseTwd = twdPerUnit(base, tx.date, rates);
+    const rate = currency !== 'TWD' && tx.fxRate && baseTwd
+      ? tx.fxRate / baseTwd
+      : conversionRate(currency, base, tx.date, rates);
+    return rate === undefined ? tx : { ...tx, price: tx.price * rate, fee: tx.fee * rate };
+  });
+
+export interface ConvertedHolding {
+  marketValue: number;
+  costBasis: number; // What the shares still held cost in the base currency
+  pricePnl: number; // Price move, valued at today's rate
+  fxPnl: number; // Change in the base value of the original cost
+}
+
+/**
+ * Splits a holding's unrealized P&L in the base currency. `local` is the
+ * position in its trading currency, `converted` the same position replayed
+ * from toBaseTransactions, and `rate` today's rate into the base currency.
+ */
+export const convertHolding = (local: Position, converted: Position | undefined, price: number, rate: number): ConvertedHolding => {
+  const marketValue = local.quantity * price * rate;
+  const costAtToday = local.costBasis * rate;
+  const costBasis = converted?.costBasis ?? costAtToday;
+  return { marketValue, costBasis, pricePnl: marketValue - costAtToday, fxPnl: costAtToday - costBasis };
+};
@@ -0,0 +1,382 @@
+import { AnalysisSnapshot, BackupBundle, BackupData, Currency, ExportDataset, RestoreMode, RetirementPlan, StockAnalysis } from "../types";
+import { getAccounts, saveAccounts, getAccountSymbols, saveAccountSymbols, accountOf } from "./accounts";
+import {
+  getTransactions,
+  saveTransactions,
+  getCostBasisMethod,
+  setCostBasisMethod,
+  computeAccountPositions,
+  sortTransactions,
+  TRANSACTION_TYPE_LABELS,
+} from "./ledger";
+import { getDividendEvents, saveDividendEvents } from "./dividends";
+import { getFeeSettings, saveFeeSettings } from "./tradingCosts";
+import {
+  getSymbolCurrencies,
+  saveSymbolCurrencies,
+  currencyOf,
+  getBaseCurrency,
+  setBaseCurrency,
+  getFxRates,
+  saveFxRates,
+  CURRENCIES,
+} from "./currency";
+import { getAlertRules, saveAlertRules, getAlertInbox, saveAlertInbox, ALERT_CONDITION_LABELS } from "./alerts";
+import { getAnalysisHistories, saveAnalysisHistories } from "./analysisHistory";
+import { getValuations, saveValuations } from "./performance";
+import { toCsv } from "./csv";
+import { buildXlsx, Sheet } from "./xlsx";
+import { taipeiDate } from "./tradingCalendar";
+
+/**
+ * Export of the user's data as CSV, XLSX or a versioned JSON bundle, and
+ * restore from the JSON bundle. API keys and caches are never exported.
+ */
+
+const PORTFOLIO_DATA_KEY = 'finance_portfolio_data';
+const RETIREMENT_PLAN_KEY = 'finance_retirement_plan';
+
+export const BACKUP_FORMAT = 'finance-pro-backup';
+// Bump when BackupData changes shape, and teach parseBackup to upgrade older bundles
+// v2: currencies, FX rates, alerts, analysis history and valuations are always present
+export const BACKUP_VERSION = 2;
+
+export const EXPORT_DATASET_LABELS: Record<ExportDataset, string> = {
+  HOLDINGS: '持股明細',
+  ANALYSES: 'AI 分析結果',
+  TRANSACTIONS: '交易紀錄',
+  DIVIDENDS: '除權息紀錄',
+  RETIREMENT: '退休規劃',
+};
+
+export const RESTORE_MODE_LABELS: Record<RestoreMode, string> = {
+  MERGE: '合併 (保留現有資料，只加入備份中沒有的項目)',
+  REPLACE: '取代 (清除現有資料，完全以備份為準)',
+};
+
+const RETIREMENT_PLAN_LABELS: Record<keyof RetirementPlan, string> = {
+  currentAge: '目前年齡',
+  retirementAge: '預計退休年齡',
+  currentSavings: '目前可投資資產',
+  monthlySavings: '每月儲蓄',
+  targetMonthlyPension: '目標月退休金',
+  expectedAnnualReturn: '預期年化報酬率 (%)',
+  insurancePrincipal: '儲蓄險本金',
+  insuranceRate: '儲蓄險利率 (%)',
+  insuranceYearDone: '儲蓄險繳費完成年度',
+};
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const getPortfolioStocks = (): StockAnalysis[] => readJson<StockAnalysis[]>(PORTFOLIO_DATA_KEY, []);
+
+// --- Tabular exports ---
+
+type Rows = (string | number | null | undefined)[][];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const holdingsRows = (): Rows => {
+  const accounts = getAccounts();
+  const names = Object.fromEntries(accounts.map(a => [a.id, a.name]));
+  const stocks = Object.fromEntries(getPortfolioStocks().map(s => [s.symbol, s]));
+  const currencies = getSymbolCurrencies();
+  // Positions are kept in each holding's own currency, so the row says which
+  const byAccount = computeAccountPositions(getTransactions(), getCostBasisMethod(), getDividendEvents());
+  const rows: Rows = [['帳戶', '代號', '名稱', '幣別', '股數', '平均成本', '持有成本', '現價', '市值', '未實現損益', '已實現損益']];
+  Object.entries(byAccount).forEach(([accountId, positions]) => {
+    Object.values(positions)
+      .filter(p => p.quantity > 0 || p.realizedPnl !== 0)
+      .forEach(p => {
+        const stock = stocks[p.symbol];
+        const marketValue = stock ? p.quantity * stock.currentPrice : null;
+        rows.push([
+          names[accountId] || accountId,
+          p.symbol,
+          stock?.name,
+          currencyOf(p.symbol, currencies),
+          p.quantity,
+          round2(p.averageCost),
+          Math.round(p.costBasis),
+          stock?.currentPrice,
+          marketValue === null ? null : Math.round(marketValue),
+          marketValue === null ? null : Math.round(marketValue - p.costBasis),
+          Math.round(p.realizedPnl),
+        ]);
+      });
+  });
+  return rows;
+};
+
+const analysisRows = (): Rows => [
+  ['代號', '名稱', '市值', '現價', '52週高', '52週低', '建議買入價', '建議賣出價', '建議', '預估年化殖利率', '報價來源', '報價日期', '分析', '情境試算'],
+  ...getPortfolioStocks().map(s => [
+    s.symbol, s.name, s.marketCap, s.currentPrice, s.high52Week, s.low52Week, s.suggestBuyPrice, s.suggestSellPrice,
+    s.recommendation, s.projectedAnnualYield, s.priceSource, s.priceAsOf, s.analysis, s.exampleScenario,
+  ]),
+];
+
+const transactionRows = (): Rows => {
+  const names = Object.fromEntries(getAccounts().map(a => [a.id, a.name]));
+  const currencies = getSymbolCurrencies();
+  return [
+    ['帳戶', '日期', '代號', '類別', '幣別', '股數', '成交價', '手續費/稅', '零股', '備註'],
+    ...sortTransactions(getTransactions()).map(t => [
+      names[accountOf(t)] || accountOf(t), t.date, t.symbol, TRANSACTION_TYPE_LABELS[t.type], currencyOf(t.symbol, currencies),
+      t.quantity, t.type === 'SPLIT' ? null : t.price, t.fee, t.oddLot ? '是' : '', t.note,
+    ]),
+  ];
+};
+
+const dividendRows = (): Rows => [
+  ['代號', '除權息日', '發放日', '現金股利 (元/股)', '股票股利 (元/股)', '備註'],
+  ...getDividendEvents()
+    .sort((a, b) => a.exDate.localeCompare(b.exDate))
+    .map(e => [e.symbol, e.exDate, e.payDate, e.cashPerShare, e.stockPerShare, e.note]),
+];
+
+const retirementRows = (): Rows => {
+  const plan = readJson<Partial<RetirementPlan>>(RETIREMENT_PLAN_KEY, {});
+  return [
+    ['項目', '數值'],
+    ...(Object.keys(RETIREMENT_PLAN_LABELS) as (keyof RetirementPlan)[]).map(key => [RETIREMENT_PLAN_LABELS[key], plan[key]]),
+  ];
+};
+
+const DATASET_ROWS: Record<ExportDataset, () => Rows> = {
+  HOLDINGS: holdingsRows,
+  ANALYSES: analysisRows,
+  TRANSACTIONS: transactionRows,
+  DIVIDENDS: dividendRows,
+  RETIREMENT: retirementRows,
+};
+
+export const exportCsv = (dataset: ExportDataset): string => toCsv(DATASET_ROWS[dataset]());
+
+export const exportXlsx = () =>
+  buildXlsx((Object.keys(DATASET_ROWS) as ExportDataset[]).map((dataset): Sheet => ({
+    name: EXPORT_DATASET_LABELS[dataset],
+    rows: DATASET_ROWS[dataset](),
+  })));
+
+// --- JSON bundle ---
+
+export const createBackup = (): BackupBundle => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  data: {
+    accounts: getAccounts(),
+    accountSymbols: getAccountSymbols(),
+    transactions: getTransactions(),
+    dividends: getDividendEvents(),
+    portfolioStocks: getPortfolioStocks(),
+    retirementPlan: readJson<RetirementPlan | null>(RETIREMENT_PLAN_KEY, null),
+    costMethod: getCostBasisMethod(),
+    feeSettings: getFeeSettings(),
+    symbolCurrencies: getSymbolCurrencies(),
+    baseCurrency: getBaseCurrency(),
+    fxRates: getFxRates(),
+    alertRules: getAlertRules(),
+    alertInbox: getAlertInbox(),
+    analysisHistory: getAnalysisHistories(),
+    valuations: getValuations(),
+  },
+});
+
+type JsonRecord = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isDate = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isCurrency = (value: unknown): value is Currency =>
+  typeof value === 'string' && (CURRENCIES as readonly string[]).includes(value);
+// Own keys only, so "toString" or "constructor" do not pass as a label key
+const isLabelKey = (labels: Record<string, string>, value: unknown): boolean =>
+  typeof value === 'string' && Object.hasOwn(labels, value);
+
+// Version 1 bundles may lack the fields added since; before foreign holdings everything was TWD
+const upgradeBackupData = (data: JsonRecord): JsonRecord => ({
+  ...data,
+  symbolCurrencies: data.symbolCurrencies ?? {},
+  baseCurrency: data.baseCurrency ?? 'TWD',
+  fxRates: data.fxRates ?? [],
+  alertRules: data.alertRules ?? [],
+  alertInbox: data.alertInbox ?? [],
+  analysisHistory: data.analysisHistory ?? {},
+  valuations: data.valuations ?? [],
+});
+
+// Returns the problems found in the bundle's data; empty when it can be restored
+const validateBackupData = (data: JsonRecord): string[] => {
+  const problems: string[] = [];
+  const checkList = (field: keyof BackupData, label: string, isValid: (item: JsonRecord) => boolean) => {
+    const list = data[field];
+    if (!Array.isArray(list)) {
+      problems.push(`缺少${label}`);
+      return;
+    }
+    const bad = list.findIndex(item => !isObject(item) || !isValid(item));
+    if (bad !== -1) problems.push(`${label}第 ${bad + 1} 筆格式錯誤`);
+  };
+
+  checkList('accounts', '帳戶', a => typeof a.id === 'string' && typeof a.name === 'string');
+  checkList('transactions', '交易紀錄', t =>
+    typeof t.id === 'string' && typeof t.symbol === 'string' && isLabelKey(TRANSACTION_TYPE_LABELS, t.type) &&
+    isDate(t.date) && isNumber(t.quantity) && isNumber(t.price) && isNumber(t.fee)
+  );
+  checkList('dividends', '除權息紀錄', d =>
+    typeof d.id === 'string' && typeof d.symbol === 'string' && isDate(d.exDate) &&
+    isNumber(d.cashPerShare) && isNumber(d.stockPerShare)
+  );
+  checkList('portfolioStocks', 'AI 分析結果', s => typeof s.symbol === 'string' && isNumber(s.currentPrice));
+  if (!isObject(data.accountSymbols) || !Object.values(data.accountSymbols).every(list =>
+    Array.isArray(list) && list.every(s => typeof s === 'string'))) {
+    problems.push('觀察名單格式錯誤');
+  }
+  if (data.retirementPlan !== null && !isObject(data.retirementPlan)) problems.push('退休規劃格式錯誤');
+  if (data.costMethod !== 'AVERAGE' && data.costMethod !== 'FIFO') problems.push('成本計算方式錯誤');
+  if (!isObject(data.feeSettings) || !isNumber(data.feeSettings.commissionDiscount)) problems.push('手續費設定格式錯誤');
+  if (!isObject(data.symbolCurrencies) || !Object.values(data.symbolCurrencies).every(isCurrency)) {
+    problems.push('持股幣別格式錯誤');
+  }
+  if (!isCurrency(data.baseCurrency)) problems.push('基準幣別錯誤');
+  checkList('fxRates', '匯率紀錄', r => isCurrency(r.currency) && isDate(r.date) && isNumber(r.twdPerUnit));
+  checkList('alertRules', '價格提醒', r =>
+    typeof r.id === 'string' && typeof r.symbol === 'string' && isLabelKey(ALERT_CONDITION_LABELS, r.condition) && typeof r.enabled === 'boolean'
+  );
+  checkList('alertInbox', '提醒通知', e =>
+    typeof e.id === 'string' && typeof e.symbol === 'string' && typeof e.message === 'string' && typeof e.triggeredAt === 'string'
+  );
+  if (!isObject(data.analysisHistory) || !Object.values(data.analysisHistory).every(list =>
+    Array.isArray(list) && list.every(s => isObject(s) && typeof s.recordedAt === 'string' && isNumber(s.currentPrice)))) {
+    problems.push('分析歷史格式錯誤');
+  }
+  checkList('valuations', '每日市值紀錄', v =>
+    isDate(v.date) && isObject(v.values) && Object.values(v.values).every(isNumber)
+  );
+  return problems;
+};
+
+// Parses and checks a bundle file; throws with every problem found so nothing is half-restored
+export const parseBackup = (text: string): BackupBundle => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('檔案不是有效的 JSON');
+  }
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT) throw new Error('這不是本程式匯出的備份檔');
+  const { version } = parsed;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) throw new Error('備份檔缺少版本資訊');
+  if (version > BACKUP_VERSION) throw new Error(`備份檔版本 (${version}) 比目前程式新，請先更新程式`);
+  if (!isObject(parsed.data)) throw new Error('備份檔缺少資料內容');
+  const data = version < 2 ? upgradeBackupData(parsed.data) : parsed.data;
+  const problems = validateBackupData(data);
+  if (problems.length > 0) throw new Error(`備份檔內容有誤：${problems.join('；')}`);
+  return { ...parsed, version: BACKUP_VERSION, data } as unknown as BackupBundle;
+};
+
+// Items of `incoming` whose key is not already in `current` are appended
+const unionBy = <T>(current: T[], incoming: T[], key: (item: T) => string): T[] => {
+  const seen = new Set(current.map(key));
+  return [...current, ...incoming.filter(item => !seen.has(key(item)))];
+};
+
+// Snapshots are merged per symbol and kept in the order they were taken
+const mergeHistories = (
+  current: Record<string, AnalysisSnapshot[]>,
+  incoming: Record<string, AnalysisSnapshot[]>
+): Record<string, AnalysisSnapshot[]> => {
+  const merged = { ...current };
+  Object.entries(incoming).forEach(([symbol, list]) => {
+    merged[symbol] = unionBy(merged[symbol] || [], list, s => s.recordedAt)
+      .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+  });
+  return merged;
+};
+
+const mergeData = (current: BackupData, incoming: BackupData): BackupData => {
+  const accountSymbols = { ...current.accountSymbols };
+  Object.entries(incoming.accountSymbols).forEach(([id, list]) => {
+    accountSymbols[id] = [...new Set([...(accountSymbols[id] || []), ...list])];
+  });
+  return {
+    accounts: unionBy(current.accounts, incoming.accounts, a => a.id),
+    accountSymbols,
+    transactions: unionBy(current.transactions, incoming.transactions, t => t.id),
+    dividends: unionBy(current.dividends, incoming.dividends, d => d.id),
+    portfolioStocks: unionBy(current.portfolioStocks, incoming.portfolioStocks, s => s.symbol),
+    // Settings stay as they are; the backup's plan only fills in a missing one
+    retirementPlan: current.retirementPlan || incoming.retirementPlan,
+    costMethod: current.costMethod,
+    feeSettings: current.feeSettings,
+    symbolCurrencies: { ...incoming.symbolCurrencies, ...current.symbolCurrencies },
+    baseCurrency: current.baseCurrency,
+    fxRates: unionBy(current.fxRates, incoming.fxRates, r => `${r.currency}|${r.date}`),
+    alertRules: unionBy(current.alertRules, incoming.alertRules, r => r.id),
+    alertInbox: unionBy(current.alertInbox, incoming.alertInbox, e => e.id)
+      .sort((a, b) => b.triggeredAt.localeCompare(a.triggeredAt)),
+    analysisHistory: mergeHistories(current.analysisHistory, incoming.analysisHistory),
+    valuations: unionBy(current.valuations, incoming.valuations, v => v.date)
+      .sort((a, b) => a.date.localeCompare(b.date)),
+  };
+};
+
+export const restoreBackup = (bundle: BackupBundle, mode: RestoreMode) => {
+  const data = mode === 'MERGE' ? mergeData(createBackup().data, bundle.data) : bundle.data;
+  saveAccounts(data.accounts);
+  saveAccountSymbols(data.accountSymbols);
+  saveTransactions(data.transactions);
+  saveDividendEvents(data.dividends);
+  localStorage.setItem(PORTFOLIO_DATA_KEY, JSON.stringify(data.portfolioStocks));
+  if (data.retirementPlan) {
+    localStorage.setItem(RETIREMENT_PLAN_KEY, JSON.stringify(data.retirementPlan));
+  } else {
+    localStorage.removeItem(RETIREMENT_PLAN_KEY);
+  }
+  setCostBasisMethod(data.costMethod);
+  saveFeeSettings(data.feeSettings);
+  saveSymbolCurrencies(data.symbolCurrencies);
+  setBaseCurrency(data.baseCurrency);
+  saveFxRates(data.fxRates);
+  saveAlertRules(data.alertRules);
+  saveAlertInbox(data.alertInbox);
+  saveAnalysisHistories(data.analysisHistory);
+  saveValuations(data.valuations);
+};
+
+export const describeBackup = (bundle: BackupBundle): string => {
+  const { data } = bundle;
+  return [
+    `${data.accounts.length} 個帳戶`,
+    `${data.transactions.length} 筆交易`,
+    `${data.dividends.length} 筆除權息`,
+    `${data.portfolioStocks.length} 檔分析結果`,
+    `${data.alertRules.length} 條價格提醒`,
+    `${data.valuations.length} 天市值紀錄`,
+    data.retirementPlan ? '含退休規劃' : '無退休規劃',
+  ].join('、');
+};
+
+// --- Browser download ---
+
+export const downloadFile = (filename: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right away can cancel the download before the browser has read the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportFilename = (name: string, extension: string) => `finance-${name}-${taipeiDate()}.${extension}`;
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { DividendEvent, Transaction } from "../types";
+import { computePayouts, supplementaryPremium } from "./dividends";
+
+const buy = (date: string, quantity: number): Transaction =>
+  ({ id: `${date}-${quantity}`, symbol: "2884", type: "BUY", date, quantity, price: 25, fee: 0 });
+
+const event = (cashPerShare: number, stockPerShare: number): DividendEvent =>
+  ({ id: "e1", symbol: "2884", exDate: "2025-07-10", cashPerShare, stockPerShare });
+
+describe("supplementaryPremium", () => {
+  it("starts at NT$20,000 per payout", () => {
+    expect(supplementaryPremium(19999)).toBe(0);
+    expect(supplementaryPremium(20000)).toBe(422);
+    expect(supplementaryPremium(25000)).toBe(528);
+  });
+
+  it("is capped at NT$10 million per payout", () => {
+    expect(supplementaryPremium(10000000)).toBe(211000);
+    expect(supplementaryPremium(20000000)).toBe(211000);
+  });
+});
+
+describe("computePayouts", () => {
+  it("withholds the premium from the cash dividend", () => {
+    const [payout] = computePayouts([event(2.5, 0)], [buy("2025-03-03", 10000)]);
+    expect(payout).toMatchObject({ sharesHeld: 10000, cashAmount: 25000, supplementaryPremium: 528, netCash: 24472 });
+  });
+
+  it("assesses the stock dividend at par but withholds from cash only", () => {
+    // NT$500 cash plus 2,000 shares at NT$10 par: 2.11% of 20,500 is 433, all taken from the cash
+    const [payout] = computePayouts([event(0.1, 4)], [buy("2025-03-03", 5000)]);
+    expect(payout).toMatchObject({ cashAmount: 500, stockShares: 2000, supplementaryPremium: 433, netCash: 67 });
+  });
+
+  it("withholds nothing when there is no cash to take it from", () => {
+    const [payout] = computePayouts([event(0, 5)], [buy("2025-03-03", 5000)]);
+    expect(payout).toMatchObject({ cashAmount: 0, stockShares: 2500, supplementaryPremium: 0, netCash: 0 });
+  });
+
+  it("pays only on shares held before the ex-date", () => {
+    const [payout] = computePayouts([event(1, 0)], [buy("2025-03-03", 1000), buy("2025-07-10", 1000)]);
+    expect(payout).toMatchObject({ sharesHeld: 1000, cashAmount: 1000, supplementaryPremium: 0 });
+  });
+});
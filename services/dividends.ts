@@ -0,0 +1,130 @@
+import { DividendEvent, DividendPayout, Transaction, Position } from "../types";
+import { computePositions, newTransactionId } from "./ledger";
+import { accountOf } from "./accounts";
+import { taipeiDate, addDays } from "./tradingCalendar";
+
+const DIVIDENDS_KEY = 'finance_dividends';
+
+// 二代健保補充保費: 2.11% of a single dividend payout of NT$20,000 or more, capped at NT$10 million per payout
+export const SUPPLEMENTARY_PREMIUM_RATE = 0.0211;
+export const SUPPLEMENTARY_PREMIUM_THRESHOLD = 20000;
+const SUPPLEMENTARY_PREMIUM_CAP = 10000000;
+
+// Stock dividends are valued at NT$10 par for the premium
+const PAR_VALUE = 10;
+
+export const getDividendEvents = (): DividendEvent[] => {
+  try {
+    const saved = localStorage.getItem(DIVIDENDS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveDividendEvents = (events: DividendEvent[]) => {
+  localStorage.setItem(DIVIDENDS_KEY, JSON.stringify(events));
+};
+
+export const newDividendEvent = (fields: Omit<DividendEvent, 'id'>): DividendEvent => ({ id: newTransactionId(), ...fields });
+
+export const addDividendEvent = (events: DividendEvent[], event: DividendEvent): DividendEvent[] => {
+  if (!event.symbol) throw new Error('請選擇股票代碼');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(event.exDate)) throw new Error('請輸入除權息日');
+  if (event.payDate && event.payDate < event.exDate) throw new Error('發放日不可早於除權息日');
+  if (!(event.cashPerShare >= 0) || !(event.stockPerShare >= 0) || event.cashPerShare + event.stockPerShare <= 0) {
+    throw new Error('請輸入現金股利或股票股利');
+  }
+  if (events.some(e => e.symbol === event.symbol && e.exDate === event.exDate)) {
+    throw new Error(`${event.symbol} 在 ${event.exDate} 已有除權息紀錄`);
+  }
+  const updated = [...events, event];
+  saveDividendEvents(updated);
+  return updated;
+};
+
+export const removeDividendEvent = (events: DividendEvent[], id: string): DividendEvent[] => {
+  const updated = events.filter(e => e.id !== id);
+  saveDividendEvents(updated);
+  return updated;
+};
+
+export const supplementaryPremium = (payout: number): number =>
+  payout >= SUPPLEMENTARY_PREMIUM_THRESHOLD
+    ? Math.round(Math.min(payout, SUPPLEMENTARY_PREMIUM_CAP) * SUPPLEMENTARY_PREMIUM_RATE)
+    : 0;
+
+// Shares that qualify for the event: held at the end of the day before the ex-date (pass one account's transactions)
+export const sharesEntitled = (transactions: Transaction[], events: DividendEvent[], event: DividendEvent): number => {
+  const before = transactions.filter(t => t.symbol === event.symbol && t.date < event.exDate);
+  const earlier = events.filter(e => e.symbol === event.symbol && e.exDate < event.exDate);
+  return computePositions(before, 'AVERAGE', earlier)[event.symbol]?.quantity || 0;
+};
+
+/**
+ * What each past or announced event pays on the shares the ledger held, one
+ * payout per account. The premium is assessed per payout on cash plus the
+ * par value of the stock dividend and withheld from the cash part.
+ */
+export const computePayouts = (events: DividendEvent[], transactions: Transaction[]): DividendPayout[] => {
+  const accountIds = [...new Set(transactions.map(accountOf))];
+  return [...events]
+    .sort((a, b) => a.exDate.localeCompare(b.exDate))
+    .flatMap(event => accountIds.map(accountId => {
+      const sharesHeld = sharesEntitled(transactions.filter(t => accountOf(t) === accountId), events, event);
+      const cashAmount = Math.round(sharesHeld * event.cashPerShare);
+      const stockShares = Math.floor(sharesHeld * event.stockPerShare / PAR_VALUE);
+      const premium = Math.min(cashAmount, supplementaryPremium(cashAmount + stockShares * PAR_VALUE));
+      return {
+        event,
+        accountId,
+        sharesHeld,
+        cashAmount,
+        stockShares,
+        supplementaryPremium: premium,
+        netCash: cashAmount - premium,
+      };
+    }))
+    .filter(p => p.sharesHeld > 0);
+};
+
+export interface DividendIncome {
+  year: number;
+  gross: number;
+  supplementaryPremium: number;
+  net: number;
+  stockShares: number;
+}
+
+// Grouped by the year the cash arrives (pay date, or ex-date when the pay date is not known yet)
+export const annualDividendIncome = (payouts: DividendPayout[]): DividendIncome[] => {
+  const byYear = new Map<number, DividendIncome>();
+  payouts.forEach(p => {
+    const year = Number((p.event.payDate || p.event.exDate).slice(0, 4));
+    const row = byYear.get(year) || { year, gross: 0, supplementaryPremium: 0, net: 0, stockShares: 0 };
+    row.gross += p.cashAmount;
+    row.supplementaryPremium += p.supplementaryPremium;
+    row.net += p.netCash;
+    row.stockShares += p.stockShares;
+    byYear.set(year, row);
+  });
+  return [...byYear.values()].sort((a, b) => b.year - a.year);
+};
+
+/**
+ * Cash dividends per share with an ex-date in the past year, over the average
+ * cost of the current holding. Undefined when nothing is held or nothing was paid.
+ */
+export const yieldOnCost = (position: Position, events: DividendEvent[], today: string = taipeiDate()): number | undefined => {
+  if (position.quantity <= 0 || position.averageCost <= 0) return undefined;
+  const since = addDays(today, -365);
+  const trailing = events
+    .filter(e => e.symbol === position.symbol && e.exDate > since && e.exDate <= today)
+    .reduce((sum, e) => sum + e.cashPerShare, 0);
+  return trailing > 0 ? trailing / position.averageCost : undefined;
+};
+
+export const upcomingDividends = (events: DividendEvent[], today: string = taipeiDate()): DividendEvent[] =>
+  events
+    .filter(e => e.exDate >= today || (e.payDate !== undefined && e.payDate >= today))
+    .sort((a, b) => a.exDate.localeCompare(b.exDate));
@@ -1,98 +1,27 @@
-import { GoogleGenAI } from "@google/genai";
-import { StockAnalysis, RetirementPlan, RetirementResult } from "../types";
-
-// Helper to get key from storage or env
-const getApiKey = (): string | null => {
-  // 1. Check LocalStorage
-  const stored = localStorage.getItem('gemini_api_key');
-  if (stored) return stored;
-  
-  // 2. Check Environment Variables
-  try {
-    // @ts-ignore
-    if (typeof import.meta !== 'undefined' && import.meta.env && import.meta.env.VITE_API_KEY) {
-      // @ts-ignore
-      return import.meta.env.VITE_API_KEY;
-    }
-  } catch (e) {
-    // Ignore error
-  }
-
-  try {
-    if (typeof process !== 'undefined' && process.env && process.env.API_KEY) {
-      return process.env.API_KEY;
-    }
-  } catch (e) {
-    // Ignore
-  }
-  
-  return null;
-};
-
-// Initialize Gemini Client dynamically
-const getAIClient = () => {
-  const apiKey = getApiKey();
-  if (!apiKey) throw new Error("API Key missing");
-  return new GoogleGenAI({ apiKey });
-};
-
-// Helper function to extract JSON from Markdown code blocks
-const extractJson = (text: string): any => {
-  try {
-    // Try to find JSON inside code blocks ```json ... ```
-    const jsonMatch = text.match(/```json([\s\S]*?)```/);
-    if (jsonMatch && jsonMatch[1]) {
-      return JSON.parse(jsonMatch[1]);
-    }
-    // Try to find array brackets if code block is missing
-    const arrayMatch = text.match(/\[([\s\S]*?)\]/);
-    if (arrayMatch) {
-      return JSON.parse(arrayMatch[0]);
-    }
-    // Fallback: try parsing the whole text
-    return JSON.parse(text);
-  } catch (e) {
-    console.error("Failed to parse JSON from AI response:", text);
-    return [];
-  }
-};
-
-// Specific corrections for Taiwan stocks based on user feedback and common errors
-const PRE_DEFINED_MAPPINGS: Record<string, string> = {
-  "2834": "2834 臺企銀", // Often confused with TCC
-  "304": "3042 晶技",   // User typo correction
-  "3042": "3042 晶技",
-  "4564": "4564 元翎",
-  "6890": "6890 來億-KY",
-  "1101": "1101 台泥",
-  "9904": "9904 寶成"
-};
+import { RetirementPlan, RetirementResult, AnalysisResult, StockAnalysisError, MarketQuote } from "../types";
+import { STOCK_ANALYSIS_SCHEMA, STOCK_NARRATIVE_SCHEMA, parseJsonArray, validateStockRecords } from "./stockSchema";
+import { MarketDataProvider, getMarketDataProvider, getPriceHistory, prefetchPriceHistory, fiftyTwoWeekRange } from "./marketDataService";
+import { latestIndicators, describeIndicators, INDICATOR_LOOKBACK_DAYS } from "./indicators";
+import { addDays } from "./tradingCalendar";
+import { getMarketSession } from "./marketSession";
+import { getSecurity, isKnownSymbol, describeSecurity } from "./securityMaster";
+import { currencyOf } from "./currency";
+import { attachGroundingSources } from "./grounding";
+import { applySanityChecks } from "./sanityChecks";
+import { getLlmProvider } from "./llmProvider";
+import { toLlmError } from "./llmErrors";
+import { getCachedAnalyses, putCachedAnalyses, getCachedTrends, putCachedTrends } from "./analysisCache";
 
 const getTaipeiTimeInstruction = () => {
-  const now = new Date();
-  
-  // Convert to Taipei Time to calculate hour/minute
-  const taipeiTime = new Date(now.toLocaleString("en-US", {timeZone: "Asia/Taipei"}));
-  const hour = taipeiTime.getHours();
-  const minute = taipeiTime.getMinutes();
-  const timeVal = hour * 100 + minute; // e.g. 1330 for 13:30
-
-  const options: Intl.DateTimeFormatOptions = { 
-    timeZone: 'Asia/Taipei', 
-    hour12: false,
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-    hour: '2-digit',
-    minute: '2-digit'
-  };
-  const timeString = now.toLocaleString('zh-TW', options);
+  const { session, timeString, tradingDate, closureName } = getMarketSession();
 
   let priceRule = "";
-  if (timeVal >= 1330) {
+  if (session === 'CLOSED') {
+    priceRule = `今天台股休市 (${closureName || "週末"})，沒有「今天」的收盤價。請務必提供最近一個交易日 ${tradingDate} 的收盤價 (Closing Price)。`;
+  } else if (session === 'POST_CLOSE') {
     priceRule = "現在時間已過 13:30 (台股收盤)，請務必提供「今天」的收盤價 (Closing Price)。不要提供昨天的，也不要提供盤中價格。";
-  } else if (timeVal < 900) {
-    priceRule = "現在時間早於 09:00 (尚未開盤)，請務必提供「上一個交易日」的收盤價 (Previous Close)。";
+  } else if (session === 'PRE_OPEN') {
+    priceRule = `現在時間早於 09:00 (尚未開盤)，請務必提供「上一個交易日」${tradingDate} 的收盤價 (Previous Close)。`;
   } else {
     priceRule = "現在時間介於 09:00 - 13:30 (盤中)，請提供「即時成交價」 (Real-time Price)。";
   }
@@ -107,83 +36,139 @@ const getTaipeiTimeInstruction = () => {
   `;
 };
 
-export const analyzePortfolio = async (symbols: string[]): Promise<StockAnalysis[]> => {
-  const model = "gemini-2.5-flash";
-  if (!symbols || symbols.length === 0) return [];
-
-  // Pre-process symbols to fix known issues before sending to AI
-  const querySymbols = symbols.map(s => {
-    const cleanS = s.trim();
-    // Check strict mapping first
-    if (PRE_DEFINED_MAPPINGS[cleanS]) {
-      return PRE_DEFINED_MAPPINGS[cleanS];
-    }
-    // Partial matches or fallbacks
-    if (cleanS.includes('4564')) return '4564 元翎';
-    return cleanS;
-  }).join(", ");
+// Taiwan investors trade in board lots; suggestions in raw share counts read oddly
+const LOT_INSTRUCTION = "exampleScenario 中的買賣數量請以「張」(1 張 = 1,000 股) 表示；只有資金不足一張時才建議以零股買進。";
+
+export interface AnalyzeOptions {
+  provider?: MarketDataProvider;
+  // Ignore the session cache and query every symbol again
+  forceRefresh?: boolean;
+}
+
+export const analyzePortfolio = async (symbols: string[], options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
+  const { provider = getMarketDataProvider(), forceRefresh = false } = options;
+  if (!symbols || symbols.length === 0) return { stocks: [], errors: [] };
+
+  // Unknown codes are rejected here, before any quote or Gemini request; foreign tickers are not in the master
+  const isAnalyzable = (s: string) => isKnownSymbol(s) || currencyOf(s) !== 'TWD';
+  const cleanSymbols = symbols.map(s => s.trim().toUpperCase()).filter(isAnalyzable);
+  const unknownSymbolErrors: StockAnalysisError[] = symbols
+    .map(s => s.trim().toUpperCase())
+    .filter(s => !isAnalyzable(s))
+    .map(symbol => ({ symbol, message: '證券清單中查無此代碼，請確認代碼或更新證券清單' }));
+
+  const sessionInfo = getMarketSession();
+  const cached = forceRefresh ? {} : getCachedAnalyses(cleanSymbols, sessionInfo);
+  const cachedStocks = cleanSymbols.filter(s => cached[s]).map(s => cached[s]);
+  const pendingSymbols = cleanSymbols.filter(s => !cached[s]);
+  if (pendingSymbols.length === 0) return { stocks: cachedStocks, errors: unknownSymbolErrors };
 
   try {
-    const ai = getAIClient();
+    const quotes: Record<string, MarketQuote> = await provider.getQuotes(pendingSymbols);
+    const quotedSymbols = pendingSymbols.filter(s => quotes[s]);
+    const missingQuoteErrors: StockAnalysisError[] = [
+      ...unknownSymbolErrors,
+      ...pendingSymbols
+        .filter(s => !quotes[s])
+        .map(symbol => ({ symbol, message: `報價來源「${provider.label}」查無此代碼的報價` })),
+    ];
+
+    if (quotedSymbols.length === 0) return { stocks: cachedStocks, errors: missingQuoteErrors };
+
+    // A year of stored daily bars backs the 52-week range and the indicators; symbols without
+    // enough go without. Missing history is fetched in the background for the chart and the
+    // next run, since the monthly exchange files would hold up the analysis for minutes.
+    const historyFrom = addDays(sessionInfo.tradingDate, -Math.max(365, INDICATOR_LOOKBACK_DAYS * 2));
+    prefetchPriceHistory(quotedSymbols, historyFrom);
+    const histories = quotedSymbols.map(s => getPriceHistory(s).filter(b => b.date >= historyFrom));
+    quotedSymbols.forEach(s => {
+      if (quotes[s].high52Week === undefined) quotes[s] = { ...quotes[s], ...fiftyTwoWeekRange(s, quotes[s].asOf) };
+    });
+
+    // Each line carries the name verified against the local security master
+    const queryLines = quotedSymbols.map((cleanS, i) => {
+      const quote = quotes[cleanS];
+      const security = getSecurity(cleanS);
+      const label = security ? describeSecurity(security) : `${cleanS} (海外股票，以 ${currencyOf(cleanS)} 計價)`;
+      const bars = histories[i];
+      const indicators = describeIndicators(latestIndicators(bars), bars[bars.length - 1]?.close);
+      const range = quote.high52Week !== undefined && quote.low52Week !== undefined
+        ? `52週區間 ${quote.low52Week} ~ ${quote.high52Week}`
+        : '52週區間未知 (歷史資料不足一年，請勿自行推估)';
+      return `- ${label}：現價 ${quote.currentPrice} (資料日期 ${quote.asOf})，${range}` +
+        (indicators ? `\n  ${indicators}` : '');
+    }).join("\n");
+
+    const llm = getLlmProvider();
     const timeInstruction = getTaipeiTimeInstruction();
     
     const prompt = `
-      你是一個專業的金融分析系統。請使用 Google Search 查詢以下股票的「正確繁體中文公司名稱」與「最新股價」：${querySymbols}。
+      你是一個專業的金融分析系統。以下是由行情資料來源提供的股票報價 (這些數字為準，不可更改或重新估算)：
+      ${queryLines}
       
       ${timeInstruction}
       
       **極重要 - 代碼校正指令：**
-      請嚴格遵守以下代碼對應，不可混淆：
-      1. **2834 是「臺企銀」(Taiwan Business Bank)**，絕對不是台泥。
-      2. **3042 是「晶技」(TXC)**。
-      3. **6890 是「來億-KY」**。
-      4. 如果輸入是 "304"，請視為 "3042 晶技"。
+      上方每個代碼後的公司名稱已由證券主檔驗證，name 欄位必須使用該名稱，搜尋時也不可與其他公司混淆
+      (例如 2834 是「臺企銀」，絕對不是台泥)。
       
       **一般指令：**
-      1. 務必使用 Google Search 獲取真實數據，不要使用估算值。
-      2. 「currentPrice」必須嚴格遵守上述的時間規則 (盤前看昨日收盤，盤後看今日收盤)。
-      3. 請針對持有狀況給出建議 (BUY/SELL/HOLD)。
-      
-      請回傳一個純 JSON 陣列 (Array)，不要包含其他解釋文字，格式如下：
-      [
-        {
-          "symbol": "股票代碼 (e.g. 0050)",
-          "name": "股票名稱 (繁體中文)",
-          "marketCap": "市值 (e.g. 3000億)",
-          "high52Week": 數字 (52週最高),
-          "low52Week": 數字 (52週最低),
-          "currentPrice": 數字 (依據時間規則的精確價格),
-          "suggestBuyPrice": 數字 (建議買入價),
-          "suggestSellPrice": 數字 (建議賣出價),
-          "recommendation": "BUY" | "SELL" | "HOLD",
-          "analysis": "簡短分析 (包含查到的最新新聞或價格資訊)",
-          "projectedAnnualYield": "預估年化殖利率 (e.g. 5-6%)",
-          "exampleScenario": "簡短操作建議"
-        }
-      ]
+      1. 可使用 Google Search 查詢最新新聞與基本面，但價格一律以上方報價為準。
+      2. 請依上方現價、52 週區間 (若有提供) 與技術指標 (若有提供) 給出建議買入價、建議賣出價與建議 (BUY/SELL/HOLD)。
+         技術指標已由歷史價格計算，analysis 中提到均線、RSI、MACD、KD 或布林通道時必須引用上方數值，不可自行估算；沒有提供指標的代碼請勿杜撰指標數值。
+      3. 每個代碼回傳一筆資料，symbol 欄位只填代碼本身 (例如 "3042")。
+      4. analysis 為簡短分析 (包含查到的最新新聞)，exampleScenario 為簡短操作建議。
+      5. ${LOT_INSTRUCTION}
     `;
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      }
+    const response = await llm.generate({
+      prompt,
+      schema: STOCK_NARRATIVE_SCHEMA,
+      useSearch: true,
+      symbols: quotedSymbols,
     });
 
-    return extractJson(response.text || "[]");
+    // Overlay the provider's numbers on the model's commentary
+    const modelNames: Record<string, string> = {};
+    const records = parseJsonArray(response.text || "").map(item => {
+      const rec = item && typeof item === 'object' ? item as Record<string, unknown> : {};
+      const symbol = typeof rec.symbol === 'string' ? rec.symbol.trim() : '';
+      const quote = quotes[symbol];
+      if (!quote) return item;
+      if (typeof rec.name === 'string') modelNames[symbol] = rec.name;
+      return {
+        ...rec,
+        name: getSecurity(symbol)?.name || quote.name || rec.name,
+        currentPrice: quote.currentPrice,
+        high52Week: quote.high52Week,
+        low52Week: quote.low52Week,
+        priceSource: quote.provider,
+        priceAsOf: quote.asOf,
+      };
+    });
+    const result = validateStockRecords(records, quotedSymbols);
+    const cachedAt = new Date().toISOString();
+    const freshStocks = applySanityChecks(
+      attachGroundingSources(response.grounding, result.stocks).map(stock => ({ ...stock, cachedAt })),
+      sessionInfo.tradingDate,
+      modelNames
+    );
+    putCachedAnalyses(freshStocks, sessionInfo);
+    return { stocks: [...cachedStocks, ...freshStocks], errors: [...missingQuoteErrors, ...result.errors] };
 
   } catch (error) {
     console.error("Error analyzing portfolio:", error);
-    throw error; 
+    throw toLlmError(error);
   }
 };
 
-export const analyzeMarketTrends = async (): Promise<StockAnalysis[]> => {
-  const model = "gemini-2.5-flash";
+export const analyzeMarketTrends = async (options: Pick<AnalyzeOptions, 'forceRefresh'> = {}): Promise<AnalysisResult> => {
+  const sessionInfo = getMarketSession();
+  const cachedTrends = options.forceRefresh ? null : getCachedTrends(sessionInfo);
+  if (cachedTrends) return { stocks: cachedTrends, errors: [] };
   
   try {
-    const ai = getAIClient();
+    const llm = getLlmProvider();
     const timeInstruction = getTaipeiTimeInstruction();
 
     const prompt = `
@@ -196,47 +181,49 @@ export const analyzeMarketTrends = async (): Promise<StockAnalysis[]> => {
       1. 使用搜尋工具確保價格 (currentPrice) 符合時間規則 (收盤價/即時價)。
       2. analysis 欄位需說明是因為哪則新聞或事件而熱門。
       3. 確保公司名稱準確 (例如: 2834 是 臺企銀)。
-      
-      請回傳一個純 JSON 陣列 (Array)，不要包含其他解釋文字，格式如下：
-      [
-        {
-          "symbol": "股票代碼",
-          "name": "股票名稱",
-          "marketCap": "市值",
-          "high52Week": 數字,
-          "low52Week": 數字,
-          "currentPrice": 數字 (最新價格),
-          "suggestBuyPrice": 數字,
-          "suggestSellPrice": 數字,
-          "recommendation": "BUY" | "SELL" | "HOLD",
-          "analysis": "熱門原因分析",
-          "projectedAnnualYield": "預估殖利率",
-          "exampleScenario": "操作建議"
-        }
-      ]
+      4. ${LOT_INSTRUCTION}
     `;
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      }
+    const response = await llm.generate({
+      prompt,
+      schema: STOCK_ANALYSIS_SCHEMA,
+      useSearch: true,
     });
 
-    return extractJson(response.text || "[]");
+    // Trust the security master over the model for names of the picked stocks
+    const modelNames: Record<string, string> = {};
+    const records = parseJsonArray(response.text || "").map(item => {
+      const rec = item && typeof item === 'object' ? item as Record<string, unknown> : {};
+      const security = typeof rec.symbol === 'string' ? getSecurity(rec.symbol) : undefined;
+      if (!security) return item;
+      if (typeof rec.name === 'string') modelNames[security.code] = rec.name;
+      return { ...rec, name: security.name };
+    });
+    const result = validateStockRecords(records);
+
+    // Prefer provider quotes over searched prices when the provider knows the symbol
+    const quotes = await getMarketDataProvider()
+      .getQuotes(result.stocks.map(s => s.symbol))
+      .catch(() => ({} as Record<string, MarketQuote>));
+    const cachedAt = new Date().toISOString();
+    const stocks = applySanityChecks(attachGroundingSources(response.grounding, result.stocks).map(stock => {
+      const quote = quotes[stock.symbol];
+      return quote
+        ? { ...stock, currentPrice: quote.currentPrice, high52Week: quote.high52Week, low52Week: quote.low52Week, priceSource: quote.provider, priceAsOf: quote.asOf, cachedAt }
+        : { ...stock, priceSource: 'GEMINI' as const, cachedAt };
+    }), sessionInfo.tradingDate, modelNames);
+    putCachedTrends(stocks, sessionInfo);
+    return { stocks, errors: result.errors };
 
   } catch (error) {
     console.error("Error analyzing trends:", error);
-    throw error;
+    throw toLlmError(error);
   }
 };
 
 export const getRetirementAdvice = async (plan: RetirementPlan, result: RetirementResult): Promise<string> => {
-  const model = "gemini-2.5-flash";
-  
   try {
-    const ai = getAIClient();
+    const llm = getLlmProvider();
     const prompt = `
       使用者正在進行退休規劃。
       現況：
@@ -256,13 +243,10 @@ export const getRetirementAdvice = async (plan: RetirementPlan, result: Retireme
       請給予一段約 150 字的專業理財建議。針對是否達成目標提出具體改善策略（如調整儲蓄率、投資組合風險配置等）或肯定其計畫。語氣溫暖但專業。
     `;
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-    });
+    const response = await llm.generate({ prompt });
     return response.text || "無法產生建議，請稍後再試。";
   } catch (error) {
     console.error("Error getting advice:", error);
-    throw error;
+    throw toLlmError(error);
   }
 };
\ No newline at end of file
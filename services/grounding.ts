@@ -0,0 +1,36 @@
+import { StockAnalysis, GroundingSource } from "../types";
+import { LlmGrounding } from "./llmProvider";
+
+// Keeps the expanded row readable; the model sometimes cites dozens of pages
+const MAX_SOURCES_PER_STOCK = 8;
+
+/**
+ * Attaches the web citations of a response to the stocks they support. A
+ * citation is attributed to a stock when the supported text segment mentions
+ * its symbol or name; stocks with no attributable citation get every source
+ * of the response, since they came from the same search.
+ */
+export const attachGroundingSources = (
+  grounding: LlmGrounding | undefined,
+  stocks: StockAnalysis[]
+): StockAnalysis[] => {
+  if (!grounding) return stocks;
+  const allSources = grounding.sources.filter((s): s is GroundingSource => !!s);
+  if (allSources.length === 0) return stocks;
+
+  return stocks.map(stock => {
+    const indices = new Set<number>();
+    grounding.supports.forEach(support => {
+      if (support.text.includes(stock.symbol) || (stock.name && support.text.includes(stock.name))) {
+        support.indices.forEach(i => indices.add(i));
+      }
+    });
+    const matched = [...indices]
+      .map(i => grounding.sources[i])
+      .filter((s): s is GroundingSource => !!s);
+    const picked = matched.length > 0 ? matched : allSources;
+    // The same page can back several segments
+    const unique = picked.filter((s, i) => picked.findIndex(o => o.uri === s.uri) === i);
+    return { ...stock, sources: unique.slice(0, MAX_SOURCES_PER_STOCK) };
+  });
+};
@@ -0,0 +1,185 @@
+import { DailyBar, IndicatorPoint } from "../types";
+
+/**
+ * Technical indicators computed locally from stored daily bars, so the chart
+ * and the analysis prompt work from the same numbers instead of the model's
+ * estimates. Parameters follow the defaults of Taiwan broker software.
+ */
+
+type Series = (number | undefined)[];
+
+export const MA_PERIODS = [5, 20, 60] as const;
+const BOLLINGER_PERIOD = 20;
+const BOLLINGER_WIDTH = 2;
+const RSI_PERIOD = 14;
+const MACD_FAST = 12;
+const MACD_SLOW = 26;
+const MACD_SIGNAL = 9;
+const KD_PERIOD = 9;
+
+// Calendar days of warm-up (about 80 bars) for MA60 and MACD to settle; loaded ahead of the visible range
+export const INDICATOR_LOOKBACK_DAYS = 120;
+
+export const sma = (values: number[], period: number): Series =>
+  values.map((_, i) => {
+    if (i < period - 1) return undefined;
+    let sum = 0;
+    for (let j = i - period + 1; j <= i; j++) sum += values[j];
+    return sum / period;
+  });
+
+// Seeded with the simple average of the first `period` values
+export const ema = (values: Series, period: number): Series => {
+  const k = 2 / (period + 1);
+  const out: Series = [];
+  let prev: number | undefined;
+  const seed: number[] = [];
+  values.forEach((v, i) => {
+    if (v === undefined) {
+      out[i] = undefined;
+      return;
+    }
+    if (prev === undefined) {
+      seed.push(v);
+      if (seed.length === period) prev = seed.reduce((s, x) => s + x, 0) / period;
+      out[i] = prev;
+      return;
+    }
+    prev = v * k + prev * (1 - k);
+    out[i] = prev;
+  });
+  return out;
+};
+
+// Wilder's smoothing of average gains and losses
+export const rsi = (closes: number[], period: number = RSI_PERIOD): Series => {
+  const out: Series = closes.map(() => undefined);
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    if (i <= period) {
+      avgGain += gain / period;
+      avgLoss += loss / period;
+      if (i < period) continue;
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
+    out[i] = avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss);
+  }
+  return out;
+};
+
+export const macd = (closes: number[]) => {
+  const fast = ema(closes, MACD_FAST);
+  const slow = ema(closes, MACD_SLOW);
+  const dif: Series = closes.map((_, i) => (fast[i] !== undefined && slow[i] !== undefined ? fast[i]! - slow[i]! : undefined));
+  const signal = ema(dif, MACD_SIGNAL);
+  const histogram: Series = dif.map((v, i) => (v !== undefined && signal[i] !== undefined ? v - signal[i]! : undefined));
+  return { dif, signal, histogram };
+};
+
+/**
+ * KD stochastic as quoted in Taiwan: RSV over 9 days, K and D each smoothed
+ * with 1/3 weight on the new value and both starting from 50.
+ */
+export const stochasticKd = (bars: DailyBar[], period: number = KD_PERIOD) => {
+  const k: Series = [];
+  const d: Series = [];
+  let prevK = 50;
+  let prevD = 50;
+  bars.forEach((bar, i) => {
+    if (i < period - 1) {
+      k[i] = undefined;
+      d[i] = undefined;
+      return;
+    }
+    const window = bars.slice(i - period + 1, i + 1);
+    const high = Math.max(...window.map(b => b.high));
+    const low = Math.min(...window.map(b => b.low));
+    const rsv = high > low ? (bar.close - low) / (high - low) * 100 : 50;
+    prevK = prevK * 2 / 3 + rsv / 3;
+    prevD = prevD * 2 / 3 + prevK / 3;
+    k[i] = prevK;
+    d[i] = prevD;
+  });
+  return { k, d };
+};
+
+export const bollinger = (closes: number[], period: number = BOLLINGER_PERIOD, width: number = BOLLINGER_WIDTH) => {
+  const middle = sma(closes, period);
+  const deviation: Series = middle.map((m, i) => {
+    if (m === undefined) return undefined;
+    const window = closes.slice(i - period + 1, i + 1);
+    return Math.sqrt(window.reduce((s, c) => s + (c - m) ** 2, 0) / period);
+  });
+  return {
+    middle,
+    upper: middle.map((m, i) => (m !== undefined ? m + width * deviation[i]! : undefined)),
+    lower: middle.map((m, i) => (m !== undefined ? m - width * deviation[i]! : undefined)),
+  };
+};
+
+// Every indicator for every bar, in bar order
+export const computeIndicators = (bars: DailyBar[]): IndicatorPoint[] => {
+  const closes = bars.map(b => b.close);
+  const volumes = bars.map(b => b.volume);
+  const [ma5, ma20, ma60] = MA_PERIODS.map(p => sma(closes, p));
+  const bands = bollinger(closes);
+  const rsiSeries = rsi(closes);
+  const macdSeries = macd(closes);
+  const kd = stochasticKd(bars);
+  const volumeMa5 = sma(volumes, 5);
+  const volumeMa20 = sma(volumes, 20);
+
+  return bars.map((bar, i) => ({
+    date: bar.date,
+    ma5: ma5[i],
+    ma20: ma20[i],
+    ma60: ma60[i],
+    bollingerUpper: bands.upper[i],
+    bollingerMiddle: bands.middle[i],
+    bollingerLower: bands.lower[i],
+    rsi: rsiSeries[i],
+    macdDif: macdSeries.dif[i],
+    macdSignal: macdSeries.signal[i],
+    macdHistogram: macdSeries.histogram[i],
+    k: kd.k[i],
+    d: kd.d[i],
+    volumeMa5: volumeMa5[i],
+    volumeMa20: volumeMa20[i],
+  }));
+};
+
+export const latestIndicators = (bars: DailyBar[]): IndicatorPoint | null => {
+  if (bars.length === 0) return null;
+  const points = computeIndicators(bars);
+  return points[points.length - 1];
+};
+
+const fmt = (n: number | undefined, digits = 2) => (n === undefined ? undefined : n.toFixed(digits));
+
+/**
+ * One prompt line of the latest values, leaving out indicators that lack the
+ * history to compute. Null when there is nothing to report.
+ */
+export const describeIndicators = (point: IndicatorPoint | null, lastClose?: number): string | null => {
+  if (!point) return null;
+  const parts = [
+    point.ma5 !== undefined && `MA5 ${fmt(point.ma5)}`,
+    point.ma20 !== undefined && `MA20 ${fmt(point.ma20)}`,
+    point.ma60 !== undefined && `MA60 ${fmt(point.ma60)}`,
+    point.rsi !== undefined && `RSI14 ${fmt(point.rsi, 1)}`,
+    point.macdDif !== undefined && point.macdSignal !== undefined &&
+      `MACD DIF ${fmt(point.macdDif)} / 訊號線 ${fmt(point.macdSignal)} / 柱狀 ${fmt(point.macdHistogram)}`,
+    point.k !== undefined && point.d !== undefined && `KD K ${fmt(point.k, 1)} / D ${fmt(point.d, 1)}`,
+    point.bollingerUpper !== undefined && `布林通道 ${fmt(point.bollingerLower)} ~ ${fmt(point.bollingerUpper)}`,
+    point.volumeMa5 !== undefined && point.volumeMa20 !== undefined &&
+      `5日均量 ${Math.round(point.volumeMa5 / 1000).toLocaleString()} 張 / 20日均量 ${Math.round(point.volumeMa20 / 1000).toLocaleString()} 張`,
+  ].filter(Boolean);
+  if (parts.length === 0) return null;
+  return `技術指標 (${point.date}${lastClose !== undefined ? `，收盤 ${lastClose}` : ''})：${parts.join('，')}`;
+};
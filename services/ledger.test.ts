@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DividendEvent, Transaction } from "../types";
+import { computePositions, validateTransaction } from "./ledger";
+
+let nextId = 0;
+const trade = (type: Transaction["type"], date: string, quantity: number, price: number, fee = 0): Transaction =>
+  ({ id: `t${++nextId}`, symbol: "2330", type, date, quantity, price, fee });
+
+const stockDividend = (exDate: string, stockPerShare: number): DividendEvent =>
+  ({ id: `d${++nextId}`, symbol: "2330", exDate, cashPerShare: 0, stockPerShare });
+
+// Two buys at different prices, then part of the holding sold
+const LEDGER = [
+  trade("BUY", "2025-01-02", 1000, 100, 142),
+  trade("BUY", "2025-02-03", 1000, 120, 171),
+  trade("SELL", "2025-03-03", 500, 130, 287),
+];
+
+describe("computePositions", () => {
+  it("pools the cost of every buy under AVERAGE", () => {
+    const p = computePositions(LEDGER, "AVERAGE")["2330"];
+    expect(p.quantity).toBe(1500);
+    expect(p.averageCost).toBeCloseTo(110.1565);
+    expect(p.costBasis).toBeCloseTo(165234.75);
+    expect(p.realizedPnl).toBeCloseTo(65000 - 287 - 55078.25);
+  });
+
+  it("sells the oldest shares first under FIFO", () => {
+    const p = computePositions(LEDGER, "FIFO")["2330"];
+    expect(p.quantity).toBe(1500);
+    expect(p.costBasis).toBeCloseTo(220313 - 50071);
+    expect(p.realizedPnl).toBeCloseTo(65000 - 287 - 50071);
+  });
+
+  it("adds stock dividend shares at zero cost before trades on the ex-date", () => {
+    // 1元 of stock dividend is 100 shares per 1,000; the buy on the ex-date does not qualify
+    const transactions = [trade("BUY", "2025-06-02", 1000, 100), trade("BUY", "2025-07-01", 1000, 100)];
+    const p = computePositions(transactions, "AVERAGE", [stockDividend("2025-07-01", 1)])["2330"];
+    expect(p.quantity).toBe(2100);
+    expect(p.costBasis).toBe(200000);
+  });
+
+  it("scales lots on a split without changing their cost", () => {
+    const p = computePositions([trade("BUY", "2025-01-02", 1000, 100), trade("SPLIT", "2025-02-03", 2, 0)], "FIFO")["2330"];
+    expect(p.quantity).toBe(2000);
+    expect(p.costBasis).toBe(100000);
+    expect(p.averageCost).toBe(50);
+  });
+});
+
+describe("validateTransaction", () => {
+  beforeEach(() => {
+    vi.stubGlobal("localStorage", { getItem: () => null, setItem: () => undefined });
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("rejects selling more than is held on the day", () => {
+    const ledger = [trade("BUY", "2025-01-02", 1000, 100)];
+    expect(() => validateTransaction(ledger, trade("SELL", "2025-01-03", 1500, 110))).toThrow("只持有 1000 股");
+  });
+
+  it("rejects a backdated sale that leaves a later sale short", () => {
+    const ledger = [trade("BUY", "2025-01-02", 1000, 100), trade("SELL", "2025-03-03", 1000, 110)];
+    expect(() => validateTransaction(ledger, trade("SELL", "2025-02-03", 500, 105)))
+      .toThrow("這筆交易會使 2025-03-03 賣出的 1000 股 2330 超過當時持有的 500 股");
+  });
+
+  it("counts stock dividend shares as held", () => {
+    const ledger = [trade("BUY", "2025-06-02", 1000, 100)];
+    const dividends = [stockDividend("2025-07-01", 1)];
+    expect(() => validateTransaction(ledger, trade("SELL", "2025-07-02", 1100, 100), dividends)).not.toThrow();
+  });
+
+  it("does not block new entries over a sale that was already short", () => {
+    const ledger = [trade("BUY", "2025-01-02", 100, 100), trade("SELL", "2025-01-03", 500, 100)];
+    expect(() => validateTransaction(ledger, trade("BUY", "2025-02-03", 100, 100))).not.toThrow();
+  });
+});
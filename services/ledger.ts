@@ -0,0 +1,312 @@
+import { Transaction, CostBasisMethod, Position, StockAnalysis, DividendEvent } from "../types";
+import { taipeiDate } from "./tradingCalendar";
+import { LOT_SIZE } from "./lots";
+import { accountOf } from "./accounts";
+
+const TRANSACTIONS_KEY = 'finance_transactions';
+const COST_METHOD_KEY = 'finance_cost_method';
+// Share counts kept by earlier versions, before the ledger existed
+const LEGACY_QUANTITIES_KEY = 'finance_stock_quantities';
+
+export const TRANSACTION_TYPE_LABELS: Record<Transaction['type'], string> = {
+  BUY: '買進',
+  SELL: '賣出',
+  SPLIT: '分割',
+};
+
+export const COST_BASIS_LABELS: Record<CostBasisMethod, string> = {
+  AVERAGE: '平均成本',
+  FIFO: '先進先出 (FIFO)',
+};
+
+export const newTransactionId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Turns the old share counts into opening buys, costed at the last analysed price when known
+const migrateLegacyQuantities = (): Transaction[] => {
+  try {
+    const quantities: Record<string, number> = JSON.parse(localStorage.getItem(LEGACY_QUANTITIES_KEY) || '{}');
+    const analysed: StockAnalysis[] = JSON.parse(localStorage.getItem('finance_portfolio_data') || '[]');
+    const date = taipeiDate();
+    return Object.entries(quantities)
+      .filter(([, qty]) => qty > 0)
+      .map(([symbol, qty]) => ({
+        id: newTransactionId(),
+        symbol,
+        type: 'BUY' as const,
+        date,
+        quantity: qty,
+        price: analysed.find(s => s.symbol === symbol)?.currentPrice || 0,
+        fee: 0,
+        note: '期初庫存 (由舊版持股數轉入，成本以當時現價估計)',
+      }));
+  } catch {
+    return [];
+  }
+};
+
+export const getTransactions = (): Transaction[] => {
+  try {
+    const saved = localStorage.getItem(TRANSACTIONS_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch {
+    return [];
+  }
+  const migrated = migrateLegacyQuantities();
+  saveTransactions(migrated);
+  return migrated;
+};
+
+export const saveTransactions = (transactions: Transaction[]) => {
+  localStorage.setItem(TRANSACTIONS_KEY, JSON.stringify(transactions));
+};
+
+export const getCostBasisMethod = (): CostBasisMethod =>
+  localStorage.getItem(COST_METHOD_KEY) === 'FIFO' ? 'FIFO' : 'AVERAGE';
+
+export const setCostBasisMethod = (method: CostBasisMethod) => {
+  localStorage.setItem(COST_METHOD_KEY, method);
+};
+
+// Chronological order; same-day entries keep the order they were entered in
+export const sortTransactions = (transactions: Transaction[]): Transaction[] =>
+  transactions
+    .map((tx, index) => ({ tx, index }))
+    .sort((a, b) => a.tx.date.localeCompare(b.tx.date) || a.index - b.index)
+    .map(({ tx }) => tx);
+
+interface Lot {
+  quantity: number;
+  unitCost: number;
+}
+
+interface PositionState {
+  lots: Lot[];
+  realizedPnl: number;
+}
+
+const heldQuantity = (state: PositionState) => state.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+const heldCost = (state: PositionState) => state.lots.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0);
+
+// Removes `quantity` shares and returns their cost; AVERAGE keeps a single pooled lot so both methods share this
+const takeShares = (state: PositionState, quantity: number): number => {
+  let left = quantity;
+  let cost = 0;
+  while (left > 0 && state.lots.length > 0) {
+    const lot = state.lots[0];
+    const taken = Math.min(left, lot.quantity);
+    cost += taken * lot.unitCost;
+    lot.quantity -= taken;
+    left -= taken;
+    if (lot.quantity <= 0) state.lots.shift();
+  }
+  return cost;
+};
+
+const applyTransaction = (state: PositionState, tx: Transaction, method: CostBasisMethod) => {
+  switch (tx.type) {
+    case 'BUY': {
+      const unitCost = tx.quantity > 0 ? (tx.quantity * tx.price + tx.fee) / tx.quantity : 0;
+      if (method === 'AVERAGE' && state.lots.length > 0) {
+        const quantity = heldQuantity(state) + tx.quantity;
+        state.lots = [{ quantity, unitCost: (heldCost(state) + tx.quantity * unitCost) / quantity }];
+      } else {
+        state.lots.push({ quantity: tx.quantity, unitCost });
+      }
+      break;
+    }
+    case 'SELL': {
+      // Overselling is rejected by addTransaction; imported data is clamped to what is held
+      const quantity = Math.min(tx.quantity, heldQuantity(state));
+      const cost = takeShares(state, quantity);
+      state.realizedPnl += quantity * tx.price - tx.fee - cost;
+      break;
+    }
+    case 'SPLIT':
+      if (tx.quantity > 0) {
+        state.lots.forEach(lot => {
+          lot.quantity *= tx.quantity;
+          lot.unitCost /= tx.quantity;
+        });
+      }
+      break;
+  }
+};
+
+// Shares from a stock dividend arrive at zero cost; fractional shares are paid out in cash by the issuer
+const stockDividendShares = (held: number, event: DividendEvent) => Math.floor(held * event.stockPerShare / 10);
+
+// Shares held when a sale was replayed, for spotting sales the ledger cannot cover
+type SellVisitor = (sell: Transaction, held: number) => void;
+
+// Stock dividends add shares on their ex-date, ahead of that day's trades
+const replayLedger = (
+  transactions: Transaction[],
+  method: CostBasisMethod,
+  dividends: DividendEvent[],
+  onSell?: SellVisitor
+): Record<string, PositionState> => {
+  const states: Record<string, PositionState> = {};
+  const timeline = [
+    ...dividends.filter(d => d.stockPerShare > 0).map(dividend => ({ date: dividend.exDate, rank: 0, dividend, tx: undefined })),
+    ...sortTransactions(transactions).map(tx => ({ date: tx.date, rank: 1, dividend: undefined, tx })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || a.rank - b.rank);
+
+  timeline.forEach(({ dividend, tx }) => {
+    if (dividend) {
+      const state = states[dividend.symbol];
+      if (!state) return;
+      const shares = stockDividendShares(heldQuantity(state), dividend);
+      if (shares > 0) {
+        applyTransaction(state, { id: dividend.id, symbol: dividend.symbol, type: 'BUY', date: dividend.exDate, quantity: shares, price: 0, fee: 0 }, method);
+      }
+      return;
+    }
+    const state = states[tx!.symbol] || (states[tx!.symbol] = { lots: [], realizedPnl: 0 });
+    if (tx!.type === 'SELL') onSell?.(tx!, heldQuantity(state));
+    applyTransaction(state, tx!, method);
+  });
+  return states;
+};
+
+/**
+ * Replays the ledger into one position per symbol, including symbols that
+ * have since been sold out (their realized P&L still counts).
+ */
+export const computePositions = (
+  transactions: Transaction[],
+  method: CostBasisMethod = getCostBasisMethod(),
+  dividends: DividendEvent[] = []
+): Record<string, Position> => {
+  const states = replayLedger(transactions, method, dividends);
+  const positions: Record<string, Position> = {};
+  Object.entries(states).forEach(([symbol, state]) => {
+    const quantity = heldQuantity(state);
+    const costBasis = heldCost(state);
+    positions[symbol] = {
+      symbol,
+      quantity,
+      costBasis,
+      averageCost: quantity > 0 ? costBasis / quantity : 0,
+      realizedPnl: state.realizedPnl,
+    };
+  });
+  return positions;
+};
+
+// Each account is replayed on its own so a sale in one account never consumes another account's lots
+export const computeAccountPositions = (
+  transactions: Transaction[],
+  method: CostBasisMethod = getCostBasisMethod(),
+  dividends: DividendEvent[] = []
+): Record<string, Record<string, Position>> => {
+  const byAccount = new Map<string, Transaction[]>();
+  transactions.forEach(tx => {
+    const id = accountOf(tx);
+    byAccount.set(id, [...(byAccount.get(id) || []), tx]);
+  });
+  return Object.fromEntries(
+    [...byAccount].map(([id, txs]) => [id, computePositions(txs, method, dividends)])
+  );
+};
+
+// Sums positions of the same symbol across accounts for the consolidated view
+export const aggregatePositions = (positionMaps: Record<string, Position>[]): Record<string, Position> => {
+  const totals: Record<string, Position> = {};
+  positionMaps.forEach(map => {
+    Object.values(map).forEach(p => {
+      const total = totals[p.symbol] || (totals[p.symbol] = { symbol: p.symbol, quantity: 0, costBasis: 0, averageCost: 0, realizedPnl: 0 });
+      total.quantity += p.quantity;
+      total.costBasis += p.costBasis;
+      total.realizedPnl += p.realizedPnl;
+    });
+  });
+  Object.values(totals).forEach(p => {
+    p.averageCost = p.quantity > 0 ? p.costBasis / p.quantity : 0;
+  });
+  return totals;
+};
+
+export const quantitiesFromPositions = (positions: Record<string, Position>): Record<string, number> =>
+  Object.fromEntries(
+    Object.values(positions)
+      .filter(p => p.quantity > 0)
+      .map(p => [p.symbol, p.quantity])
+  );
+
+// Sales in one account's ledger for a symbol that sell more than was held at the time
+const oversoldSales = (transactions: Transaction[], dividends: DividendEvent[]): Map<string, number> => {
+  const oversold = new Map<string, number>();
+  replayLedger(transactions, getCostBasisMethod(), dividends, (sell, held) => {
+    if (sell.quantity > held) oversold.set(sell.id, held);
+  });
+  return oversold;
+};
+
+/**
+ * Checks a new entry against the whole ledger; throws with a message for the
+ * form. The ledger is replayed with the entry in place, so a backdated sale
+ * that leaves a later sale short of shares is rejected too. Sales that were
+ * already short (e.g. from an imported statement) do not block new entries.
+ */
+export const validateTransaction = (transactions: Transaction[], tx: Transaction, dividends: DividendEvent[] = []) => {
+  if (!tx.symbol) throw new Error('請選擇股票代碼');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(tx.date)) throw new Error('請輸入交易日期');
+  if (!(tx.quantity > 0)) throw new Error(tx.type === 'SPLIT' ? '分割比例必須大於 0' : '股數必須大於 0');
+  if (tx.oddLot && (!Number.isInteger(tx.quantity) || tx.quantity >= LOT_SIZE)) {
+    throw new Error(`零股交易須為 1 至 ${LOT_SIZE - 1} 股的整數`);
+  }
+  if (tx.type !== 'SPLIT' && !Number.isInteger(tx.quantity)) throw new Error('股數必須是整數');
+  if (tx.type !== 'SPLIT' && !(tx.price >= 0)) throw new Error('價格不可為負數');
+  if (!(tx.fee >= 0)) throw new Error('手續費不可為負數');
+  if (tx.fxRate !== undefined && !(tx.fxRate > 0)) throw new Error('匯率必須大於 0');
+  const ledger = transactions.filter(t => t.symbol === tx.symbol && accountOf(t) === accountOf(tx));
+  const symbolDividends = dividends.filter(d => d.symbol === tx.symbol);
+  const before = oversoldSales(ledger, symbolDividends);
+  const after = oversoldSales([...ledger, tx], symbolDividends);
+  if (after.has(tx.id)) {
+    throw new Error(`${tx.date} 時 ${tx.symbol} 只持有 ${after.get(tx.id)} 股，無法賣出 ${tx.quantity} 股`);
+  }
+  const broken = sortTransactions(ledger).find(t => after.has(t.id) && !before.has(t.id));
+  if (broken) {
+    throw new Error(`這筆交易會使 ${broken.date} 賣出的 ${broken.quantity} 股 ${tx.symbol} 超過當時持有的 ${after.get(broken.id)} 股`);
+  }
+};
+
+export const addTransaction = (transactions: Transaction[], tx: Transaction, dividends: DividendEvent[] = []): Transaction[] => {
+  validateTransaction(transactions, tx, dividends);
+  const updated = [...transactions, tx];
+  saveTransactions(updated);
+  return updated;
+};
+
+export const removeTransaction = (transactions: Transaction[], id: string): Transaction[] => {
+  const updated = transactions.filter(t => t.id !== id);
+  saveTransactions(updated);
+  return updated;
+};
+
+export interface PortfolioTotals {
+  marketValue: number;
+  costBasis: number;
+  unrealizedPnl: number;
+  realizedPnl: number;
+}
+
+// Unrealized P&L needs a price, so held symbols without an analysis are left out of value and cost
+export const computePortfolioTotals = (
+  positions: Record<string, Position>,
+  prices: Record<string, number>
+): PortfolioTotals => {
+  const totals: PortfolioTotals = { marketValue: 0, costBasis: 0, unrealizedPnl: 0, realizedPnl: 0 };
+  Object.values(positions).forEach(p => {
+    totals.realizedPnl += p.realizedPnl;
+    const price = prices[p.symbol];
+    if (p.quantity > 0 && price !== undefined) {
+      totals.marketValue += p.quantity * price;
+      totals.costBasis += p.costBasis;
+    }
+  });
+  totals.unrealizedPnl = totals.marketValue - totals.costBasis;
+  return totals;
+};
@@ -0,0 +1,103 @@
+import { ApiError } from "@google/genai";
+
+/**
+ * Failures of the AI backends, classified so the UI can show an actionable
+ * message and the service layer knows what is worth retrying. `message` is
+ * the user-facing text; the original error is kept as `cause`.
+ */
+export class LlmError extends Error {
+  constructor(message: string, public readonly retryable = false, public readonly cause?: unknown) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+export class MissingApiKeyError extends LlmError {
+  constructor() {
+    super("尚未設定 API 金鑰，請點右上角的設定按鈕輸入金鑰或改用其他 AI 提供者。");
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+export class InvalidApiKeyError extends LlmError {
+  constructor(cause?: unknown) {
+    super("API 金鑰無效或沒有權限，請到設定中確認金鑰是否正確。", false, cause);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+export class RateLimitError extends LlmError {
+  constructor(cause?: unknown, public readonly retryAfterMs?: number) {
+    super("AI 服務的使用額度已達上限，請稍候幾分鐘再試，或確認帳戶的配額設定。", true, cause);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class LlmTimeoutError extends LlmError {
+  constructor(timeoutMs?: number) {
+    super(`AI 服務${timeoutMs ? `超過 ${Math.round(timeoutMs / 1000)} 秒` : ''}未回應，請稍後再試。`, true);
+    this.name = 'LlmTimeoutError';
+  }
+}
+
+export class NetworkError extends LlmError {
+  constructor(cause?: unknown) {
+    super("無法連線到 AI 服務，請檢查網路連線或本機模型伺服器是否已啟動。", true, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+// 5xx and other server-side failures that usually clear up on their own
+export class ServiceUnavailableError extends LlmError {
+  constructor(status: number, cause?: unknown) {
+    super(`AI 服務暫時無法使用 (HTTP ${status})，請稍後再試。`, true, cause);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+export class ResponseParseError extends LlmError {
+  constructor(message = "AI 回傳的資料格式錯誤，請重新分析。", cause?: unknown) {
+    super(message, false, cause);
+    this.name = 'ResponseParseError';
+  }
+}
+
+export class SafetyBlockError extends LlmError {
+  constructor(reason?: string) {
+    super(`AI 服務的安全機制拒絕了這次請求${reason ? ` (${reason})` : ''}，請調整輸入內容後再試。`);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+const statusError = (status: number, error: unknown, retryAfterMs?: number): LlmError => {
+  if (status === 401 || status === 403) return new InvalidApiKeyError(error);
+  if (status === 429) return new RateLimitError(error, retryAfterMs);
+  if (status === 408) return new LlmTimeoutError();
+  if (status >= 500) return new ServiceUnavailableError(status, error);
+  return new LlmError(`AI 服務回傳錯誤 (HTTP ${status})。`, false, error);
+};
+
+/**
+ * Maps anything a provider can throw (SDK errors, HTTP status codes, fetch
+ * failures) onto the LlmError taxonomy. LlmErrors pass through unchanged.
+ */
+export const toLlmError = (error: unknown, status?: number, retryAfterMs?: number): LlmError => {
+  if (error instanceof LlmError) return error;
+  if (status !== undefined) return statusError(status, error, retryAfterMs);
+  if (error instanceof ApiError) {
+    // Gemini reports a bad key as 400 INVALID_ARGUMENT rather than 401
+    if (error.status === 400 && /api key/i.test(error.message)) return new InvalidApiKeyError(error);
+    return statusError(error.status, error);
+  }
+  // fetch() rejects with a TypeError when the host is unreachable or CORS fails
+  if (error instanceof TypeError) return new NetworkError(error);
+  const message = error instanceof Error ? error.message : String(error);
+  return new LlmError(`AI 服務發生未預期的錯誤：${message}`, false, error);
+};
+
+// Problems a later batch or a re-run cannot fix without the user changing settings or input
+export const isFatalLlmError = (error: unknown): boolean =>
+  error instanceof MissingApiKeyError || error instanceof InvalidApiKeyError || error instanceof SafetyBlockError;
+
+export const describeLlmError = (error: unknown, fallback: string): string =>
+  error instanceof LlmError ? error.message : fallback;
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { buildGeminiRequest } from "./llmProvider";
+import { STOCK_ANALYSIS_SCHEMA } from "./stockSchema";
+
+describe("buildGeminiRequest", () => {
+  it("drops the response schema when search grounding is on", () => {
+    const request = buildGeminiRequest("gemini-2.5-flash", { prompt: "分析 2330", schema: STOCK_ANALYSIS_SCHEMA, useSearch: true });
+    expect(request.config.tools).toEqual([{ googleSearch: {} }]);
+    expect(request.config).not.toHaveProperty("responseMimeType");
+    expect(request.config).not.toHaveProperty("responseSchema");
+    expect(request.contents).toContain("分析 2330");
+    expect(request.contents).toContain('"suggestBuyPrice"');
+  });
+
+  it("keeps structured output when search is off", () => {
+    const request = buildGeminiRequest("gemini-2.5-flash", { prompt: "分析 2330", schema: STOCK_ANALYSIS_SCHEMA });
+    expect(request.config).not.toHaveProperty("tools");
+    expect(request.config.responseMimeType).toBe("application/json");
+    expect(request.config.responseSchema).toBe(STOCK_ANALYSIS_SCHEMA);
+    expect(request.contents).toBe("分析 2330");
+  });
+
+  it("sends plain text prompts unchanged", () => {
+    const request = buildGeminiRequest("gemini-2.5-flash", { prompt: "理財建議", useSearch: true });
+    expect(request.contents).toBe("理財建議");
+    expect(request.config).not.toHaveProperty("responseSchema");
+  });
+});
@@ -0,0 +1,298 @@
+import { GoogleGenAI, Schema } from "@google/genai";
+import { GroundingSource, LlmProviderId, LlmSettings } from "../types";
+import { MissingApiKeyError, SafetyBlockError, toLlmError } from "./llmErrors";
+import { withRetry, withTimeout } from "./retry";
+
+/**
+ * Text-generation backends behind the analysis service. Prompts and response
+ * validation live in geminiService.ts; providers only move text in and out.
+ */
+
+export interface LlmRequest {
+  prompt: string;
+  // When set the provider asks for JSON matching this schema
+  schema?: Schema;
+  // Ground the answer with web search where the backend supports it
+  useSearch?: boolean;
+  // Symbols the prompt is about; only the fixture provider looks at this
+  symbols?: string[];
+  // Set by the timeout wrapper so a slow request can be cancelled
+  signal?: AbortSignal;
+}
+
+// Provider-neutral citations: supports point into `sources` by index
+export interface LlmGrounding {
+  sources: (GroundingSource | null)[];
+  supports: { text: string; indices: number[] }[];
+}
+
+export interface LlmResponse {
+  text: string;
+  grounding?: LlmGrounding;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+}
+
+const SETTINGS_KEY = 'finance_llm_settings';
+
+// Search-grounded answers for a full batch routinely take half a minute
+const LLM_TIMEOUT_MS = 90000;
+
+export const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+  GEMINI: 'gemini-2.5-flash',
+  OPENAI_COMPATIBLE: 'llama3.1',
+  FIXTURE: 'fixture',
+};
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+export const LLM_PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  GEMINI: 'Google Gemini',
+  OPENAI_COMPATIBLE: 'OpenAI 相容端點 (Ollama / llama.cpp)',
+  FIXTURE: '離線測試資料 (Fixture)',
+};
+
+export const getLlmSettings = (): LlmSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    const parsed = saved ? JSON.parse(saved) : {};
+    const provider: LlmProviderId = parsed.provider in DEFAULT_MODELS ? parsed.provider : 'GEMINI';
+    return {
+      provider,
+      model: parsed.model || DEFAULT_MODELS[provider],
+      baseUrl: parsed.baseUrl || DEFAULT_OPENAI_BASE_URL,
+      apiKey: parsed.apiKey || '',
+    };
+  } catch {
+    return { provider: 'GEMINI', model: DEFAULT_MODELS.GEMINI, baseUrl: DEFAULT_OPENAI_BASE_URL, apiKey: '' };
+  }
+};
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// --- Gemini ---
+
+// Helper to get key from storage or env
+export const getGeminiApiKey = (): string | null => {
+  // 1. Check LocalStorage
+  const stored = localStorage.getItem('gemini_api_key');
+  if (stored) return stored;
+
+  // 2. Check Environment Variables
+  try {
+    // @ts-ignore
+    if (typeof import.meta !== 'undefined' && import.meta.env && import.meta.env.VITE_API_KEY) {
+      // @ts-ignore
+      return import.meta.env.VITE_API_KEY;
+    }
+  } catch (e) {
+    // Ignore error
+  }
+
+  try {
+    if (typeof process !== 'undefined' && process.env && process.env.API_KEY) {
+      return process.env.API_KEY;
+    }
+  } catch (e) {
+    // Ignore
+  }
+
+  return null;
+};
+
+const SAFETY_FINISH_REASONS: string[] = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+// Gemini's Schema uses upper-case OpenAPI type names; JSON Schema wants lower-case
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = schema.type.toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.required) out.required = schema.required;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return out;
+};
+
+/**
+ * Gemini rejects the googleSearch tool together with a response schema, so a
+ * grounded request describes the JSON shape in the prompt instead and relies
+ * on the caller's validation of what comes back.
+ */
+export const buildGeminiRequest = (model: string, { prompt, schema, useSearch, signal }: LlmRequest) => {
+  const schemaInPrompt = !!schema && !!useSearch;
+  return {
+    model,
+    contents: schemaInPrompt
+      ? `${prompt}\n\n請只回傳符合以下 JSON Schema 的 JSON，不要加上任何說明文字或 Markdown：\n${JSON.stringify(toJsonSchema(schema))}`
+      : prompt,
+    config: {
+      abortSignal: signal,
+      ...(useSearch ? { tools: [{ googleSearch: {} }] } : {}),
+      ...(schema && !schemaInPrompt ? { responseMimeType: "application/json", responseSchema: schema } : {}),
+    },
+  };
+};
+
+const createGeminiProvider = (model: string): LlmProvider => ({
+  id: 'GEMINI',
+  async generate(request) {
+    const apiKey = getGeminiApiKey();
+    if (!apiKey) throw new MissingApiKeyError();
+    const ai = new GoogleGenAI({ apiKey });
+
+    const response = await ai.models.generateContent(buildGeminiRequest(model, request))
+      .catch(error => { throw toLlmError(error); });
+
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) throw new SafetyBlockError(response.promptFeedback?.blockReasonMessage || blockReason);
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) throw new SafetyBlockError(finishReason);
+
+    const metadata = response.candidates?.[0]?.groundingMetadata;
+    const retrievedAt = new Date().toISOString();
+    const grounding: LlmGrounding | undefined = metadata?.groundingChunks?.length
+      ? {
+          sources: metadata.groundingChunks.map(chunk =>
+            chunk.web?.uri
+              ? { uri: chunk.web.uri, title: chunk.web.title || chunk.web.domain || chunk.web.uri, domain: chunk.web.domain, retrievedAt }
+              : null
+          ),
+          supports: (metadata.groundingSupports || []).map(support => ({
+            text: support.segment?.text || '',
+            indices: support.groundingChunkIndices || [],
+          })),
+        }
+      : undefined;
+
+    return { text: response.text || "", grounding };
+  },
+});
+
+// --- OpenAI-compatible chat completions (Ollama, llama.cpp server, LM Studio, ...) ---
+
+const createOpenAICompatibleProvider = (model: string, baseUrl: string, apiKey: string): LlmProvider => ({
+  id: 'OPENAI_COMPATIBLE',
+  async generate({ prompt, schema, signal }) {
+    const res = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0.2,
+        ...(schema
+          ? {
+              // Chat models cannot return a bare array under json_schema, so wrap it
+              response_format: {
+                type: 'json_schema',
+                json_schema: {
+                  name: 'response',
+                  schema: schema.type === 'ARRAY'
+                    ? { type: 'object', properties: { items: toJsonSchema(schema) }, required: ['items'] }
+                    : toJsonSchema(schema),
+                },
+              },
+            }
+          : {}),
+      }),
+    }).catch(error => { throw toLlmError(error); });
+    if (!res.ok) {
+      const retryAfter = Number(res.headers.get('Retry-After'));
+      throw toLlmError(new Error(await res.text()), res.status, retryAfter > 0 ? retryAfter * 1000 : undefined);
+    }
+    const data = await res.json();
+    const choice = data?.choices?.[0];
+    if (choice?.finish_reason === 'content_filter') throw new SafetyBlockError('content_filter');
+    const content: string = choice?.message?.content || "";
+
+    if (schema?.type === 'ARRAY') {
+      try {
+        const parsed = JSON.parse(content);
+        if (parsed && Array.isArray(parsed.items)) return { text: JSON.stringify(parsed.items) };
+      } catch {
+        // Let the caller's parser report the malformed text
+      }
+    }
+    return { text: content };
+  },
+});
+
+// --- Deterministic fixtures for offline development ---
+
+const FIXTURE_TREND_SYMBOLS = ['2330', '2317', '2454'];
+
+const hash = (text: string) => [...text].reduce((h, ch) => (h * 31 + ch.charCodeAt(0)) >>> 0, 7);
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const fixtureRecord = (symbol: string) => {
+  const seed = hash(symbol);
+  const base = 20 + (seed % 980);
+  const recommendations = ['BUY', 'HOLD', 'SELL'];
+  return {
+    symbol,
+    name: `測試-${symbol}`,
+    marketCap: `${(seed % 50) + 1}00億`,
+    high52Week: round2(base * 1.25),
+    low52Week: round2(base * 0.8),
+    currentPrice: base,
+    suggestBuyPrice: round2(base * 0.9),
+    suggestSellPrice: round2(base * 1.15),
+    recommendation: recommendations[seed % 3],
+    analysis: `[測試資料] ${symbol} 的固定分析內容，供離線開發使用。`,
+    projectedAnnualYield: `${(seed % 5) + 2}-${(seed % 5) + 4}%`,
+    exampleScenario: `[測試資料] ${symbol} 可於 ${round2(base * 0.9)} 附近分批布局。`,
+  };
+};
+
+const fixtureProvider: LlmProvider = {
+  id: 'FIXTURE',
+  async generate({ schema, symbols }) {
+    if (!schema) {
+      return { text: "[測試資料] 這是離線模式的固定理財建議：維持每月定期投入，並依年齡調整股債比例。" };
+    }
+    const list = symbols && symbols.length > 0 ? symbols : FIXTURE_TREND_SYMBOLS;
+    return { text: JSON.stringify(list.map(fixtureRecord)) };
+  },
+};
+
+// Every request gets a timeout, and transient failures are retried with backoff
+const withResilience = (provider: LlmProvider): LlmProvider => ({
+  id: provider.id,
+  generate: request => withRetry(
+    () => withTimeout(signal => provider.generate({ ...request, signal }), LLM_TIMEOUT_MS),
+    { onRetry: (error, attempt, delayMs) => console.warn(`LLM retry ${attempt} in ${Math.round(delayMs)}ms: ${error.name}`) }
+  ),
+});
+
+const createLlmProvider = (settings: LlmSettings): LlmProvider => {
+  switch (settings.provider) {
+    case 'OPENAI_COMPATIBLE':
+      return createOpenAICompatibleProvider(settings.model, settings.baseUrl, settings.apiKey);
+    case 'FIXTURE':
+      return fixtureProvider;
+    default:
+      return createGeminiProvider(settings.model);
+  }
+};
+
+export const getLlmProvider = (settings: LlmSettings = getLlmSettings()): LlmProvider =>
+  withResilience(createLlmProvider(settings));
+
+// Whether the selected provider can run right now (Gemini needs a key)
+export const isLlmConfigured = (settings: LlmSettings = getLlmSettings()): boolean =>
+  settings.provider !== 'GEMINI' || !!getGeminiApiKey();
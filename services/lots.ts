@@ -0,0 +1,26 @@
+// A board lot (張) is 1,000 shares; anything below that trades in the odd-lot (零股) session
+export const LOT_SIZE = 1000;
+
+export const splitLots = (shares: number): { lots: number; odd: number } => {
+  const whole = Math.max(0, Math.floor(shares));
+  return { lots: Math.floor(whole / LOT_SIZE), odd: whole % LOT_SIZE };
+};
+
+export const toShares = (lots: number, odd: number): number => lots * LOT_SIZE + odd;
+
+// e.g. 3250 -> "3張 250股", 3000 -> "3張", 250 -> "250股"
+export const formatShares = (shares: number): string => {
+  const { lots, odd } = splitLots(shares);
+  if (lots === 0) return `${odd.toLocaleString()}股`;
+  return odd === 0 ? `${lots.toLocaleString()}張` : `${lots.toLocaleString()}張 ${odd}股`;
+};
+
+/**
+ * Rounds a share count to whole lots when that is possible, so suggested
+ * orders can be placed in the regular session. Counts below one lot stay as
+ * odd shares.
+ */
+export const roundToLots = (shares: number): number => {
+  if (shares < LOT_SIZE) return Math.max(0, Math.round(shares));
+  return Math.round(shares / LOT_SIZE) * LOT_SIZE;
+};
@@ -0,0 +1,500 @@
+import { MarketQuote, MarketDataProviderId, DailyBar, PriceSource, Currency, FxRate } from "../types";
+import { parseCsv, parseTwNumber, parseTwDate, findColumn } from "./csv";
+import { addDays, lastTradingDay, taipeiDate } from "./tradingCalendar";
+import { getSecurity } from "./securityMaster";
+
+/**
+ * Source of price data (currentPrice / 52-week range). Kept separate from the
+ * LLM so quotes are never invented by the model.
+ */
+export interface MarketDataProvider {
+  id: MarketDataProviderId;
+  label: string;
+  // Returns quotes keyed by symbol; symbols the provider does not know are simply absent.
+  // The 52-week range is left out when the provider cannot back it with a year of prices.
+  getQuotes(symbols: string[]): Promise<Record<string, MarketQuote>>;
+  // Daily bars from `from` (YYYY-MM-DD) on, for providers that can serve history in one request
+  getHistory?(symbol: string, from: string): Promise<DailyBar[]>;
+  // Today's TWD value of each currency, for providers that publish exchange rates
+  getFxRates?(currencies: Currency[]): Promise<FxRate[]>;
+}
+
+const PROVIDER_KEY = 'finance_market_provider';
+const IMPORTED_QUOTES_KEY = 'finance_imported_quotes';
+const MOCK_URL_KEY = 'finance_mock_quote_url';
+const PRICE_HISTORY_KEY = 'finance_price_history';
+
+export const DEFAULT_MOCK_QUOTE_URL = 'http://localhost:8787';
+
+const TWSE_DAILY_URL = 'https://openapi.twse.com.tw/v1/exchangeReport/STOCK_DAY_ALL';
+const TPEX_DAILY_URL = 'https://www.tpex.org.tw/openapi/v1/tpex_mainboard_daily_close_quotes';
+// Per-stock monthly files (個股日成交資訊), the only free source of past daily bars
+const TWSE_MONTH_URL = 'https://www.twse.com.tw/exchangeReport/STOCK_DAY';
+const TPEX_MONTH_URL = 'https://www.tpex.org.tw/web/stock/aftertrading/daily_trading_info/st43_result.php';
+// Bank of Taiwan board rates (牌告匯率), the usual reference for TWD conversions
+const BOT_FX_URL = 'https://rate.bot.com.tw/xrt/flcsv/0/day';
+
+// Roughly five years of trading days, enough for the longest chart range
+const HISTORY_LIMIT = 1300;
+// Kept per symbol when storage runs out; still covers the 52-week range
+const TRIMMED_HISTORY_LIMIT = 260;
+// The exchanges block clients that fire per-stock requests in quick succession
+const MONTH_REQUEST_GAP_MS = 1000;
+// A history starting this soon after the 52-week window opens still counts as a
+// full year; the Lunar New Year closure alone can leave a ten-day gap
+const RANGE_START_SLACK_DAYS = 14;
+
+// --- Local daily bar history (52-week range from daily files, and the price chart) ---
+
+const loadHistory = (): Record<string, DailyBar[]> => {
+  try {
+    const saved = localStorage.getItem(PRICE_HISTORY_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const getPriceHistory = (symbol: string): DailyBar[] => loadHistory()[symbol] || [];
+
+const saveHistory = (history: Record<string, DailyBar[]>) => {
+  try {
+    localStorage.setItem(PRICE_HISTORY_KEY, JSON.stringify(history));
+  } catch (e) {
+    // Quota exceeded: keep the most recent year of every symbol
+    console.warn("Price history write failed, trimming", e);
+    const trimmed = Object.fromEntries(Object.entries(history).map(([s, bars]) => [s, bars.slice(-TRIMMED_HISTORY_LIMIT)]));
+    localStorage.setItem(PRICE_HISTORY_KEY, JSON.stringify(trimmed));
+  }
+};
+
+// Merges bars into the stored series; a bar replaces any stored bar with the same date
+export const recordPriceHistory = (bars: Record<string, DailyBar[]>) => {
+  const history = loadHistory();
+  Object.entries(bars).forEach(([symbol, incoming]) => {
+    const byDate = new Map((history[symbol] || []).map(b => [b.date, b]));
+    incoming.forEach(b => byDate.set(b.date, b));
+    history[symbol] = [...byDate.values()]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .slice(-HISTORY_LIMIT);
+  });
+  saveHistory(history);
+};
+
+export const recordDailyBars = (bars: Record<string, DailyBar>) =>
+  recordPriceHistory(Object.fromEntries(Object.entries(bars).map(([symbol, bar]) => [symbol, [bar]])));
+
+export const getHistorySymbolCount = (): number => Object.keys(loadHistory()).length;
+
+// History requests in flight per symbol, so the chart and a backfill do not fetch the same months twice
+const historyRequests = new Map<string, Promise<void>>();
+
+/**
+ * Stored bars from `from` on. When the store does not reach back that far and
+ * the selected provider serves history, the gap is fetched and kept first;
+ * fetch failures fall back to whatever is stored.
+ */
+export const loadPriceHistory = async (symbol: string, from: string): Promise<DailyBar[]> => {
+  await historyRequests.get(symbol);
+  const stored = getPriceHistory(symbol);
+  const provider = getMarketDataProvider();
+  if (provider.getHistory && (stored.length === 0 || stored[0].date > from)) {
+    const request = provider.getHistory(symbol, from)
+      .then(fetched => {
+        if (fetched.length > 0) recordPriceHistory({ [symbol]: fetched });
+      })
+      .catch(e => console.warn(`History request failed for ${symbol}`, e))
+      .finally(() => historyRequests.delete(symbol));
+    historyRequests.set(symbol, request);
+    await request;
+  }
+  return getPriceHistory(symbol).filter(b => b.date >= from);
+};
+
+let backfillQueue: Promise<unknown> = Promise.resolve();
+
+// Queues history loads without waiting for them; one symbol at a time, as the exchanges throttle bursts
+export const prefetchPriceHistory = (symbols: string[], from: string) => {
+  symbols.forEach(symbol => {
+    backfillQueue = backfillQueue.then(() => loadPriceHistory(symbol, from)).catch(() => undefined);
+  });
+};
+
+/**
+ * 52-week high and low from the stored bars up to `asOf`. Empty when the store
+ * does not reach back a full year, so a few weeks of prices are never passed
+ * off as the yearly range.
+ */
+export const fiftyTwoWeekRange = (symbol: string, asOf: string): Pick<MarketQuote, 'high52Week' | 'low52Week'> => {
+  const since = addDays(asOf, -365);
+  const stored = getPriceHistory(symbol).filter(b => b.date <= asOf);
+  const bars = stored.filter(b => b.date > since);
+  if (bars.length === 0 || stored[0].date > addDays(since, RANGE_START_SLACK_DAYS)) return {};
+  return {
+    high52Week: Math.max(...bars.map(b => b.high)),
+    low52Week: Math.min(...bars.map(b => b.low)),
+  };
+};
+
+// --- TWSE / TPEX daily quote files ---
+
+// Responses are untrusted JSON; callers narrow them field by field
+const fetchJson = async (url: string): Promise<unknown> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Quote request failed (${res.status}): ${url}`);
+  return res.json();
+};
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const recordsOf = (value: unknown): JsonRecord[] => (Array.isArray(value) ? value.filter(isRecord) : []);
+
+// Exchange files mix numeric strings and numbers
+const textOf = (value: unknown): string | undefined =>
+  typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+
+const numberOf = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+// Column names of one exchange's daily close file
+interface DailyFileColumns {
+  code: string;
+  name: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+}
+
+const TWSE_DAILY_COLUMNS: DailyFileColumns = {
+  code: 'Code', name: 'Name', open: 'OpeningPrice', high: 'HighestPrice', low: 'LowestPrice', close: 'ClosingPrice', volume: 'TradeVolume',
+};
+
+const TPEX_DAILY_COLUMNS: DailyFileColumns = {
+  code: 'SecuritiesCompanyCode', name: 'CompanyName', open: 'Open', high: 'High', low: 'Low', close: 'Close', volume: 'TradingShares',
+};
+
+// YYYY-MM of every month from `from` through the current Taipei month
+const monthsSince = (from: string): string[] => {
+  const months: string[] = [];
+  const last = taipeiDate().slice(0, 7);
+  let [year, month] = from.split('-').map(Number);
+  for (let key = from.slice(0, 7); key <= last; key = `${year}-${String(month).padStart(2, '0')}`) {
+    months.push(key);
+    [year, month] = month === 12 ? [year + 1, 1] : [year, month + 1];
+  }
+  return months;
+};
+
+// Both monthly files list 日期, 成交量, 成交金額, 開盤, 最高, 最低, 收盤, ...; TPEX counts volume in lots of 1,000
+const monthRowsToBars = (rows: unknown, volumeUnit: number): DailyBar[] =>
+  (Array.isArray(rows) ? rows : []).flatMap((row: unknown) => {
+    if (!Array.isArray(row)) return [];
+    const cells = row.map(cell => textOf(cell) ?? '');
+    const date = parseTwDate(cells[0]);
+    const close = parseTwNumber(cells[6]);
+    if (!date || close === null) return [];
+    return [{
+      date,
+      open: parseTwNumber(cells[3]) ?? close,
+      high: parseTwNumber(cells[4]) ?? close,
+      low: parseTwNumber(cells[5]) ?? close,
+      close,
+      volume: (parseTwNumber(cells[1]) ?? 0) * volumeUnit,
+    }];
+  });
+
+const fetchMonthBars = async (symbol: string, month: string, market: 'TWSE' | 'TPEX'): Promise<DailyBar[]> => {
+  const [year, mm] = month.split('-');
+  if (market === 'TPEX') {
+    const data = await fetchJson(`${TPEX_MONTH_URL}?l=zh-tw&d=${Number(year) - 1911}/${mm}&stkno=${encodeURIComponent(symbol)}`);
+    return monthRowsToBars(isRecord(data) ? data.aaData : undefined, 1000);
+  }
+  const data = await fetchJson(`${TWSE_MONTH_URL}?response=json&date=${year}${mm}01&stockNo=${encodeURIComponent(symbol)}`);
+  return monthRowsToBars(isRecord(data) ? data.data : undefined, 1);
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const twseTpexProvider: MarketDataProvider = {
+  id: 'TWSE_TPEX',
+  label: '證交所 / 櫃買中心 每日收盤行情',
+  async getQuotes(symbols) {
+    const wanted = new Set(symbols);
+    const [twse, tpex] = await Promise.all([
+      fetchJson(TWSE_DAILY_URL).catch(() => []),
+      fetchJson(TPEX_DAILY_URL).catch(() => []),
+    ]);
+
+    const bars: Record<string, DailyBar> = {};
+    const names: Record<string, string> = {};
+    const collect = (data: unknown, col: DailyFileColumns) => {
+      recordsOf(data).forEach(row => {
+        const symbol = (textOf(row[col.code]) ?? '').trim();
+        if (!wanted.has(symbol)) return;
+        const close = parseTwNumber(textOf(row[col.close]));
+        if (close === null) return;
+        bars[symbol] = {
+          date: parseTwDate(textOf(row.Date)) || lastTradingDay(),
+          open: parseTwNumber(textOf(row[col.open])) ?? close,
+          high: parseTwNumber(textOf(row[col.high])) ?? close,
+          low: parseTwNumber(textOf(row[col.low])) ?? close,
+          close,
+          volume: parseTwNumber(textOf(row[col.volume])) ?? 0,
+        };
+        names[symbol] = (textOf(row[col.name]) ?? '').trim();
+      });
+    };
+    collect(twse, TWSE_DAILY_COLUMNS);
+    collect(tpex, TPEX_DAILY_COLUMNS);
+
+    recordDailyBars(bars);
+
+    const quotes: Record<string, MarketQuote> = {};
+    Object.entries(bars).forEach(([symbol, bar]) => {
+      quotes[symbol] = {
+        symbol,
+        name: names[symbol] || undefined,
+        currentPrice: bar.close,
+        ...fiftyTwoWeekRange(symbol, bar.date),
+        asOf: bar.date,
+        provider: 'TWSE_TPEX',
+      };
+    });
+    return quotes;
+  },
+  // One request per month, so a year of history takes a dozen requests per stock
+  async getHistory(symbol, from) {
+    const market = getSecurity(symbol)?.market ?? 'TWSE';
+    const bars: DailyBar[] = [];
+    for (const [i, month] of monthsSince(from).entries()) {
+      if (i > 0) await delay(MONTH_REQUEST_GAP_MS);
+      bars.push(...(await fetchMonthBars(symbol, month, market)).filter(b => b.date >= from));
+    }
+    return bars;
+  },
+  async getFxRates(currencies) {
+    const res = await fetch(BOT_FX_URL);
+    if (!res.ok) throw new Error(`FX request failed (${res.status}): ${BOT_FX_URL}`);
+    return parseBotFxCsv(await res.text(), currencies);
+  },
+};
+
+/**
+ * Parses the Bank of Taiwan rate file, one row per currency with the bank's
+ * buying rates followed by its selling rates. The spot midpoint is used, or
+ * the cash midpoint for currencies without spot rates.
+ */
+export const parseBotFxCsv = (text: string, currencies: Currency[]): FxRate[] => {
+  const wanted = new Set(currencies);
+  const date = taipeiDate();
+  return parseCsv(text).flatMap(row => {
+    const currency = (row[0] || '').trim() as Currency;
+    const sellIndex = row.findIndex(cell => cell.trim() === '本行賣出');
+    if (!wanted.has(currency) || sellIndex === -1) return [];
+    const midpoint = (offset: number) => {
+      const buy = parseTwNumber(row[1 + offset]);
+      const sell = parseTwNumber(row[sellIndex + offset]);
+      return buy && sell ? (buy + sell) / 2 : null;
+    };
+    const twdPerUnit = midpoint(2) ?? midpoint(1);
+    return twdPerUnit ? [{ currency, date, twdPerUnit, source: 'TWSE_TPEX' as const }] : [];
+  });
+};
+
+// --- User-imported CSV ---
+
+/**
+ * Parses a quote CSV. Required columns: symbol and price; optional: name,
+ * high52/low52 and date. Both English and Chinese headers are accepted.
+ */
+export const parseQuoteCsv = (text: string): Record<string, MarketQuote> => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error('CSV 檔案是空的');
+
+  const col = {
+    symbol: findColumn(header, ['symbol', 'code', '代號', '證券代號', '股票代號']),
+    name: findColumn(header, ['name', '名稱', '證券名稱', '股票名稱']),
+    price: findColumn(header, ['price', 'close', 'currentPrice', '收盤價', '現價', '成交價']),
+    high: findColumn(header, ['high52', 'high52Week', '52週高', '52週最高']),
+    low: findColumn(header, ['low52', 'low52Week', '52週低', '52週最低']),
+    date: findColumn(header, ['date', '日期', '資料日期']),
+  };
+  if (col.symbol === -1 || col.price === -1) {
+    throw new Error('CSV 缺少「代號」或「價格」欄位');
+  }
+
+  const quotes: Record<string, MarketQuote> = {};
+  rows.forEach(row => {
+    const symbol = (row[col.symbol] || '').toUpperCase();
+    const price = parseTwNumber(row[col.price]);
+    if (!symbol || price === null) return;
+    quotes[symbol] = {
+      symbol,
+      name: col.name !== -1 && row[col.name] ? row[col.name] : undefined,
+      currentPrice: price,
+      high52Week: (col.high !== -1 ? parseTwNumber(row[col.high]) : null) ?? undefined,
+      low52Week: (col.low !== -1 ? parseTwNumber(row[col.low]) : null) ?? undefined,
+      asOf: (col.date !== -1 && row[col.date]) || lastTradingDay(),
+      provider: 'CSV',
+    };
+  });
+  return quotes;
+};
+
+/**
+ * Parses a daily price history CSV into bars per symbol. Columns: date and
+ * close, plus open/high/low/volume when present; a symbol column is optional
+ * for files holding a single stock (e.g. the TWSE 個股日成交資訊 export), in
+ * which case `symbol` names it. ROC dates are accepted.
+ */
+export const parseHistoryCsv = (text: string, symbol?: string): Record<string, DailyBar[]> => {
+  // Exchange exports put a title line above the header
+  const table = parseCsv(text);
+  const headerIndex = table.findIndex(row => findColumn(row, ['date', '日期']) !== -1);
+  if (headerIndex === -1) throw new Error('CSV 缺少「日期」欄位');
+  const [header, ...rows] = table.slice(headerIndex);
+
+  const col = {
+    symbol: findColumn(header, ['symbol', 'code', '代號', '證券代號', '股票代號']),
+    date: findColumn(header, ['date', '日期']),
+    open: findColumn(header, ['open', '開盤價']),
+    high: findColumn(header, ['high', '最高價']),
+    low: findColumn(header, ['low', '最低價']),
+    close: findColumn(header, ['close', 'price', '收盤價']),
+    volume: findColumn(header, ['volume', '成交股數', '成交量']),
+  };
+  if (col.close === -1) throw new Error('CSV 缺少「收盤價」欄位');
+  if (col.symbol === -1 && !symbol) throw new Error('CSV 沒有代號欄位，請先輸入這份檔案的股票代號');
+
+  const bars: Record<string, DailyBar[]> = {};
+  rows.forEach(row => {
+    const code = col.symbol !== -1 ? (row[col.symbol] || '').trim().toUpperCase() : symbol!.trim().toUpperCase();
+    const date = parseTwDate(row[col.date]);
+    const close = parseTwNumber(row[col.close]);
+    if (!code || !date || close === null) return;
+    const value = (index: number) => (index !== -1 ? parseTwNumber(row[index]) : null) ?? close;
+    (bars[code] ||= []).push({
+      date,
+      open: value(col.open),
+      high: value(col.high),
+      low: value(col.low),
+      close,
+      volume: col.volume !== -1 ? parseTwNumber(row[col.volume]) ?? 0 : 0,
+    });
+  });
+  if (Object.keys(bars).length === 0) throw new Error('CSV 中沒有可讀取的價格資料');
+  return bars;
+};
+
+export const saveImportedQuotes = (quotes: Record<string, MarketQuote>) => {
+  localStorage.setItem(IMPORTED_QUOTES_KEY, JSON.stringify(quotes));
+};
+
+export const getImportedQuotes = (): Record<string, MarketQuote> => {
+  try {
+    const saved = localStorage.getItem(IMPORTED_QUOTES_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const csvProvider: MarketDataProvider = {
+  id: 'CSV',
+  label: '自行匯入 CSV 報價',
+  async getQuotes(symbols) {
+    const imported = getImportedQuotes();
+    const quotes: Record<string, MarketQuote> = {};
+    symbols.forEach(s => {
+      if (imported[s]) quotes[s] = imported[s];
+    });
+    return quotes;
+  },
+};
+
+// --- Local mock HTTP server (see scripts/mock-market-server.js) ---
+
+export const getMockQuoteUrl = (): string =>
+  localStorage.getItem(MOCK_URL_KEY) || DEFAULT_MOCK_QUOTE_URL;
+
+export const setMockQuoteUrl = (url: string) => {
+  localStorage.setItem(MOCK_URL_KEY, url.trim() || DEFAULT_MOCK_QUOTE_URL);
+};
+
+export const mockServerProvider: MarketDataProvider = {
+  id: 'MOCK_SERVER',
+  label: '本機模擬報價伺服器',
+  async getQuotes(symbols) {
+    const url = `${getMockQuoteUrl().replace(/\/$/, '')}/quotes?symbols=${encodeURIComponent(symbols.join(','))}`;
+    const quotes: Record<string, MarketQuote> = {};
+    recordsOf(await fetchJson(url)).forEach(row => {
+      const currentPrice = numberOf(row.currentPrice);
+      if (typeof row.symbol !== 'string' || currentPrice === undefined) return;
+      const high52Week = numberOf(row.high52Week);
+      const low52Week = numberOf(row.low52Week);
+      const asOf = typeof row.asOf === 'string' && row.asOf ? row.asOf : lastTradingDay();
+      quotes[row.symbol] = {
+        symbol: row.symbol,
+        name: typeof row.name === 'string' ? row.name : undefined,
+        currentPrice,
+        ...(high52Week !== undefined && low52Week !== undefined ? { high52Week, low52Week } : fiftyTwoWeekRange(row.symbol, asOf)),
+        asOf,
+        provider: 'MOCK_SERVER',
+      };
+    });
+    return quotes;
+  },
+  async getHistory(symbol, from) {
+    const url = `${getMockQuoteUrl().replace(/\/$/, '')}/history?symbol=${encodeURIComponent(symbol)}&from=${from}`;
+    return recordsOf(await fetchJson(url)).flatMap(row => {
+      const close = numberOf(row.close);
+      if (typeof row.date !== 'string' || close === undefined) return [];
+      return [{
+        date: row.date,
+        open: numberOf(row.open) ?? close,
+        high: numberOf(row.high) ?? close,
+        low: numberOf(row.low) ?? close,
+        close,
+        volume: numberOf(row.volume) ?? 0,
+      }];
+    });
+  },
+  async getFxRates(currencies) {
+    const url = `${getMockQuoteUrl().replace(/\/$/, '')}/fx?currencies=${encodeURIComponent(currencies.join(','))}`;
+    return recordsOf(await fetchJson(url)).flatMap(row => {
+      const currency = currencies.find(c => c === row.currency);
+      const twdPerUnit = numberOf(row.twdPerUnit);
+      if (!currency || twdPerUnit === undefined) return [];
+      const date = typeof row.date === 'string' && row.date ? row.date : taipeiDate();
+      return [{ currency, date, twdPerUnit, source: 'MOCK_SERVER' as const }];
+    });
+  },
+};
+
+// --- Provider registry ---
+
+export const MARKET_DATA_PROVIDERS: MarketDataProvider[] = [twseTpexProvider, csvProvider, mockServerProvider];
+
+export const getSelectedProviderId = (): MarketDataProviderId => {
+  const saved = localStorage.getItem(PROVIDER_KEY) as MarketDataProviderId | null;
+  return saved && MARKET_DATA_PROVIDERS.some(p => p.id === saved) ? saved : 'TWSE_TPEX';
+};
+
+export const setSelectedProviderId = (id: MarketDataProviderId) => {
+  localStorage.setItem(PROVIDER_KEY, id);
+};
+
+export const getMarketDataProvider = (id: MarketDataProviderId = getSelectedProviderId()): MarketDataProvider =>
+  MARKET_DATA_PROVIDERS.find(p => p.id === id) || twseTpexProvider;
+
+export const PRICE_SOURCE_LABELS: Record<PriceSource, string> = {
+  TWSE_TPEX: '證交所/櫃買',
+  CSV: '匯入 CSV',
+  MOCK_SERVER: '模擬伺服器',
+  GEMINI: 'AI 搜尋',
+};
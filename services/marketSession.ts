@@ -0,0 +1,57 @@
+// Taiwan stock market session rules (regular trading 09:00 - 13:30, Asia/Taipei)
+import {
+  MARKET_OPEN_TIME,
+  MARKET_CLOSE_TIME,
+  taipeiDate,
+  taipeiTimeValue,
+  isTradingDay,
+  previousTradingDay,
+  getHoliday,
+} from "./tradingCalendar";
+
+// CLOSED = weekend, holiday or typhoon closure
+export type MarketSession = 'PRE_OPEN' | 'INTRADAY' | 'POST_CLOSE' | 'CLOSED';
+
+export interface SessionInfo {
+  session: MarketSession;
+  date: string; // Taipei calendar date, YYYY-MM-DD
+  tradingDate: string; // Trading day whose prices apply right now (today once open, else the previous one)
+  closureName?: string; // Holiday name when the market is CLOSED on a weekday
+  timeString: string; // Human readable Taipei time for prompts
+}
+
+export const getMarketSession = (now: Date = new Date()): SessionInfo => {
+  const date = taipeiDate(now);
+  const timeVal = taipeiTimeValue(now);
+
+  const options: Intl.DateTimeFormatOptions = { 
+    timeZone: 'Asia/Taipei', 
+    hour12: false,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  };
+  const timeString = now.toLocaleString('zh-TW', options);
+
+  if (!isTradingDay(date)) {
+    return { session: 'CLOSED', date, tradingDate: previousTradingDay(date), closureName: getHoliday(date)?.name, timeString };
+  }
+
+  let session: MarketSession;
+  if (timeVal >= MARKET_CLOSE_TIME) {
+    session = 'POST_CLOSE';
+  } else if (timeVal < MARKET_OPEN_TIME) {
+    session = 'PRE_OPEN';
+  } else {
+    session = 'INTRADAY';
+  }
+
+  return {
+    session,
+    date,
+    tradingDate: session === 'PRE_OPEN' ? previousTradingDay(date) : date,
+    timeString,
+  };
+};
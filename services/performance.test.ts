@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { ValuationSnapshot } from "../types";
+import { computePerformance } from "./performance";
+
+const snapshot = (date: string, value: number, extra: Partial<ValuationSnapshot> = {}): ValuationSnapshot =>
+  ({ date, values: { a1: value }, ...extra });
+
+describe("computePerformance", () => {
+  it("matches the plain return when nothing flows in or out", () => {
+    const result = computePerformance([snapshot("2025-01-02", 100000), snapshot("2025-01-31", 110000)], [], "ALL", "0050", "ALL")!;
+    expect(result.metrics.timeWeightedReturn).toBeCloseTo(0.1, 10);
+    expect(result.metrics.moneyWeightedReturn).toBeCloseTo(0.1, 6);
+  });
+
+  it("weights a deposit by the share of the period it was invested (Modified Dietz)", () => {
+    // 100,000 grows to 160,000 with 50,000 added halfway: 10,000 / (100,000 + 25,000)
+    const valuations = [snapshot("2025-01-01", 100000), snapshot("2025-01-31", 160000)];
+    const flows = [{ date: "2025-01-16", amount: 50000 }];
+    const { metrics } = computePerformance(valuations, flows, "ALL", "0050", "ALL")!;
+    expect(metrics.timeWeightedReturn).toBeCloseTo(0.08, 10);
+    expect(metrics.netFlows).toBe(50000);
+    // IRR solves 100,000 (1 + r) + 50,000 (1 + r)^0.5 = 160,000
+    const x = (-5 + Math.sqrt(25 + 640)) / 20;
+    expect(metrics.moneyWeightedReturn).toBeCloseTo(x * x - 1, 6);
+  });
+
+  it("ignores flows already in the first valuation", () => {
+    const valuations = [snapshot("2025-01-02", 100000), snapshot("2025-01-31", 105000)];
+    const { metrics } = computePerformance(valuations, [{ date: "2025-01-02", amount: 100000 }], "ALL", "0050", "ALL")!;
+    expect(metrics.timeWeightedReturn).toBeCloseTo(0.05, 10);
+    expect(metrics.netFlows).toBe(0);
+  });
+
+  it("chains periods into a time-weighted index and tracks the drawdown", () => {
+    const valuations = [snapshot("2025-01-02", 100000), snapshot("2025-02-03", 110000), snapshot("2025-03-03", 99000)];
+    const { points, metrics } = computePerformance(valuations, [], "ALL", "0050", "ALL")!;
+    expect(points.map(p => p.index)).toEqual([100, expect.closeTo(110, 8), expect.closeTo(99, 8)]);
+    expect(metrics.timeWeightedReturn).toBeCloseTo(-0.01, 10);
+    expect(metrics.maxDrawdown).toBeCloseTo(0.1, 10);
+  });
+
+  it("reports the benchmark return from the recorded closes", () => {
+    const valuations = [
+      snapshot("2025-01-02", 100000, { benchmarks: { "0050": 180 } }),
+      snapshot("2025-01-31", 110000, { benchmarks: { "0050": 189 } }),
+    ];
+    const { metrics } = computePerformance(valuations, [], "ALL", "0050", "ALL")!;
+    expect(metrics.benchmarkReturn).toBeCloseTo(0.05, 10);
+  });
+
+  it("leaves out snapshots taken in another base currency", () => {
+    const valuations = [snapshot("2025-01-02", 100000), snapshot("2025-01-31", 3400, { currency: "USD" })];
+    expect(computePerformance(valuations, [], "ALL", "0050", "ALL")).toBeNull();
+    expect(computePerformance(valuations, [], "ALL", "0050", "ALL", "USD")).toBeNull();
+  });
+});
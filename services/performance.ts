@@ -0,0 +1,317 @@
+import { Currency, DividendEvent, FxRate, PerformanceMetrics, PerformancePoint, PerformanceRange, Position, StockAnalysis, Transaction, ValuationSnapshot } from "../types";
+import { ALL_ACCOUNTS } from "./accounts";
+import { computePayouts } from "./dividends";
+import { parseTwNumber, parseTwDate } from "./csv";
+import { getMarketDataProvider } from "./marketDataService";
+import { conversionRate, currencyOf, getFxRates, getSymbolCurrencies, toBaseTransactions } from "./currency";
+import { addDays, isTradingDay, lastTradingDay, taipeiDate, taipeiTimeValue, MARKET_OPEN_TIME } from "./tradingCalendar";
+
+/**
+ * Daily portfolio valuations and the return figures built on them. Money moving
+ * in and out through the ledger (buys, sells, cash dividends) is treated as a
+ * cash flow, so adding to a position does not show up as performance.
+ */
+
+const VALUATIONS_KEY = 'finance_valuations';
+const BENCHMARK_KEY = 'finance_benchmark';
+
+// About five years of trading days
+const VALUATION_LIMIT = 1300;
+const TRADING_DAYS_PER_YEAR = 252;
+// Fewer returns than this make the volatility figure meaningless
+const MIN_VOLATILITY_POINTS = 5;
+
+const TWSE_INDEX_URL = 'https://openapi.twse.com.tw/v1/exchangeReport/MI_INDEX';
+const TAIEX_NAME = '發行量加權股價指數';
+
+export const DEFAULT_BENCHMARK = '0050';
+
+export const BENCHMARK_PRESETS: Record<string, string> = {
+  TAIEX: '加權指數',
+  '0050': '元大台灣50',
+  '006208': '富邦台50',
+};
+
+export const PERFORMANCE_RANGE_LABELS: Record<PerformanceRange, string> = {
+  '1M': '1 個月',
+  '3M': '3 個月',
+  YTD: '今年以來',
+  '1Y': '1 年',
+  ALL: '全部',
+};
+
+export const getValuations = (): ValuationSnapshot[] => {
+  try {
+    const saved = localStorage.getItem(VALUATIONS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveValuations = (valuations: ValuationSnapshot[]) => {
+  localStorage.setItem(VALUATIONS_KEY, JSON.stringify(valuations.slice(-VALUATION_LIMIT)));
+};
+
+export const getBenchmark = (): string => localStorage.getItem(BENCHMARK_KEY) || DEFAULT_BENCHMARK;
+
+export const setBenchmark = (symbol: string) => {
+  localStorage.setItem(BENCHMARK_KEY, symbol.trim() || DEFAULT_BENCHMARK);
+};
+
+// Quotes taken during a session belong to that day; later runs the same day overwrite them
+export const valuationDate = (now: Date = new Date()): string => {
+  const today = taipeiDate(now);
+  return isTradingDay(today) && taipeiTimeValue(now) >= MARKET_OPEN_TIME ? today : lastTradingDay(now);
+};
+
+// Trading day an analysis' price belongs to; model-priced analyses count for the session they ran in
+export const quoteDate = (stock: StockAnalysis): string | undefined =>
+  stock.priceAsOf || (stock.cachedAt ? valuationDate(new Date(stock.cachedAt)) : undefined);
+
+const upsert = (valuations: ValuationSnapshot[], date: string, change: (s: ValuationSnapshot) => ValuationSnapshot) => {
+  const existing = valuations.find(v => v.date === date) || { date, values: {} };
+  return [...valuations.filter(v => v.date !== date), change(existing)].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Stores the market value of every account, dated by the latest quote date
+ * among the held symbols rather than by the clock, so prices loaded from an
+ * earlier visit are never passed off as today's. `prices` are in `currency`
+ * (the base currency). Skipped (returns null) while any held symbol has no
+ * dated price yet, since a partial total would read as a loss, and before
+ * anything has ever been held.
+ */
+export const recordValuation = (
+  accountPositions: Record<string, Record<string, Position>>,
+  prices: Record<string, number>,
+  priceDates: Record<string, string>,
+  currency: Currency = 'TWD'
+): ValuationSnapshot[] | null => {
+  const held = Object.values(accountPositions).flatMap(positions => Object.values(positions).filter(p => p.quantity > 0));
+  if (held.some(p => !(prices[p.symbol] > 0) || !priceDates[p.symbol])) return null;
+
+  const valuations = getValuations();
+  if (held.length === 0 && valuations.length === 0) return null;
+  const date = held.length > 0
+    ? held.map(p => priceDates[p.symbol]).reduce((latest, d) => (d > latest ? d : latest))
+    : valuationDate();
+
+  const values = Object.fromEntries(Object.entries(accountPositions).map(([accountId, positions]) => [
+    accountId,
+    Object.values(positions).reduce((sum, p) => sum + (p.quantity > 0 ? p.quantity * prices[p.symbol] : 0), 0),
+  ]));
+  const current = valuations.find(v => v.date === date);
+  if (current && (current.currency || 'TWD') === currency && JSON.stringify(current.values) === JSON.stringify(values)) return null;
+
+  const updated = upsert(valuations, date, s => ({ ...s, values, currency }));
+  saveValuations(updated);
+  return updated;
+};
+
+// A close only means something next to a valuation of the same day; returns null when there is none
+export const recordBenchmarkClose = (date: string, symbol: string, close: number): ValuationSnapshot[] | null => {
+  const valuations = getValuations();
+  if (!valuations.some(v => v.date === date)) return null;
+  const updated = upsert(valuations, date, s => ({ ...s, benchmarks: { ...s.benchmarks, [symbol]: close } }));
+  saveValuations(updated);
+  return updated;
+};
+
+export interface BenchmarkClose {
+  date: string; // Trading day of the close, which may be earlier than the day it was fetched
+  close: number;
+}
+
+// One row of the TWSE index report (MI_INDEX)
+interface TwseIndexRow {
+  日期?: string;
+  指數?: string;
+  收盤指數?: string;
+}
+
+const isIndexRow = (value: unknown): value is TwseIndexRow =>
+  typeof value === 'object' && value !== null && typeof (value as TwseIndexRow).指數 === 'string';
+
+// TAIEX comes from the exchange's index report; any other benchmark is quoted like a holding
+export const fetchBenchmarkClose = async (symbol: string): Promise<BenchmarkClose | undefined> => {
+  if (symbol === 'TAIEX') {
+    const res = await fetch(TWSE_INDEX_URL);
+    if (!res.ok) throw new Error(`無法取得加權指數 (${res.status})`);
+    const rows: unknown = await res.json();
+    const row = Array.isArray(rows) ? rows.filter(isIndexRow).find(r => r.指數!.trim() === TAIEX_NAME) : undefined;
+    const close = parseTwNumber(row?.收盤指數);
+    return row && close !== null ? { date: parseTwDate(row.日期) || lastTradingDay(), close } : undefined;
+  }
+  const quote = (await getMarketDataProvider().getQuotes([symbol]))[symbol];
+  return quote ? { date: quote.asOf, close: quote.currentPrice } : undefined;
+};
+
+export interface CashFlow {
+  date: string;
+  amount: number; // Money into the portfolio (+) or out of it (-)
+}
+
+/**
+ * Buys bring money in, sells and cash dividends (on the ex-date, when the price
+ * drops) take it out. Amounts are in the base currency: trades at the broker's
+ * rate or their day's rate, as in toBaseTransactions, and dividends at the
+ * ex-date's rate.
+ */
+export const ledgerCashFlows = (
+  transactions: Transaction[],
+  dividends: DividendEvent[],
+  base: Currency = 'TWD',
+  currencies: Record<string, Currency> = getSymbolCurrencies(),
+  rates: FxRate[] = getFxRates()
+): CashFlow[] => [
+  ...toBaseTransactions(transactions, base, currencies, rates)
+    .filter(t => t.type === 'BUY' || t.type === 'SELL')
+    .map(t => ({
+      date: t.date,
+      amount: t.type === 'BUY' ? t.quantity * t.price + t.fee : -(t.quantity * t.price - t.fee),
+    })),
+  ...computePayouts(dividends, transactions).map(p => ({
+    date: p.event.exDate,
+    amount: -p.netCash * (conversionRate(currencyOf(p.event.symbol, currencies), base, p.event.exDate, rates) ?? 1),
+  })),
+];
+
+export const rangeStart = (range: PerformanceRange, endDate: string): string | undefined => {
+  switch (range) {
+    case '1M': return addDays(endDate, -30);
+    case '3M': return addDays(endDate, -91);
+    case 'YTD': return `${Number(endDate.slice(0, 4)) - 1}-12-31`;
+    case '1Y': return addDays(endDate, -365);
+    case 'ALL': return undefined;
+  }
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000);
+
+const tradingDaysBetween = (from: string, to: string) => {
+  let count = 0;
+  for (let d = addDays(from, 1); d <= to; d = addDays(d, 1)) if (isTradingDay(d)) count++;
+  return Math.max(count, 1);
+};
+
+const scopeValue = (snapshot: ValuationSnapshot, scope: string) =>
+  scope === ALL_ACCOUNTS
+    ? Object.values(snapshot.values).reduce((sum, v) => sum + v, 0)
+    : snapshot.values[scope] || 0;
+
+/**
+ * Internal rate of return of dated flows (investor's view: money in negative)
+ * over the whole span rather than per year, since short spans would annualize
+ * out of range. Solved by bisection; undefined when no rate balances the flows.
+ */
+const periodIrr = (flows: CashFlow[], spanDays: number): number | undefined => {
+  if (flows.length < 2 || spanDays <= 0) return undefined;
+  const start = flows[0].date;
+  const npv = (rate: number) => flows.reduce((sum, f) => sum + f.amount / Math.pow(1 + rate, daysBetween(start, f.date) / spanDays), 0);
+  let low = -0.9999;
+  let high = 100;
+  if (npv(low) * npv(high) > 0) return undefined;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (npv(low) * npv(mid) <= 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Chains Modified Dietz returns between consecutive valuations into a
+ * time-weighted index, and solves the money-weighted return over the same
+ * flows. Flows on or before the first valuation are already in its value.
+ */
+export const computePerformance = (
+  allValuations: ValuationSnapshot[],
+  flows: CashFlow[],
+  scope: string,
+  benchmark: string,
+  range: PerformanceRange,
+  currency: Currency = 'TWD'
+): { points: PerformancePoint[]; metrics: PerformanceMetrics } | null => {
+  // Snapshots valued in another base currency would read as a jump in value
+  const valuations = allValuations.filter(v => (v.currency || 'TWD') === currency);
+  if (valuations.length === 0) return null;
+  const endDate = valuations[valuations.length - 1].date;
+  const from = rangeStart(range, endDate);
+  const snapshots = valuations.filter(v => !from || v.date > from);
+  if (snapshots.length < 2) return null;
+
+  const points: PerformancePoint[] = [];
+  const returns: { value: number; days: number }[] = [];
+  let index = 100;
+  let peak = 100;
+  let benchmarkBase: number | undefined;
+
+  snapshots.forEach((snapshot, i) => {
+    const value = scopeValue(snapshot, scope);
+    let netFlow = 0;
+    if (i > 0) {
+      const prev = snapshots[i - 1];
+      const prevValue = scopeValue(prev, scope);
+      const periodDays = daysBetween(prev.date, snapshot.date);
+      const periodFlows = flows.filter(f => f.date > prev.date && f.date <= snapshot.date);
+      netFlow = periodFlows.reduce((sum, f) => sum + f.amount, 0);
+      // Each flow counts for the share of the period it was invested
+      const weighted = periodFlows.reduce((sum, f) => sum + f.amount * daysBetween(f.date, snapshot.date) / periodDays, 0);
+      const base = prevValue + weighted;
+      const r = base > 0 ? (value - prevValue - netFlow) / base : 0;
+      index *= 1 + r;
+      returns.push({ value: r, days: tradingDaysBetween(prev.date, snapshot.date) });
+    }
+    peak = Math.max(peak, index);
+    const close = snapshot.benchmarks?.[benchmark];
+    if (close && benchmarkBase === undefined) benchmarkBase = close;
+    points.push({
+      date: snapshot.date,
+      value,
+      netFlow,
+      index,
+      drawdown: peak > 0 ? 1 - index / peak : 0,
+      ...(close && benchmarkBase ? { benchmarkIndex: close / benchmarkBase * 100 } : {}),
+    });
+  });
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const rangeFlows = flows.filter(f => f.date > first.date && f.date <= last.date);
+  const spanDays = daysBetween(first.date, last.date);
+  const irr = periodIrr([
+    { date: first.date, amount: -first.value },
+    ...rangeFlows.map(f => ({ date: f.date, amount: -f.amount })),
+    { date: last.date, amount: last.value },
+  ].sort((a, b) => a.date.localeCompare(b.date)), spanDays);
+
+  // Volatility of daily-equivalent returns, so gaps between valuations do not inflate it
+  const scaled = returns.map(r => r.value / Math.sqrt(r.days));
+  const mean = scaled.reduce((sum, r) => sum + r, 0) / (scaled.length || 1);
+  const variance = scaled.reduce((sum, r) => sum + (r - mean) ** 2, 0) / Math.max(scaled.length - 1, 1);
+
+  const benchmarkPoints = points.filter(p => p.benchmarkIndex !== undefined);
+  const timeWeightedReturn = last.index / 100 - 1;
+
+  return {
+    points,
+    metrics: {
+      startDate: first.date,
+      endDate: last.date,
+      startValue: first.value,
+      endValue: last.value,
+      netFlows: rangeFlows.reduce((sum, f) => sum + f.amount, 0),
+      timeWeightedReturn,
+      ...(irr !== undefined ? { moneyWeightedReturn: irr } : {}),
+      ...(spanDays >= 365 ? {
+        annualizedTimeWeighted: Math.pow(1 + timeWeightedReturn, 365 / spanDays) - 1,
+        ...(irr !== undefined ? { annualizedMoneyWeighted: Math.pow(1 + irr, 365 / spanDays) - 1 } : {}),
+      } : {}),
+      maxDrawdown: Math.max(...points.map(p => p.drawdown)),
+      ...(scaled.length >= MIN_VOLATILITY_POINTS ? { volatility: Math.sqrt(variance * TRADING_DAYS_PER_YEAR) } : {}),
+      ...(benchmarkPoints.length >= 2 ? { benchmarkReturn: benchmarkPoints[benchmarkPoints.length - 1].benchmarkIndex! / 100 - 1 } : {}),
+    },
+  };
+};
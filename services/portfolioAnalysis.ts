@@ -0,0 +1,121 @@
+import { StockAnalysis, SymbolStatus } from "../types";
+import { analyzePortfolio, AnalyzeOptions } from "./geminiService";
+import { isFatalLlmError } from "./llmErrors";
+import { needsRequery } from "./sanityChecks";
+
+export interface BatchedAnalyzeOptions extends AnalyzeOptions {
+  batchSize?: number;
+  concurrency?: number;
+  // Extra attempts for symbols whose batch threw or whose record was missing / invalid
+  maxRetries?: number;
+  // Spend the retries on symbols whose analysis has sanity warnings the model could fix
+  requeryOnWarnings?: boolean;
+  onStocks?: (stocks: StockAnalysis[]) => void;
+  onStatus?: (statuses: Record<string, SymbolStatus>) => void;
+}
+
+const DEFAULT_BATCH_SIZE = 5;
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_RETRIES = 1;
+
+const chunk = <T,>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+// Runs the tasks with at most `limit` in flight at any time
+const runWithConcurrency = async (tasks: (() => Promise<void>)[], limit: number) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const task = tasks[next++];
+      await task();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+};
+
+/**
+ * Analyzes the watchlist in small batches so one bad symbol or a truncated
+ * response only costs that batch. Results and per-symbol status are reported
+ * through the callbacks as each batch finishes; the returned map is the final
+ * status of every symbol. A fatal error (missing or invalid key, safety block)
+ * fails the remaining batches without calling the model and is rethrown.
+ */
+export const analyzePortfolioInBatches = async (
+  symbols: string[],
+  options: BatchedAnalyzeOptions = {}
+): Promise<Record<string, SymbolStatus>> => {
+  const {
+    batchSize = DEFAULT_BATCH_SIZE,
+    concurrency = DEFAULT_CONCURRENCY,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    requeryOnWarnings = false,
+    onStocks,
+    onStatus,
+    ...analyzeOptions
+  } = options;
+
+  const finalStatus: Record<string, SymbolStatus> = {};
+  const report = (list: string[], state: SymbolStatus['state'], messages: Record<string, string> = {}) => {
+    const update: Record<string, SymbolStatus> = {};
+    list.forEach(symbol => {
+      update[symbol] = messages[symbol] ? { state, message: messages[symbol] } : { state };
+    });
+    Object.assign(finalStatus, update);
+    onStatus?.(update);
+  };
+
+  report(symbols, 'PENDING');
+
+  let fatalError: unknown = null;
+
+  const runBatch = async (batch: string[]) => {
+    let remaining = batch;
+    let messages: Record<string, string> = {};
+
+    if (fatalError) {
+      const message = fatalError instanceof Error ? fatalError.message : String(fatalError);
+      report(batch, 'FAILED', Object.fromEntries(batch.map(s => [s, message])));
+      return;
+    }
+
+    for (let attempt = 0; attempt <= maxRetries && remaining.length > 0; attempt++) {
+      if (attempt > 0) report(remaining, 'RETRYING');
+      try {
+        // Flagged symbols were cached on the previous attempt, so retries must bypass the cache
+        const { stocks, errors } = await analyzePortfolio(remaining, {
+          ...analyzeOptions,
+          forceRefresh: analyzeOptions.forceRefresh || attempt > 0,
+        });
+        const returned = stocks.filter(s => remaining.includes(s.symbol));
+        // Flagged records are still shown, but queried again while retries are left
+        const flagged = requeryOnWarnings && attempt < maxRetries ? returned.filter(needsRequery) : [];
+        const okSymbols = returned.filter(s => !flagged.includes(s)).map(s => s.symbol);
+        if (stocks.length > 0) onStocks?.(stocks);
+        report(okSymbols, 'OK');
+
+        messages = {};
+        errors.forEach(e => { messages[e.symbol] = e.message; });
+        flagged.forEach(s => { messages[s.symbol] = s.warnings!.map(w => w.message).join('；'); });
+        remaining = remaining.filter(s => !okSymbols.includes(s));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        messages = Object.fromEntries(remaining.map(s => [s, message]));
+        if (isFatalLlmError(error)) {
+          fatalError = error;
+          break;
+        }
+      }
+    }
+
+    if (remaining.length > 0) report(remaining, 'FAILED', messages);
+  };
+
+  await runWithConcurrency(chunk(symbols, batchSize).map(batch => () => runBatch(batch)), concurrency);
+  if (fatalError) throw fatalError;
+  return finalStatus;
+};
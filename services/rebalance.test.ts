@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { FeeSettings, Position, RebalanceTargets } from "../types";
+import { orderCosts, planRebalance } from "./rebalance";
+
+const FEES: FeeSettings = { commissionDiscount: 1, minCommission: 20, oddLotMinCommission: 1 };
+
+const position = (symbol: string, quantity: number): Position =>
+  ({ symbol, quantity, costBasis: 0, averageCost: 0, realizedPnl: 0 });
+
+const holdings = (weights: Record<string, number>): RebalanceTargets => ({ mode: "HOLDING", holdings: weights, classes: {} });
+
+describe("orderCosts", () => {
+  it("splits lots and odd shares, each with its own minimum", () => {
+    // 1 張 at 100: 142.5 -> 142; 5 odd shares at 100: 0.7 -> minimum 1
+    const costs = orderCosts("2317", "BUY", 100, 1005, FEES);
+    expect(costs.gross).toBe(100500);
+    expect(costs.commission).toBe(143);
+    expect(costs.net).toBe(100643);
+  });
+
+  it("charges the sell tax on stocks", () => {
+    const costs = orderCosts("2330", "SELL", 1000, 967, FEES);
+    expect(costs.commission).toBe(1377);
+    expect(costs.tax).toBe(2901);
+    expect(costs.net).toBe(967000 - 1377 - 2901);
+  });
+
+  it("works out Taiwan fees in NT$ when prices are in another base currency", () => {
+    // NT$10 a share quoted as US$0.3125: the NT$20 minimum is US$0.625, not US$20
+    const buy = orderCosts("2317", "BUY", 10 / 32, 1000, FEES, "TWD", 1 / 32);
+    expect(buy.gross).toBeCloseTo(312.5);
+    expect(buy.commission).toBeCloseTo(20 / 32);
+    const sell = orderCosts("2317", "SELL", 10 / 32, 1000, FEES, "TWD", 1 / 32);
+    expect(sell.tax).toBeCloseTo(30 / 32);
+  });
+
+  it("leaves foreign holdings free of Taiwan fees", () => {
+    expect(orderCosts("AAPL", "SELL", 6420, 3, FEES, "USD")).toEqual({ gross: 19260, commission: 0, tax: 0, net: 19260 });
+  });
+});
+
+describe("planRebalance", () => {
+  it("spends new cash on the underweight holding only", () => {
+    const positions = { "2330": position("2330", 1000), "2317": position("2317", 1000) };
+    const plan = planRebalance(positions, { "2330": 1000, "2317": 100 }, holdings({ "2330": 50, "2317": 50 }), "CASH_ONLY", 50000, FEES);
+    expect(plan.orders).toHaveLength(1);
+    expect(plan.orders[0]).toMatchObject({ symbol: "2317", side: "BUY", shares: 499 });
+    expect(plan.orders[0].costs.net).toBe(49971);
+    expect(plan.cashLeft).toBe(29);
+  });
+
+  it("sells the overweight holding and buys a foreign one in whole shares", () => {
+    const positions = { "2330": position("2330", 2000), AAPL: position("AAPL", 10) };
+    const plan = planRebalance(
+      positions, { "2330": 1000, AAPL: 6420 }, holdings({ "2330": 50, AAPL: 50 }), "FULL", 0, FEES, { AAPL: "USD" }
+    );
+    expect(plan.orders.map(o => [o.symbol, o.side, o.shares])).toEqual([["2330", "SELL", 967], ["AAPL", "BUY", 149]]);
+    expect(plan.orders[1].costs.commission).toBe(0);
+    expect(plan.cashLeft).toBe(962722 - 149 * 6420);
+  });
+
+  it("fits Taiwan buys to a budget in another base currency", () => {
+    // US$1,000 at 32 NT$/US$ buys 319 shares of a NT$100 stock with NT$45 commission
+    const plan = planRebalance(
+      { "2317": position("2317", 1) }, { "2317": 100 / 32 }, holdings({ "2317": 100 }), "CASH_ONLY", 1000, FEES, {}, { TWD: 1 / 32 }
+    );
+    expect(plan.orders[0].shares).toBe(319);
+    expect(plan.orders[0].costs.commission).toBeCloseTo(45 / 32);
+    expect(plan.cashLeft).toBeGreaterThanOrEqual(0);
+  });
+});
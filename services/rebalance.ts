@@ -0,0 +1,218 @@
+import { Currency, FeeSettings, InstrumentType, Position, RebalanceMode, RebalanceOrder, RebalancePlan, RebalanceRow, RebalanceTargets, RetirementPlan, TradeCosts } from "../types";
+import { LOT_SIZE, splitLots } from "./lots";
+import { buyCosts, sellCosts, COMMISSION_RATE } from "./tradingCosts";
+import { instrumentType } from "./allocation";
+
+/**
+ * Turns target weights into orders the broker will take: whole 張 in the
+ * regular session plus 零股 for the remainder, each priced with its own
+ * commission minimum and, for sells, the transaction tax. Foreign holdings
+ * trade in whole shares without Taiwan fees, and all prices are expected in
+ * the base currency so holdings can be weighed against each other; Taiwan
+ * fees are still worked out in NT$ and converted afterwards.
+ */
+
+const TARGETS_KEY = 'finance_rebalance_targets';
+const RETIREMENT_PLAN_KEY = 'finance_retirement_plan';
+
+// Shrinking buys to fit the cash converges within a few rounds; this is a safety cap
+const MAX_FIT_ROUNDS = 50;
+
+export const REBALANCE_MODE_LABELS: Record<RebalanceMode, string> = {
+  FULL: '完整再平衡 (可賣出)',
+  CASH_ONLY: '只用新資金 (不賣出)',
+};
+
+export const getRebalanceTargets = (): RebalanceTargets => {
+  try {
+    const saved = localStorage.getItem(TARGETS_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch {
+    // Fall through to empty targets
+  }
+  return { mode: 'HOLDING', holdings: {}, classes: {} };
+};
+
+export const saveRebalanceTargets = (targets: RebalanceTargets) => {
+  localStorage.setItem(TARGETS_KEY, JSON.stringify(targets));
+};
+
+// Monthly savings from the retirement plan in TWD, the default budget for a cash-only rebalance
+export const plannedMonthlySavings = (): number => {
+  try {
+    const plan: Partial<RetirementPlan> = JSON.parse(localStorage.getItem(RETIREMENT_PLAN_KEY) || '{}');
+    return plan.monthlySavings && plan.monthlySavings > 0 ? plan.monthlySavings : 0;
+  } catch {
+    return 0;
+  }
+};
+
+const sumCosts = (orders: TradeCosts[]): TradeCosts =>
+  orders.reduce(
+    (sum, o) => ({ gross: sum.gross + o.gross, commission: sum.commission + o.commission, tax: sum.tax + o.tax, net: sum.net + o.net }),
+    { gross: 0, commission: 0, tax: 0, net: 0 }
+  );
+
+const scaleCosts = (costs: TradeCosts, rate: number): TradeCosts => ({
+  gross: costs.gross * rate,
+  commission: costs.commission * rate,
+  tax: costs.tax * rate,
+  net: costs.net * rate,
+});
+
+/**
+ * Costs of one order at a base-currency `price`. Whole lots go to the regular
+ * session and the rest to the odd-lot session, so each part pays its own fees;
+ * those are charged on the NT$ price (`price / twdRate`) so the minimums and
+ * rounding stay in NT$, and the result is converted back.
+ */
+export const orderCosts = (
+  symbol: string,
+  side: RebalanceOrder['side'],
+  price: number,
+  shares: number,
+  settings: FeeSettings,
+  currency: Currency = 'TWD',
+  twdRate = 1
+): TradeCosts => {
+  if (currency !== 'TWD') {
+    // Taiwan lots, commission and tax do not apply abroad; counted at market value like elsewhere
+    const gross = price * shares;
+    return { gross, commission: 0, tax: 0, net: gross };
+  }
+  const nativePrice = price / twdRate;
+  const { lots, odd } = splitLots(shares);
+  const parts = [
+    { shares: lots * LOT_SIZE, oddLot: false },
+    { shares: odd, oddLot: true },
+  ].filter(p => p.shares > 0);
+  return scaleCosts(sumCosts(parts.map(p => side === 'BUY'
+    ? buyCosts(nativePrice, p.shares, settings, { oddLot: p.oddLot })
+    : sellCosts(symbol, nativePrice, p.shares, settings, { oddLot: p.oddLot }))), twdRate);
+};
+
+/**
+ * Target weight (0-1) per held symbol. Per-holding targets are normalized to
+ * add up to 100%; class targets are shared out within each class in
+ * proportion to the holdings' current values.
+ */
+export const resolveTargetWeights = (
+  targets: RebalanceTargets,
+  values: Record<string, number>
+): Record<string, number> => {
+  const symbols = Object.keys(values);
+  if (targets.mode === 'HOLDING') {
+    const total = symbols.reduce((sum, s) => sum + (targets.holdings[s] || 0), 0);
+    return Object.fromEntries(symbols.map(s => [s, total > 0 ? (targets.holdings[s] || 0) / total : 0]));
+  }
+  const classValue: Partial<Record<InstrumentType, number>> = {};
+  symbols.forEach(s => {
+    const type = instrumentType(s);
+    classValue[type] = (classValue[type] || 0) + values[s];
+  });
+  // Classes with no holdings cannot take money, so their share is spread over the others
+  const classTotal = (Object.keys(classValue) as InstrumentType[]).reduce((sum, c) => sum + (targets.classes[c] || 0), 0);
+  return Object.fromEntries(symbols.map(s => {
+    const type = instrumentType(s);
+    const classWeight = classTotal > 0 ? (targets.classes[type] || 0) / classTotal : 0;
+    return [s, classValue[type]! > 0 ? classWeight * values[s] / classValue[type]! : 0];
+  }));
+};
+
+// Buys that fit the cash, shrinking all of them together until they do
+const fitBuys = (
+  wanted: Record<string, number>,
+  prices: Record<string, number>,
+  cash: number,
+  settings: FeeSettings,
+  currencies: Record<string, Currency>,
+  twdRate: number
+): RebalanceOrder[] => {
+  let scale = 1;
+  for (let round = 0; round < MAX_FIT_ROUNDS; round++) {
+    const orders = Object.entries(wanted)
+      .map(([symbol, amount]) => {
+        // Leave room for the commission so the order itself stays within the amount
+        const currency = currencies[symbol] || 'TWD';
+        const feeRate = currency === 'TWD' ? COMMISSION_RATE : 0;
+        const shares = Math.floor(amount * scale / (prices[symbol] * (1 + feeRate)));
+        return { symbol, side: 'BUY' as const, shares, price: prices[symbol], costs: orderCosts(symbol, 'BUY', prices[symbol], shares, settings, currency, twdRate) };
+      })
+      .filter(o => o.shares > 0);
+    const spent = orders.reduce((sum, o) => sum + o.costs.net, 0);
+    if (spent <= cash) return orders;
+    scale *= Math.max(cash / spent, 0) * 0.999;
+  }
+  return [];
+};
+
+/**
+ * Builds the trade list. FULL sells what is above target and buys what is
+ * below it with the proceeds plus `newCash`; CASH_ONLY spends `newCash` on
+ * the holdings furthest below target and sells nothing. Holdings without a
+ * price are left out; `currencies` marks the foreign ones (default TWD).
+ * Prices and `newCash` are in the base currency, and `rates` gives today's
+ * rate into it per currency (only the TWD rate is used, for Taiwan fees).
+ */
+export const planRebalance = (
+  positions: Record<string, Position>,
+  prices: Record<string, number>,
+  targets: RebalanceTargets,
+  mode: RebalanceMode,
+  newCash: number,
+  settings: FeeSettings,
+  currencies: Record<string, Currency> = {},
+  rates: Partial<Record<Currency, number>> = {}
+): RebalancePlan => {
+  const twdRate = rates.TWD ?? 1;
+  const held = Object.values(positions).filter(p => p.quantity > 0 && prices[p.symbol] > 0);
+  const values = Object.fromEntries(held.map(p => [p.symbol, p.quantity * prices[p.symbol]]));
+  const weights = resolveTargetWeights(targets, values);
+  const current = Object.values(values).reduce((sum, v) => sum + v, 0);
+  const cashIn = Math.max(newCash, 0);
+  const total = current + cashIn;
+  const gap = (symbol: string) => weights[symbol] * total - values[symbol];
+
+  const sells: RebalanceOrder[] = mode === 'FULL'
+    ? held
+      .filter(p => gap(p.symbol) < 0)
+      .map(p => {
+        const shares = Math.min(Math.floor(-gap(p.symbol) / prices[p.symbol]), p.quantity);
+        return { symbol: p.symbol, side: 'SELL' as const, shares, price: prices[p.symbol], costs: orderCosts(p.symbol, 'SELL', prices[p.symbol], shares, settings, currencies[p.symbol], twdRate) };
+      })
+      .filter(o => o.shares > 0)
+    : [];
+  const cash = cashIn + sells.reduce((sum, o) => sum + o.costs.net, 0);
+
+  // Money each underweight holding should receive; when it is short, shared by how far each one lags
+  const deficits: Record<string, number> = Object.fromEntries(
+    held.map(p => [p.symbol, Math.max(gap(p.symbol), 0)] as const).filter(([, d]) => d > 0)
+  );
+  const totalDeficit = Object.values(deficits).reduce((sum, d) => sum + d, 0);
+  const budget = Math.min(cash, totalDeficit);
+  const wanted = Object.fromEntries(Object.entries(deficits).map(([s, d]) => [s, totalDeficit > 0 ? budget * d / totalDeficit : 0]));
+  const buys = fitBuys(wanted, prices, cash, settings, currencies, twdRate);
+
+  const orders = [...sells, ...buys];
+  const resultValues = { ...values };
+  orders.forEach(o => { resultValues[o.symbol] += (o.side === 'BUY' ? 1 : -1) * o.shares * o.price; });
+  const resultTotal = Object.values(resultValues).reduce((sum, v) => sum + v, 0);
+
+  const rows: RebalanceRow[] = held.map(p => ({
+    symbol: p.symbol,
+    price: prices[p.symbol],
+    currentValue: values[p.symbol],
+    currentWeight: current > 0 ? values[p.symbol] / current : 0,
+    targetWeight: weights[p.symbol],
+    resultValue: resultValues[p.symbol],
+    resultWeight: resultTotal > 0 ? resultValues[p.symbol] / resultTotal : 0,
+  }));
+
+  return {
+    orders,
+    rows,
+    cashIn,
+    cashLeft: cash - buys.reduce((sum, o) => sum + o.costs.net, 0),
+    maxDrift: Math.max(0, ...rows.map(r => Math.abs(r.resultWeight - r.targetWeight))),
+  };
+};
@@ -0,0 +1,66 @@
+import { LlmError, LlmTimeoutError, RateLimitError, toLlmError } from "./llmErrors";
+
+export interface RetryOptions {
+  // Attempts after the first one
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (error: LlmError, attempt: number, delayMs: number) => void;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 16000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with full jitter; a server-provided Retry-After wins when longer
+const backoffDelay = (error: LlmError, attempt: number, baseDelayMs: number, maxDelayMs: number) => {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  const retryAfter = error instanceof RateLimitError ? error.retryAfterMs ?? 0 : 0;
+  return Math.max(jittered, Math.min(retryAfter, maxDelayMs));
+};
+
+/**
+ * Runs `task`, retrying transient failures (rate limits, timeouts, network and
+ * 5xx errors) with exponential backoff. Anything else is rethrown at once,
+ * classified as an LlmError.
+ */
+export const withRetry = async <T,>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const {
+    retries = DEFAULT_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    onRetry,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (raw) {
+      const error = toLlmError(raw);
+      if (!error.retryable || attempt >= retries) throw error;
+      const delayMs = backoffDelay(error, attempt, baseDelayMs, maxDelayMs);
+      onRetry?.(error, attempt + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+};
+
+// Rejects with LlmTimeoutError when `task` takes longer than `timeoutMs`; the signal lets it stop early
+export const withTimeout = async <T,>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new LlmTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([task(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,164 @@
+import { StockAnalysis, SanityWarning, SanityWarningCode } from "../types";
+import { getSecurity } from "./securityMaster";
+import { nextTradingDay } from "./tradingCalendar";
+import { currencyOf } from "./currency";
+
+const SNAPSHOT_KEY = 'finance_price_snapshots';
+
+// TWSE / TPEX limit a stock's move to 10% of the previous close per trading day
+const DAILY_LIMIT = 0.1;
+// Small tolerance so rounding in the source data does not raise warnings
+const TOLERANCE = 0.005;
+
+export const SANITY_WARNING_LABELS: Record<SanityWarningCode, string> = {
+  PRICE_OUT_OF_RANGE: '價格超出52週區間',
+  INVERTED_TARGETS: '買賣目標顛倒',
+  NAME_MISMATCH: '名稱不符',
+  PRICE_LIMIT_EXCEEDED: '漲跌幅異常',
+};
+
+// Last price seen per symbol; `previous` keeps the prior trading day once `current` is today's
+interface PriceSnapshot {
+  current: { date: string; price: number };
+  previous?: { date: string; price: number };
+}
+
+const loadSnapshots = (): Record<string, PriceSnapshot> => {
+  try {
+    const saved = localStorage.getItem(SNAPSHOT_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+};
+
+// Most recent snapshot from a trading day before `date`
+const referencePrice = (snapshot: PriceSnapshot | undefined, date: string) => {
+  if (!snapshot) return undefined;
+  if (snapshot.current.date < date) return snapshot.current;
+  if (snapshot.previous && snapshot.previous.date < date) return snapshot.previous;
+  return undefined;
+};
+
+const tradingDaysBetween = (from: string, to: string): number => {
+  let days = 0;
+  for (let d = from; d < to && days < 30; d = nextTradingDay(d)) days++;
+  return Math.max(1, days);
+};
+
+// Loose comparison: 臺/台, spaces and the -KY / 股份有限公司 suffixes do not count as differences
+const normalizeName = (name: string) =>
+  name.replace(/臺/g, '台').replace(/股份有限公司|公司|-?KY|\s/gi, '').toUpperCase();
+
+const namesMatch = (a: string, b: string) => {
+  const x = normalizeName(a);
+  const y = normalizeName(b);
+  return x !== '' && y !== '' && (x.includes(y) || y.includes(x));
+};
+
+export interface SanityContext {
+  // Name as written by the model, before it was replaced with the security-master name
+  modelName?: string;
+  // Trading date the price belongs to when the stock has no priceAsOf
+  tradingDate: string;
+}
+
+/**
+ * Flags figures that cannot be right: a price outside its own 52-week range,
+ * a buy target above the sell target, a name that belongs to another company,
+ * or a move larger than the daily price limit allows since the last snapshot.
+ */
+export const checkStockAnalysis = (stock: StockAnalysis, context: SanityContext): SanityWarning[] => {
+  const warnings: SanityWarning[] = [];
+  const modelPriced = !stock.priceSource || stock.priceSource === 'GEMINI';
+
+  // Skipped when the quote source had no full year of prices to vouch for the range
+  const { currentPrice, low52Week, high52Week } = stock;
+  if (low52Week !== undefined && high52Week !== undefined &&
+      (currentPrice < low52Week * (1 - TOLERANCE) || currentPrice > high52Week * (1 + TOLERANCE))) {
+    warnings.push({
+      code: 'PRICE_OUT_OF_RANGE',
+      field: 'currentPrice',
+      message: `現價 ${currentPrice} 不在52週區間 ${low52Week} ~ ${high52Week} 內`,
+      requery: modelPriced,
+    });
+  }
+
+  if (stock.suggestBuyPrice >= stock.suggestSellPrice) {
+    warnings.push({
+      code: 'INVERTED_TARGETS',
+      field: 'suggestBuyPrice',
+      message: `建議買入價 ${stock.suggestBuyPrice} 不低於建議賣出價 ${stock.suggestSellPrice}`,
+      requery: true,
+    });
+  }
+
+  const security = getSecurity(stock.symbol);
+  const reportedName = context.modelName ?? stock.name;
+  if (security && reportedName && !namesMatch(reportedName, security.name)) {
+    warnings.push({
+      code: 'NAME_MISMATCH',
+      field: 'name',
+      message: `AI 回傳的名稱「${reportedName}」與證券清單的「${security.name}」不符，分析內容可能是別家公司`,
+      requery: true,
+    });
+  }
+
+  const date = stock.priceAsOf || context.tradingDate;
+  const reference = referencePrice(loadSnapshots()[stock.symbol], date);
+  // The 10% limit is a Taiwan rule; foreign markets have none or their own
+  if (reference && reference.price > 0 && currencyOf(stock.symbol) === 'TWD') {
+    const days = tradingDaysBetween(reference.date, date);
+    const maxMove = (1 + DAILY_LIMIT) ** days - 1;
+    const move = Math.abs(currentPrice - reference.price) / reference.price;
+    if (move > maxMove + TOLERANCE) {
+      warnings.push({
+        code: 'PRICE_LIMIT_EXCEEDED',
+        field: 'currentPrice',
+        message: `現價較 ${reference.date} 的 ${reference.price} 變動 ${(move * 100).toFixed(1)}%，超過 ${days} 個交易日的漲跌幅限制`,
+        requery: modelPriced,
+      });
+    }
+  }
+
+  return warnings;
+};
+
+// Remembers the prices that passed the daily-limit check as the baseline for the next run
+const recordSnapshots = (stocks: StockAnalysis[], tradingDate: string) => {
+  const snapshots = loadSnapshots();
+  stocks.forEach(stock => {
+    if (stock.warnings?.some(w => w.code === 'PRICE_LIMIT_EXCEEDED' || w.code === 'PRICE_OUT_OF_RANGE')) return;
+    const date = stock.priceAsOf || tradingDate;
+    const existing = snapshots[stock.symbol];
+    const entry = { date, price: stock.currentPrice };
+    if (!existing || existing.current.date < date) {
+      snapshots[stock.symbol] = { current: entry, previous: existing?.current };
+    } else if (existing.current.date === date) {
+      snapshots[stock.symbol] = { ...existing, current: entry };
+    }
+  });
+  localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(snapshots));
+};
+
+/**
+ * Attaches warnings to every stock and records clean prices as snapshots.
+ * `modelNames` maps symbols to the names the model originally returned.
+ */
+export const applySanityChecks = (
+  stocks: StockAnalysis[],
+  tradingDate: string,
+  modelNames: Record<string, string> = {}
+): StockAnalysis[] => {
+  const checked = stocks.map(stock => {
+    const warnings = checkStockAnalysis(stock, { modelName: modelNames[stock.symbol], tradingDate });
+    const { warnings: _previous, ...rest } = stock;
+    return warnings.length > 0 ? { ...rest, warnings } : rest;
+  });
+  recordSnapshots(checked, tradingDate);
+  return checked;
+};
+
+// Whether re-asking the model could clear at least one of the warnings
+export const needsRequery = (stock: StockAnalysis): boolean =>
+  !!stock.warnings?.some(w => w.requery);
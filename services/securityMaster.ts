@@ -0,0 +1,164 @@
+import { Security } from "../types";
+import { BUNDLED_SECURITIES, BUNDLED_SECURITIES_DATE } from "../data/twSecurities";
+
+const STORAGE_KEY = 'finance_security_master';
+
+// Company profiles carry industry and English names; daily quote files add ETFs
+const TWSE_PROFILE_URL = 'https://openapi.twse.com.tw/v1/opendata/t187ap03_L';
+const TPEX_PROFILE_URL = 'https://www.tpex.org.tw/openapi/v1/mopsfin_t187ap03_O';
+const TWSE_DAILY_URL = 'https://openapi.twse.com.tw/v1/exchangeReport/STOCK_DAY_ALL';
+const TPEX_DAILY_URL = 'https://www.tpex.org.tw/openapi/v1/tpex_mainboard_daily_close_quotes';
+
+// 產業別代碼 used by the MOPS company profile files
+const INDUSTRY_CODES: Record<string, string> = {
+  '01': '水泥工業', '02': '食品工業', '03': '塑膠工業', '04': '紡織纖維', '05': '電機機械',
+  '06': '電器電纜', '08': '玻璃陶瓷', '09': '造紙工業', '10': '鋼鐵工業', '11': '橡膠工業',
+  '12': '汽車工業', '14': '建材營造', '15': '航運業', '16': '觀光餐旅', '17': '金融保險業',
+  '18': '貿易百貨業', '19': '綜合', '20': '其他業', '21': '化學工業', '22': '生技醫療業',
+  '23': '油電燃氣業', '24': '半導體業', '25': '電腦及週邊設備業', '26': '光電業', '27': '通信網路業',
+  '28': '電子零組件業', '29': '電子通路業', '30': '資訊服務業', '31': '其他電子業', '32': '文化創意業',
+  '33': '農業科技業', '34': '電子商務', '35': '綠能環保', '36': '數位雲端', '37': '運動休閒', '38': '居家生活',
+};
+
+interface StoredMaster {
+  updatedAt: string;
+  securities: Security[];
+}
+
+const loadStored = (): StoredMaster | null => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+let index: Map<string, Security> | null = null;
+
+// Downloaded listings override the bundled snapshot code by code
+const getIndex = (): Map<string, Security> => {
+  if (!index) {
+    index = new Map(BUNDLED_SECURITIES.map(s => [s.code, s]));
+    loadStored()?.securities.forEach(s => index!.set(s.code, s));
+  }
+  return index;
+};
+
+export const getSecurityMasterDate = (): string => loadStored()?.updatedAt || BUNDLED_SECURITIES_DATE;
+
+export const getSecurityCount = (): number => getIndex().size;
+
+export const getSecurity = (code: string): Security | undefined => getIndex().get(code.trim().toUpperCase());
+
+export const isKnownSymbol = (code: string): boolean => getIndex().has(code.trim().toUpperCase());
+
+/**
+ * Resolves user input to a listing: an exact code, or an exact Chinese / English name.
+ */
+export const resolveSecurity = (input: string): Security | undefined => {
+  const term = input.trim();
+  if (!term) return undefined;
+  const byCode = getSecurity(term);
+  if (byCode) return byCode;
+  const lower = term.toLowerCase();
+  for (const s of getIndex().values()) {
+    if (s.name === term || s.nameEn.toLowerCase() === lower) return s;
+  }
+  return undefined;
+};
+
+// Autocomplete: code prefix matches first, then name matches
+export const searchSecurities = (term: string, limit = 8): Security[] => {
+  const q = term.trim().toLowerCase();
+  if (!q) return [];
+  const codeMatches: Security[] = [];
+  const nameMatches: Security[] = [];
+  for (const s of getIndex().values()) {
+    if (s.code.toLowerCase().startsWith(q)) {
+      codeMatches.push(s);
+    } else if (s.name.toLowerCase().includes(q) || s.nameEn.toLowerCase().includes(q)) {
+      nameMatches.push(s);
+    }
+  }
+  codeMatches.sort((a, b) => a.code.length - b.code.length || a.code.localeCompare(b.code));
+  return [...codeMatches, ...nameMatches].slice(0, limit);
+};
+
+// Label used in prompts, e.g. "2834 臺企銀 (Taiwan Business Bank, 上市 金融保險業)"
+export const describeSecurity = (s: Security): string =>
+  `${s.code} ${s.name} (${s.nameEn ? `${s.nameEn}, ` : ''}${s.market === 'TWSE' ? '上市' : '上櫃'} ${s.industry})`;
+
+const pick = (row: Record<string, unknown>, keys: string[]): string => {
+  for (const key of keys) {
+    const value = row[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return '';
+};
+
+const fetchRows = async (url: string): Promise<Record<string, unknown>[]> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Listing request failed (${res.status}): ${url}`);
+  const data = await res.json();
+  return Array.isArray(data) ? data : [];
+};
+
+const makeSecurity = (code: string, name: string, nameEn: string, market: Security['market'], industry: string): Security => ({
+  code,
+  name,
+  nameEn,
+  market,
+  industry: industry || (code.startsWith('00') ? (code.endsWith('B') ? '債券ETF' : 'ETF') : '其他業'),
+  isEtf: code.startsWith('00'),
+  isKy: name.endsWith('-KY'),
+});
+
+/**
+ * Downloads the current TWSE / TPEX listings and stores them locally.
+ * Returns the number of listings saved.
+ */
+export const updateSecurityMaster = async (): Promise<number> => {
+  const [twseProfiles, tpexProfiles, twseDaily, tpexDaily] = await Promise.all([
+    fetchRows(TWSE_PROFILE_URL),
+    fetchRows(TPEX_PROFILE_URL),
+    fetchRows(TWSE_DAILY_URL).catch(() => []),
+    fetchRows(TPEX_DAILY_URL).catch(() => []),
+  ]);
+
+  const securities = new Map<string, Security>();
+  const addProfiles = (rows: Record<string, unknown>[], market: Security['market']) => {
+    rows.forEach(row => {
+      const code = pick(row, ['公司代號', 'SecuritiesCompanyCode']);
+      const name = pick(row, ['公司簡稱', 'CompanyAbbreviation', 'CompanyName']);
+      if (!code || !name) return;
+      const industryCode = pick(row, ['產業別', 'SecuritiesIndustryCode']);
+      const nameEn = pick(row, ['英文簡稱', 'EnglishAbbreviation', 'Symbol']);
+      securities.set(code, makeSecurity(code, name, nameEn, market, INDUSTRY_CODES[industryCode] || ''));
+    });
+  };
+  addProfiles(twseProfiles, 'TWSE');
+  addProfiles(tpexProfiles, 'TPEX');
+
+  // ETFs and other listings without a company profile
+  const addDaily = (rows: Record<string, unknown>[], market: Security['market']) => {
+    rows.forEach(row => {
+      const code = pick(row, ['Code', 'SecuritiesCompanyCode']);
+      const name = pick(row, ['Name', 'CompanyName']);
+      if (!code || !name || securities.has(code)) return;
+      securities.set(code, makeSecurity(code, name, getSecurity(code)?.nameEn || '', market, ''));
+    });
+  };
+  addDaily(twseDaily, 'TWSE');
+  addDaily(tpexDaily, 'TPEX');
+
+  if (securities.size === 0) throw new Error('證券清單下載結果為空');
+
+  const stored: StoredMaster = {
+    updatedAt: new Date().toLocaleDateString('en-CA', { timeZone: 'Asia/Taipei' }),
+    securities: [...securities.values()],
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  index = null;
+  return securities.size;
+};
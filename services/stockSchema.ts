@@ -0,0 +1,159 @@
+import { Schema, Type } from "@google/genai";
+import { StockAnalysis, AnalysisResult, StockAnalysisError } from "../types";
+import { ResponseParseError } from "./llmErrors";
+
+// Response schema sent to Gemini so the model returns typed records instead of free text
+export const STOCK_ANALYSIS_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      symbol: { type: Type.STRING, description: "股票代碼 (e.g. 0050)" },
+      name: { type: Type.STRING, description: "股票名稱 (繁體中文)" },
+      marketCap: { type: Type.STRING, description: "市值 (e.g. 3000億)" },
+      high52Week: { type: Type.NUMBER, description: "52週最高" },
+      low52Week: { type: Type.NUMBER, description: "52週最低" },
+      currentPrice: { type: Type.NUMBER, description: "依據時間規則的精確價格" },
+      suggestBuyPrice: { type: Type.NUMBER, description: "建議買入價" },
+      suggestSellPrice: { type: Type.NUMBER, description: "建議賣出價" },
+      recommendation: { type: Type.STRING, enum: ["BUY", "SELL", "HOLD"] },
+      analysis: { type: Type.STRING },
+      projectedAnnualYield: { type: Type.STRING, description: "預估年化殖利率 (e.g. 5-6%)" },
+      exampleScenario: { type: Type.STRING }
+    },
+    required: [
+      "symbol", "name", "marketCap", "high52Week", "low52Week", "currentPrice",
+      "suggestBuyPrice", "suggestSellPrice", "recommendation", "analysis",
+      "projectedAnnualYield", "exampleScenario"
+    ],
+    propertyOrdering: [
+      "symbol", "name", "marketCap", "high52Week", "low52Week", "currentPrice",
+      "suggestBuyPrice", "suggestSellPrice", "recommendation", "analysis",
+      "projectedAnnualYield", "exampleScenario"
+    ]
+  }
+};
+
+// Portfolio analyses get their prices from a MarketDataProvider, so the model only
+// writes the commentary and its opinion on top of the supplied quote
+export const STOCK_NARRATIVE_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      symbol: { type: Type.STRING, description: "股票代碼 (e.g. 0050)" },
+      name: { type: Type.STRING, description: "股票名稱 (繁體中文)" },
+      marketCap: { type: Type.STRING, description: "市值 (e.g. 3000億)" },
+      suggestBuyPrice: { type: Type.NUMBER, description: "建議買入價" },
+      suggestSellPrice: { type: Type.NUMBER, description: "建議賣出價" },
+      recommendation: { type: Type.STRING, enum: ["BUY", "SELL", "HOLD"] },
+      analysis: { type: Type.STRING },
+      projectedAnnualYield: { type: Type.STRING, description: "預估年化殖利率 (e.g. 5-6%)" },
+      exampleScenario: { type: Type.STRING }
+    },
+    required: [
+      "symbol", "name", "marketCap", "suggestBuyPrice", "suggestSellPrice",
+      "recommendation", "analysis", "projectedAnnualYield", "exampleScenario"
+    ]
+  }
+};
+
+const NUMERIC_FIELDS = ['currentPrice', 'suggestBuyPrice', 'suggestSellPrice'] as const;
+// Left out of portfolio analyses whose quote source lacks a year of prices
+const OPTIONAL_NUMERIC_FIELDS = ['high52Week', 'low52Week'] as const;
+const TEXT_FIELDS = ['name', 'marketCap', 'analysis', 'projectedAnnualYield', 'exampleScenario'] as const;
+const RECOMMENDATIONS = ['BUY', 'SELL', 'HOLD'];
+
+// Thrown when the model output is not a JSON array at all (as opposed to a single bad record)
+export class StockSchemaError extends ResponseParseError {
+  constructor(message: string, public readonly rawText: string) {
+    super(message);
+    this.name = 'StockSchemaError';
+  }
+}
+
+export const parseJsonArray = (text: string): unknown[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    // Some models still wrap the payload in a ```json fence despite the mime type,
+    // and search-grounded answers (no mime type) may put prose around the array
+    const fenced = text.match(/```(?:json)?([\s\S]*?)```/);
+    const start = text.indexOf('[');
+    const end = text.lastIndexOf(']');
+    const candidate = fenced ? fenced[1] : start >= 0 && end > start ? text.slice(start, end + 1) : undefined;
+    try {
+      parsed = candidate !== undefined ? JSON.parse(candidate) : undefined;
+    } catch {
+      parsed = undefined;
+    }
+  }
+  if (!Array.isArray(parsed)) {
+    throw new StockSchemaError("AI 回傳的資料不是有效的 JSON 陣列", text);
+  }
+  return parsed;
+};
+
+// Returns a list of problems with the record; empty when it matches StockAnalysis
+const describeProblems = (record: Record<string, unknown>): string[] => {
+  const problems: string[] = [];
+  if (typeof record.symbol !== 'string' || record.symbol.trim() === '') {
+    problems.push('缺少股票代碼');
+  }
+  for (const field of NUMERIC_FIELDS) {
+    const value = record[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      problems.push(`${field} 不是數字`);
+    }
+  }
+  for (const field of OPTIONAL_NUMERIC_FIELDS) {
+    const value = record[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+      problems.push(`${field} 不是數字`);
+    }
+  }
+  for (const field of TEXT_FIELDS) {
+    if (typeof record[field] !== 'string') {
+      problems.push(`${field} 不是文字`);
+    }
+  }
+  if (!RECOMMENDATIONS.includes(record.recommendation as string)) {
+    problems.push(`recommendation 必須是 BUY、SELL 或 HOLD`);
+  }
+  return problems;
+};
+
+/**
+ * Checks every record of a model response against the StockAnalysis shape.
+ * Valid records are returned as stocks; malformed ones become per-symbol errors.
+ * When `expectedSymbols` is given, symbols the model skipped are reported too.
+ */
+export const validateStockRecords = (records: unknown[], expectedSymbols?: string[]): AnalysisResult => {
+  const stocks: StockAnalysis[] = [];
+  const errors: StockAnalysisError[] = [];
+
+  records.forEach((item, index) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      errors.push({ symbol: `#${index + 1}`, message: '資料格式不是物件' });
+      return;
+    }
+    const record = item as Record<string, unknown>;
+    const symbol = typeof record.symbol === 'string' && record.symbol.trim() ? record.symbol.trim() : `#${index + 1}`;
+    const problems = describeProblems(record);
+    if (problems.length > 0) {
+      errors.push({ symbol, message: problems.join('；') });
+      return;
+    }
+    stocks.push({ ...(record as unknown as StockAnalysis), symbol });
+  });
+
+  if (expectedSymbols) {
+    const seen = new Set([...stocks.map(s => s.symbol), ...errors.map(e => e.symbol)]);
+    expectedSymbols
+      .filter(s => !seen.has(s))
+      .forEach(symbol => errors.push({ symbol, message: 'AI 未回傳此代碼的資料' }));
+  }
+
+  return { stocks, errors };
+};
@@ -0,0 +1,161 @@
+import { MarketHoliday } from "../types";
+import { BUNDLED_HOLIDAYS } from "../data/twseHolidays";
+import { parseCsv, findColumn, parseTwDate } from "./csv";
+
+/**
+ * TWSE trading calendar: weekends plus the holiday / closure list.
+ * Dates are Taipei calendar dates in YYYY-MM-DD form.
+ */
+
+const STORAGE_KEY = 'finance_trading_holidays';
+const TWSE_HOLIDAY_URL = 'https://openapi.twse.com.tw/v1/holidaySchedule/holidaySchedule';
+
+export const MARKET_OPEN_TIME = 900;   // 09:00
+export const MARKET_CLOSE_TIME = 1330; // 13:30
+
+// Safety bound when walking the calendar (longest closure is the Lunar New Year break)
+const MAX_SCAN_DAYS = 30;
+
+const loadImported = (): MarketHoliday[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+let holidayIndex: Map<string, MarketHoliday> | null = null;
+
+const getHolidayIndex = (): Map<string, MarketHoliday> => {
+  if (!holidayIndex) {
+    holidayIndex = new Map(BUNDLED_HOLIDAYS.map(h => [h.date, h]));
+    loadImported().forEach(h => holidayIndex!.set(h.date, h));
+  }
+  return holidayIndex;
+};
+
+export const getHolidays = (): MarketHoliday[] =>
+  [...getHolidayIndex().values()].sort((a, b) => a.date.localeCompare(b.date));
+
+const saveImported = (holidays: MarketHoliday[]) => {
+  const merged = new Map(loadImported().map(h => [h.date, h]));
+  holidays.forEach(h => merged.set(h.date, h));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify([...merged.values()]));
+  holidayIndex = null;
+};
+
+// --- Date helpers ---
+
+export const taipeiDate = (now: Date = new Date()): string =>
+  now.toLocaleDateString('en-CA', { timeZone: 'Asia/Taipei' });
+
+export const taipeiTimeValue = (now: Date = new Date()): number => {
+  const taipeiTime = new Date(now.toLocaleString("en-US", {timeZone: "Asia/Taipei"}));
+  return taipeiTime.getHours() * 100 + taipeiTime.getMinutes(); // e.g. 1330 for 13:30
+};
+
+export const addDays = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+// Instant of HH:MM Taipei time on the given date
+const atTaipeiTime = (date: string, timeVal: number): Date => {
+  const hh = String(Math.floor(timeVal / 100)).padStart(2, '0');
+  const mm = String(timeVal % 100).padStart(2, '0');
+  return new Date(`${date}T${hh}:${mm}:00+08:00`);
+};
+
+// --- Calendar queries ---
+
+export const getHoliday = (date: string): MarketHoliday | undefined => getHolidayIndex().get(date);
+
+const isWeekend = (date: string): boolean => {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return weekday === 0 || weekday === 6;
+};
+
+export const isTradingDay = (date: string): boolean => !isWeekend(date) && !getHolidayIndex().has(date);
+
+export const previousTradingDay = (date: string): string => {
+  let d = addDays(date, -1);
+  for (let i = 0; i < MAX_SCAN_DAYS && !isTradingDay(d); i++) d = addDays(d, -1);
+  return d;
+};
+
+export const nextTradingDay = (date: string): string => {
+  let d = addDays(date, 1);
+  for (let i = 0; i < MAX_SCAN_DAYS && !isTradingDay(d); i++) d = addDays(d, 1);
+  return d;
+};
+
+// Most recent trading day whose closing price is final
+export const lastTradingDay = (now: Date = new Date()): string => {
+  const today = taipeiDate(now);
+  return isTradingDay(today) && taipeiTimeValue(now) >= MARKET_CLOSE_TIME ? today : previousTradingDay(today);
+};
+
+export const isMarketOpen = (now: Date = new Date()): boolean => {
+  const timeVal = taipeiTimeValue(now);
+  return isTradingDay(taipeiDate(now)) && timeVal >= MARKET_OPEN_TIME && timeVal < MARKET_CLOSE_TIME;
+};
+
+export const nextOpen = (now: Date = new Date()): Date => {
+  const today = taipeiDate(now);
+  if (isTradingDay(today) && taipeiTimeValue(now) < MARKET_OPEN_TIME) {
+    return atTaipeiTime(today, MARKET_OPEN_TIME);
+  }
+  return atTaipeiTime(nextTradingDay(today), MARKET_OPEN_TIME);
+};
+
+// Next open or close, for scheduling refreshes at session boundaries
+export const nextMarketEvent = (now: Date = new Date()): { type: 'OPEN' | 'CLOSE'; at: Date } =>
+  isMarketOpen(now)
+    ? { type: 'CLOSE', at: atTaipeiTime(taipeiDate(now), MARKET_CLOSE_TIME) }
+    : { type: 'OPEN', at: nextOpen(now) };
+
+// --- Importing newer schedules ---
+
+/**
+ * Parses a holiday CSV with a date column (西元或民國) and an optional name column.
+ * Returns the number of dates imported.
+ */
+export const importHolidaysCsv = (text: string): number => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error('CSV 檔案是空的');
+  const dateCol = findColumn(header, ['date', '日期']);
+  const nameCol = findColumn(header, ['name', '名稱', '說明']);
+  if (dateCol === -1) throw new Error('CSV 缺少「日期」欄位');
+
+  const holidays = rows
+    .map(row => ({ date: parseTwDate(row[dateCol]), name: (nameCol !== -1 && row[nameCol]) || '休市' }))
+    .filter((h): h is MarketHoliday => !!h.date);
+  saveImported(holidays);
+  return holidays.length;
+};
+
+// One row of the TWSE holiday schedule; Date is an ROC date, sometimes sent as a number
+interface TwseHolidayRow {
+  Name: string;
+  Date: string | number;
+}
+
+const isHolidayRow = (value: unknown): value is TwseHolidayRow =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as TwseHolidayRow).Name === 'string' &&
+  ['string', 'number'].includes(typeof (value as TwseHolidayRow).Date);
+
+// Downloads the official TWSE schedule; entries marking the first / last trading day are skipped
+export const updateHolidaysFromTwse = async (): Promise<number> => {
+  const res = await fetch(TWSE_HOLIDAY_URL);
+  if (!res.ok) throw new Error(`Holiday request failed (${res.status})`);
+  const rows: unknown = await res.json();
+  const holidays = (Array.isArray(rows) ? rows.filter(isHolidayRow) : [])
+    .filter(row => !/(開始|最後)交易/.test(row.Name))
+    .map(row => ({ date: parseTwDate(String(row.Date)), name: row.Name }))
+    .filter((h): h is MarketHoliday => !!h.date && !isWeekend(h.date));
+  saveImported(holidays);
+  return holidays.length;
+};
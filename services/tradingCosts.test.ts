@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { FeeSettings } from "../types";
+import { breakEvenPrice, buyCosts, commission, liquidationCosts, sellCosts, taxRate } from "./tradingCosts";
+
+const FEES: FeeSettings = { commissionDiscount: 1, minCommission: 20, oddLotMinCommission: 1 };
+
+describe("commission", () => {
+  it("drops the fraction of a dollar", () => {
+    expect(commission(100000, FEES)).toBe(142);
+    expect(commission(100000, { ...FEES, commissionDiscount: 0.6 })).toBe(85);
+  });
+
+  it("applies the board-lot or odd-lot minimum", () => {
+    expect(commission(1000, FEES)).toBe(20);
+    expect(commission(1000, FEES, true)).toBe(1);
+    expect(commission(0, FEES)).toBe(0);
+  });
+});
+
+describe("taxRate", () => {
+  it("charges stocks, day trades and ETFs their own rates", () => {
+    expect(taxRate("2330")).toBe(0.003);
+    expect(taxRate("2330", { dayTrade: true })).toBe(0.0015);
+    expect(taxRate("0050", { date: "2025-06-02" })).toBe(0.001);
+  });
+
+  it("exempts bond ETFs until the end of 2026", () => {
+    expect(taxRate("00679B", { date: "2026-12-31" })).toBe(0);
+    expect(taxRate("00679B", { date: "2027-01-04" })).toBe(0.001);
+  });
+});
+
+describe("trade costs", () => {
+  it("adds commission to buys and takes commission and tax off sells", () => {
+    expect(buyCosts(100, 1000, FEES)).toEqual({ gross: 100000, commission: 142, tax: 0, net: 100142 });
+    expect(sellCosts("2330", 100, 1000, FEES)).toEqual({ gross: 100000, commission: 142, tax: 300, net: 99558 });
+  });
+
+  it("sells board lots and odd shares as separate orders", () => {
+    // 3,000 shares: 427 + 900 tax; 250 odd shares: 35 + 75 tax
+    expect(liquidationCosts("2330", 100, 3250, FEES)).toEqual({ gross: 325000, commission: 462, tax: 975, net: 323563 });
+  });
+});
+
+describe("breakEvenPrice", () => {
+  it("finds the lowest price in cents that recovers the cost after fees", () => {
+    const position = { symbol: "2330", quantity: 1000, costBasis: 100142, averageCost: 100.142, realizedPnl: 0 };
+    const price = breakEvenPrice(position, FEES);
+    expect(price).toBe(100.59);
+    expect(liquidationCosts("2330", price, 1000, FEES).net).toBeGreaterThanOrEqual(100142);
+    expect(liquidationCosts("2330", price - 0.01, 1000, FEES).net).toBeLessThan(100142);
+  });
+
+  it("includes the odd-lot minimum for small holdings", () => {
+    // 10 shares bought for NT$1,001: 1 commission plus 3 tax need a price of at least 100.50
+    const position = { symbol: "2330", quantity: 10, costBasis: 1001, averageCost: 100.1, realizedPnl: 0 };
+    expect(breakEvenPrice(position, FEES)).toBe(100.5);
+  });
+
+  it("is zero when nothing is held", () => {
+    expect(breakEvenPrice({ symbol: "2330", quantity: 0, costBasis: 0, averageCost: 0, realizedPnl: 0 }, FEES)).toBe(0);
+  });
+});
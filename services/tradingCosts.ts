@@ -0,0 +1,119 @@
+import { FeeSettings, TradeCosts, Position } from "../types";
+import { getSecurity } from "./securityMaster";
+import { taipeiDate } from "./tradingCalendar";
+import { splitLots, LOT_SIZE } from "./lots";
+
+const FEE_SETTINGS_KEY = 'finance_fee_settings';
+
+// Statutory ceiling; brokers quote discounts off this rate
+export const COMMISSION_RATE = 0.001425;
+export const DEFAULT_FEE_SETTINGS: FeeSettings = { commissionDiscount: 1, minCommission: 20, oddLotMinCommission: 1 };
+
+// Securities transaction tax, charged on sells only
+const STOCK_TAX_RATE = 0.003;
+const DAY_TRADE_TAX_RATE = 0.0015;
+const ETF_TAX_RATE = 0.001;
+// Bond ETFs (codes ending in B) are exempt until the end of 2026
+const BOND_ETF_EXEMPT_UNTIL = '2026-12-31';
+
+export const getFeeSettings = (): FeeSettings => {
+  try {
+    const saved = localStorage.getItem(FEE_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_FEE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_FEE_SETTINGS;
+  } catch {
+    return DEFAULT_FEE_SETTINGS;
+  }
+};
+
+export const saveFeeSettings = (settings: FeeSettings) => {
+  localStorage.setItem(FEE_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export interface TradeOptions {
+  // Same-day round trip by a day trader; halves the stock tax rate
+  dayTrade?: boolean;
+  // YYYY-MM-DD of the trade, for date-limited exemptions (defaults to today)
+  date?: string;
+  // Odd-lot orders use their own minimum commission
+  oddLot?: boolean;
+}
+
+export const taxRate = (symbol: string, options: TradeOptions = {}): number => {
+  const security = getSecurity(symbol);
+  if (security?.isEtf) {
+    const date = options.date || taipeiDate();
+    return /B$/.test(security.code) && date <= BOND_ETF_EXEMPT_UNTIL ? 0 : ETF_TAX_RATE;
+  }
+  return options.dayTrade ? DAY_TRADE_TAX_RATE : STOCK_TAX_RATE;
+};
+
+// Brokers drop the fraction of a dollar, then apply the minimum per order
+export const commission = (amount: number, settings: FeeSettings = getFeeSettings(), oddLot = false): number => {
+  if (amount <= 0) return 0;
+  const minimum = oddLot ? settings.oddLotMinCommission : settings.minCommission;
+  return Math.max(minimum, Math.floor(amount * COMMISSION_RATE * settings.commissionDiscount));
+};
+
+export const buyCosts = (
+  price: number,
+  quantity: number,
+  settings: FeeSettings = getFeeSettings(),
+  options: TradeOptions = {}
+): TradeCosts => {
+  const gross = price * quantity;
+  const fee = commission(gross, settings, options.oddLot);
+  return { gross, commission: fee, tax: 0, net: gross + fee };
+};
+
+export const sellCosts = (
+  symbol: string,
+  price: number,
+  quantity: number,
+  settings: FeeSettings = getFeeSettings(),
+  options: TradeOptions = {}
+): TradeCosts => {
+  const gross = price * quantity;
+  const fee = commission(gross, settings, options.oddLot);
+  const tax = gross > 0 ? Math.floor(gross * taxRate(symbol, options)) : 0;
+  return { gross, commission: fee, tax, net: gross - fee - tax };
+};
+
+// Selling a holding of 3,250 shares takes a board-lot order for 3,000 and an odd-lot order for 250
+export const liquidationCosts = (
+  symbol: string,
+  price: number,
+  quantity: number,
+  settings: FeeSettings = getFeeSettings()
+): TradeCosts => {
+  const { lots, odd } = splitLots(quantity);
+  const orders = [
+    sellCosts(symbol, price, lots * LOT_SIZE, settings),
+    sellCosts(symbol, price, odd, settings, { oddLot: true }),
+  ];
+  return orders.reduce((sum, o) => ({
+    gross: sum.gross + o.gross,
+    commission: sum.commission + o.commission,
+    tax: sum.tax + o.tax,
+    net: sum.net + o.net,
+  }));
+};
+
+/**
+ * Lowest sell price, to the cent, at which selling the whole position recovers
+ * its cost basis after commission and tax.
+ */
+export const breakEvenPrice = (position: Position, settings: FeeSettings = getFeeSettings()): number => {
+  if (position.quantity <= 0) return 0;
+  const { quantity, costBasis, symbol } = position;
+  const proportional = costBasis / (quantity * (1 - COMMISSION_RATE * settings.commissionDiscount - taxRate(symbol)));
+  // Minimum fees push the answer up and rounding fees down can pull it slightly below; walk up from just under the estimate
+  let cents = Math.max(0, Math.floor((proportional - 2 / quantity) * 100));
+  while (liquidationCosts(symbol, cents / 100, quantity, settings).net < costBasis) cents++;
+  return cents / 100;
+};
+
+// What selling every share at `price` would leave in the account, and the profit over cost
+export const netLiquidation = (position: Position, price: number, settings: FeeSettings = getFeeSettings()) => {
+  const costs = liquidationCosts(position.symbol, price, position.quantity, settings);
+  return { ...costs, profit: costs.net - position.costBasis };
+};
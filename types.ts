@@ -2,8 +2,9 @@ export interface StockAnalysis {
   symbol: string;
   name: string;
   marketCap: string;
-  high52Week: number;
-  low52Week: number;
+  // Absent when the quote source could not back a full 52-week range
+  high52Week?: number;
+  low52Week?: number;
   currentPrice: number;
   suggestBuyPrice: number;
   suggestSellPrice: number;
@@ -11,6 +12,139 @@ export interface StockAnalysis {
   analysis: string;
   projectedAnnualYield: string; // e.g. "8-12%"
   exampleScenario: string;
+  // Which market-data provider supplied the price fields ('GEMINI' = taken from the model's search)
+  priceSource?: PriceSource;
+  priceAsOf?: string; // YYYY-MM-DD of the quote
+  cachedAt?: string; // ISO timestamp of the Gemini call that produced this analysis
+  sources?: GroundingSource[]; // Google Search citations behind the analysis
+  warnings?: SanityWarning[]; // Implausible figures found by services/sanityChecks.ts
+}
+
+export type SanityWarningCode = 'PRICE_OUT_OF_RANGE' | 'INVERTED_TARGETS' | 'NAME_MISMATCH' | 'PRICE_LIMIT_EXCEEDED';
+
+export interface SanityWarning {
+  code: SanityWarningCode;
+  field: keyof StockAnalysis;
+  message: string;
+  // True when the figure came from the model, so asking again may fix it
+  requery: boolean;
+}
+
+export interface GroundingSource {
+  uri: string;
+  title: string;
+  domain?: string;
+  retrievedAt: string; // ISO timestamp
+}
+
+// One listing in the local Taiwan security master
+export interface Security {
+  code: string;
+  name: string; // 中文簡稱
+  nameEn: string;
+  market: 'TWSE' | 'TPEX';
+  industry: string;
+  isEtf: boolean;
+  isKy: boolean;
+}
+
+// A weekday on which TWSE / TPEX does not trade (holiday, typhoon closure, ...)
+export interface MarketHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export type MarketDataProviderId = 'TWSE_TPEX' | 'CSV' | 'MOCK_SERVER';
+export type PriceSource = MarketDataProviderId | 'GEMINI';
+
+export type Currency = 'TWD' | 'USD' | 'HKD' | 'JPY' | 'EUR' | 'CNY';
+
+// Value of one unit of a currency in TWD on one day, kept by services/currency.ts
+export interface FxRate {
+  currency: Currency;
+  date: string; // YYYY-MM-DD
+  twdPerUnit: number;
+  source: MarketDataProviderId | 'MANUAL';
+}
+
+export interface MarketQuote {
+  symbol: string;
+  name?: string;
+  currentPrice: number;
+  // Undefined when the source has less than a year of prices for the symbol
+  high52Week?: number;
+  low52Week?: number;
+  asOf: string; // YYYY-MM-DD
+  provider: MarketDataProviderId;
+}
+
+export interface DailyBar {
+  date: string; // YYYY-MM-DD
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type ChartRange = '1M' | '3M' | '1Y' | '5Y';
+export type ChartStyle = 'CANDLE' | 'LINE';
+export type ChartOverlay = 'MA' | 'BOLLINGER';
+export type ChartPanel = 'VOLUME' | 'RSI' | 'MACD' | 'KD';
+
+// Indicator values on one bar; undefined until a series has enough history
+export interface IndicatorPoint {
+  date: string;
+  ma5?: number;
+  ma20?: number;
+  ma60?: number;
+  bollingerUpper?: number;
+  bollingerMiddle?: number;
+  bollingerLower?: number;
+  rsi?: number; // RSI(14), 0-100
+  macdDif?: number; // EMA12 - EMA26
+  macdSignal?: number; // 9-day EMA of DIF (DEA)
+  macdHistogram?: number; // DIF - signal (OSC)
+  k?: number; // KD(9,3,3), 0-100
+  d?: number;
+  volumeMa5?: number;
+  volumeMa20?: number;
+}
+
+// One symbol's figures from one analysis run, kept by services/analysisHistory.ts
+export interface AnalysisSnapshot {
+  recordedAt: string; // ISO timestamp of the analysis (its cachedAt when served from cache)
+  name: string;
+  recommendation: StockAnalysis['recommendation'];
+  currentPrice: number;
+  suggestBuyPrice: number;
+  suggestSellPrice: number;
+  priceAsOf?: string;
+}
+
+export type TrackedAnalysisField = 'recommendation' | 'suggestBuyPrice' | 'suggestSellPrice' | 'currentPrice';
+
+export interface AnalysisChange {
+  field: TrackedAnalysisField;
+  before: string | number;
+  after: string | number;
+}
+
+// A symbol whose AI record was missing or failed schema validation
+export interface StockAnalysisError {
+  symbol: string;
+  message: string;
+}
+
+// Progress of one symbol within a batched portfolio analysis
+export interface SymbolStatus {
+  state: 'PENDING' | 'OK' | 'FAILED' | 'RETRYING';
+  message?: string;
+}
+
+export interface AnalysisResult {
+  stocks: StockAnalysis[];
+  errors: StockAnalysisError[];
 }
 
 export interface RetirementPlan {
@@ -35,6 +169,253 @@ export interface RetirementResult {
   advice: string;
 }
 
+export type LlmProviderId = 'GEMINI' | 'OPENAI_COMPATIBLE' | 'FIXTURE';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  baseUrl: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  apiKey: string; // Optional bearer token for the OpenAI-compatible endpoint
+}
+
+// A brokerage account or family member's portfolio; transactions and watchlists belong to one
+export interface Account {
+  id: string;
+  name: string;
+  broker?: string;
+  owner?: string;
+  includeInRetirement: boolean; // Counts toward retirement assets in RetirementCalc
+}
+
+export type TransactionType = 'BUY' | 'SELL' | 'SPLIT';
+
+export interface Transaction {
+  id: string;
+  accountId?: string; // Missing on entries made before accounts existed; they belong to the default account
+  symbol: string;
+  type: TransactionType;
+  date: string; // YYYY-MM-DD
+  quantity: number; // Shares; for SPLIT the number of new shares per old share (e.g. 2 for a 1-to-2 split)
+  price: number; // Per share; 0 for SPLIT
+  fee: number; // Total fees and taxes paid on this transaction
+  oddLot?: boolean; // Traded in the odd-lot (零股) session rather than in board lots
+  fxRate?: number; // Foreign holdings: TWD per unit of the symbol's currency on the broker's confirmation
+  note?: string;
+}
+
+export interface DividendEvent {
+  id: string;
+  symbol: string;
+  exDate: string; // YYYY-MM-DD; shares held at the close of the previous trading day qualify
+  payDate?: string; // YYYY-MM-DD, when announced
+  cashPerShare: number; // 現金股利 (元/股)
+  stockPerShare: number; // 股票股利 (元/股, at NT$10 par: 1元 = 100 shares per 1,000)
+  note?: string;
+}
+
+export interface DividendPayout {
+  event: DividendEvent;
+  accountId: string;
+  sharesHeld: number;
+  cashAmount: number;
+  stockShares: number; // New shares received, fractions paid out by the issuer are dropped
+  supplementaryPremium: number; // 二代健保補充保費 withheld from the cash
+  netCash: number;
+}
+
+export type InstrumentType = 'STOCK' | 'ETF' | 'BOND_ETF';
+
+// One ETF's holdings, used to see through the ETF to the stocks it owns
+export interface EtfHoldings {
+  etf: string;
+  asOf: string; // YYYY-MM-DD of the issuer's disclosure
+  constituents: { symbol: string; weight: number }[]; // Weight as a fraction of the fund; may not add up to 1
+}
+
+export interface AllocationSlice {
+  key: string;
+  label: string;
+  value: number;
+  weight: number; // Fraction of the portfolio's priced market value
+}
+
+export interface ConcentrationWarning {
+  kind: 'POSITION' | 'SECTOR';
+  key: string;
+  label: string;
+  weight: number;
+  limit: number;
+}
+
+export type RebalanceTargetMode = 'HOLDING' | 'ASSET_CLASS';
+// FULL sells overweight holdings to fund the rest; CASH_ONLY only spends new money
+export type RebalanceMode = 'FULL' | 'CASH_ONLY';
+
+export interface RebalanceTargets {
+  mode: RebalanceTargetMode;
+  holdings: Record<string, number>; // Target % by symbol
+  classes: Partial<Record<InstrumentType, number>>; // Target % by instrument type
+}
+
+export interface RebalanceOrder {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  shares: number; // Board lots and odd shares together; placed as two orders when both are present
+  price: number;
+  costs: TradeCosts;
+}
+
+export interface RebalanceRow {
+  symbol: string;
+  price: number;
+  currentValue: number;
+  currentWeight: number;
+  targetWeight: number;
+  resultValue: number;
+  resultWeight: number;
+}
+
+export interface RebalancePlan {
+  orders: RebalanceOrder[];
+  rows: RebalanceRow[];
+  cashIn: number; // New money put to work
+  cashLeft: number; // Sale proceeds and new money not spent
+  maxDrift: number; // Largest |result weight - target weight| after the plan
+}
+
+// One trading day's market value per account, kept by services/performance.ts
+export interface ValuationSnapshot {
+  date: string; // YYYY-MM-DD, the trading day the prices belong to
+  values: Record<string, number>; // Market value by account id
+  currency?: Currency; // Currency of `values`; absent on snapshots taken before foreign holdings (TWD)
+  benchmarks?: Record<string, number>; // Close of each benchmark fetched on that day, by benchmark symbol
+}
+
+export type PerformanceRange = '1M' | '3M' | 'YTD' | '1Y' | 'ALL';
+
+export interface PerformancePoint {
+  date: string;
+  value: number;
+  netFlow: number; // Money put in (+) or taken out (-) since the previous point
+  index: number; // Time-weighted growth of 100
+  drawdown: number; // Fall of the index from its running peak, 0 to 1
+  benchmarkIndex?: number; // Benchmark rebased to 100 at its first close in the range
+}
+
+export interface PerformanceMetrics {
+  startDate: string;
+  endDate: string;
+  startValue: number;
+  endValue: number;
+  netFlows: number;
+  timeWeightedReturn: number;
+  moneyWeightedReturn?: number; // Over the range; undefined when it cannot be solved
+  annualizedTimeWeighted?: number; // Only for ranges of a year or more
+  annualizedMoneyWeighted?: number;
+  maxDrawdown: number;
+  volatility?: number; // Annualized; needs several points
+  benchmarkReturn?: number;
+}
+
+export type AlertCondition = 'PRICE_ABOVE' | 'PRICE_BELOW' | 'PERCENT_MOVE' | 'NEW_52W_HIGH' | 'NEW_52W_LOW';
+
+// Where a price rule's level comes from: a fixed number or the latest AI suggestion
+export type AlertLevelSource = 'FIXED' | 'SUGGEST_BUY' | 'SUGGEST_SELL';
+
+export interface AlertRule {
+  id: string;
+  symbol: string;
+  condition: AlertCondition;
+  levelSource: AlertLevelSource;
+  level?: number; // Price for FIXED price rules, percent for PERCENT_MOVE
+  enabled: boolean;
+  armed: boolean; // Cleared when the rule fires, set again once the condition stops holding
+  basePrice?: number; // PERCENT_MOVE reference; re-based each time the rule fires
+  createdAt: string; // ISO timestamp
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  symbol: string;
+  condition: AlertCondition;
+  price: number;
+  message: string;
+  triggeredAt: string; // ISO timestamp
+  read: boolean;
+}
+
+// Broker CSV imports: trade confirmations (成交明細) or TDCC holdings statements (集保庫存)
+export type ImportKind = 'TRADES' | 'HOLDINGS';
+
+export type ImportField = 'symbol' | 'date' | 'side' | 'quantity' | 'price' | 'fee' | 'tax' | 'note';
+
+// Column index per field, -1 when the file has no such column
+export type ColumnMapping = Record<ImportField, number>;
+
+export type ImportRowStatus = 'NEW' | 'DUPLICATE' | 'ERROR';
+
+export interface ImportRow {
+  line: number; // 1-based line in the file, for the preview
+  status: ImportRowStatus;
+  transaction?: Transaction; // Missing on ERROR rows
+  message?: string;
+}
+
+// Everything the app keeps in localStorage except API keys and caches, as written by services/dataExport.ts
+export interface BackupData {
+  accounts: Account[];
+  accountSymbols: Record<string, string[]>;
+  transactions: Transaction[];
+  dividends: DividendEvent[];
+  portfolioStocks: StockAnalysis[];
+  retirementPlan: RetirementPlan | null;
+  costMethod: CostBasisMethod;
+  feeSettings: FeeSettings;
+  // Added in version 2; parseBackup fills them in for version 1 bundles
+  symbolCurrencies: Record<string, Currency>;
+  baseCurrency: Currency;
+  fxRates: FxRate[];
+  alertRules: AlertRule[];
+  alertInbox: AlertEvent[];
+  analysisHistory: Record<string, AnalysisSnapshot[]>;
+  valuations: ValuationSnapshot[];
+}
+
+export interface BackupBundle {
+  format: string;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  data: BackupData;
+}
+
+export type RestoreMode = 'MERGE' | 'REPLACE';
+
+export type ExportDataset = 'HOLDINGS' | 'ANALYSES' | 'TRANSACTIONS' | 'DIVIDENDS' | 'RETIREMENT';
+
+export type CostBasisMethod = 'AVERAGE' | 'FIFO';
+
+export interface Position {
+  symbol: string;
+  quantity: number;
+  costBasis: number; // Total cost of the shares still held, fees included
+  averageCost: number; // costBasis / quantity (0 when nothing is held)
+  realizedPnl: number; // Sale proceeds after fees minus the cost of the shares sold
+}
+
+export interface FeeSettings {
+  commissionDiscount: number; // Broker discount on the 0.1425% commission, e.g. 0.6 for 6折
+  minCommission: number; // Minimum commission per order in NTD
+  oddLotMinCommission: number; // Most brokers charge a lower minimum on odd-lot orders
+}
+
+export interface TradeCosts {
+  gross: number; // price * quantity
+  commission: number;
+  tax: number; // Securities transaction tax; 0 for buys
+  net: number; // Buys: gross + costs paid; sells: gross - costs received
+}
+
 export enum TabView {
   MARKET_ANALYSIS = 'MARKET_ANALYSIS',
   RETIREMENT_PLANNING = 'RETIREMENT_PLANNING'